@@ -0,0 +1,117 @@
+import {
+  createDocEntry,
+  getDocLabel,
+  queryDocs,
+  renderDocLink,
+  renderLlmsTxt,
+  toDocName
+} from '../docs.catalog';
+
+const ENTRIES = [
+  createDocEntry({
+    displayName: 'AboutModal',
+    category: 'component',
+    section: 'accessibility',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: 'https://example.com/about-modal/accessibility.md',
+    description: 'AboutModal accessibility'
+  }),
+  createDocEntry({
+    displayName: 'AboutModal',
+    category: 'component',
+    section: 'examples',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: 'https://example.com/AboutModal.md',
+    description: 'AboutModal examples'
+  }),
+  createDocEntry({
+    displayName: 'Bar Chart',
+    category: 'chart',
+    section: 'examples',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: 'https://example.com/bar-chart.md',
+    description: 'Bar chart examples'
+  }),
+  createDocEntry({
+    displayName: 'react-setup',
+    category: 'guide',
+    section: 'guide',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: 'documentation/setup/README.md',
+    description: 'Setup guide'
+  })
+];
+
+describe('toDocName', () => {
+  it.each([
+    { description: 'pascal case', value: 'AboutModal', expected: 'about-modal' },
+    { description: 'words', value: 'Bar Chart', expected: 'bar-chart' },
+    { description: 'kebab case', value: 'react-setup', expected: 'react-setup' },
+    { description: 'surrounding whitespace', value: ' DualListSelector ', expected: 'dual-list-selector' }
+  ])('should convert names, $description', ({ value, expected }) => {
+    expect(toDocName(value)).toBe(expected);
+  });
+});
+
+describe('createDocEntry', () => {
+  it('should apply defaults', () => {
+    expect(ENTRIES[0]).toMatchSnapshot();
+  });
+});
+
+describe('getDocLabel', () => {
+  it('should return labels by category', () => {
+    expect(ENTRIES.map(getDocLabel)).toMatchSnapshot();
+  });
+
+  it('should return labels with a custom namespace', () => {
+    expect(ENTRIES.map(entry => getDocLabel({ ...entry, namespace: '@acme' }))).toEqual([
+      '@acme/AboutModal - Accessibility',
+      '@acme/AboutModal - Examples',
+      '@acme/Charts - Bar Chart',
+      '@acme/react-setup'
+    ]);
+  });
+});
+
+describe('renderDocLink', () => {
+  it('should render markdown links', () => {
+    expect(ENTRIES.map(renderDocLink)).toMatchSnapshot();
+  });
+});
+
+describe('renderLlmsTxt', () => {
+  it('should render llms.txt sections', () => {
+    expect(renderLlmsTxt({
+      title: '@patternfly/react-core 6.0.0',
+      sections: [
+        { title: 'Components', entries: ENTRIES.filter(({ category }) => category === 'component') },
+        { title: 'Guides', entries: ENTRIES.filter(({ category }) => category === 'guide') }
+      ]
+    })).toMatchSnapshot();
+  });
+
+  it('should render llms.txt links with a summary, skipping links without a target and empty sections', () => {
+    expect(renderLlmsTxt({
+      title: '@patternfly/react-core 6.0.0',
+      summary: 'PatternFly React components',
+      sections: [
+        { entries: [{ title: 'Overview', url: 'https://example.com/overview.md' }] },
+        { title: 'Components', entries: [...ENTRIES.slice(0, 1), { title: 'Missing', url: '', classification: 'Missing target' }] },
+        { title: 'Empty', entries: [] }
+      ]
+    })).toMatchSnapshot();
+  });
+});
+
+describe('queryDocs', () => {
+  it.each([
+    { description: 'empty query', query: {} },
+    { description: 'loose name', query: { name: 'aboutmodal' } },
+    { description: 'display name and section', query: { name: 'AboutModal', section: 'examples' as const } },
+    { description: 'category', query: { category: 'chart' as const } },
+    { description: 'no match', query: { name: 'lorem-ipsum' } }
+  ])('should filter entries, $description', ({ query }) => {
+    expect(queryDocs(ENTRIES, query).map(renderDocLink)).toMatchSnapshot();
+  });
+});
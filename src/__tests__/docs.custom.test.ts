@@ -0,0 +1,45 @@
+import { createDocEntry } from '../docs.catalog';
+import { CUSTOM_DOCS, findCustomDoc, setCustomDocs } from '../docs.custom';
+
+const ENTRIES = [
+  createDocEntry({
+    displayName: 'ProductCard',
+    category: 'guide',
+    section: 'guide',
+    packageName: '@acme',
+    namespace: '@acme',
+    pathOrUrl: '/srv/acme/ProductCard.md',
+    description: 'Product card'
+  }),
+  createDocEntry({
+    displayName: 'OrderTable',
+    category: 'component',
+    section: 'accessibility',
+    packageName: '@acme',
+    namespace: '@acme',
+    pathOrUrl: 'https://docs.example.com/order-table/accessibility.md',
+    description: 'Order table accessibility'
+  })
+];
+
+describe('setCustomDocs', () => {
+  it('should replace entries in place', () => {
+    const entries = setCustomDocs(ENTRIES);
+
+    expect(entries).toBe(CUSTOM_DOCS);
+    expect(setCustomDocs([])).toHaveLength(0);
+  });
+});
+
+describe('findCustomDoc', () => {
+  it.each([
+    { description: 'display name', value: '@acme/ProductCard', expected: '/srv/acme/ProductCard.md' },
+    { description: 'name', value: '@acme/product-card', expected: '/srv/acme/ProductCard.md' },
+    { description: 'label', value: '@acme/OrderTable - Accessibility', expected: 'https://docs.example.com/order-table/accessibility.md' },
+    { description: 'other namespace', value: '@other/ProductCard', expected: undefined },
+    { description: 'missing name', value: '@acme/', expected: undefined },
+    { description: 'path', value: 'documentation/ProductCard.md', expected: undefined }
+  ])('should find entries, $description', ({ value, expected }) => {
+    expect(findCustomDoc(value, ENTRIES)?.pathOrUrl).toBe(expected);
+  });
+});
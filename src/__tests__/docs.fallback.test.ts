@@ -0,0 +1,77 @@
+import { createDocEntry } from '../docs.catalog';
+import { getDocSources, getDocsFallbackUrl } from '../docs.fallback';
+import { OPTIONS } from '../options';
+
+const FALLBACK_OPTIONS = { ...OPTIONS, docsFallbackUrl: 'https://mirror.example.com/raw/' };
+
+const ENTRIES = [
+  createDocEntry({
+    displayName: 'Table',
+    category: 'component',
+    section: 'examples',
+    packageName: '@patternfly/react-table',
+    pathOrUrl: 'https://raw.githubusercontent.com/patternfly/patternfly-react/main/Table.md',
+    description: 'Table examples',
+    fallbacks: ['/documentation/components/data-display/table.md']
+  })
+];
+
+describe('getDocsFallbackUrl', () => {
+  it.each([
+    {
+      description: 'raw URL',
+      url: 'https://raw.githubusercontent.com/patternfly/patternfly-react/main/Table.md',
+      options: FALLBACK_OPTIONS,
+      expected: 'https://mirror.example.com/raw/patternfly/patternfly-react/main/Table.md'
+    },
+    {
+      description: 'other URL',
+      url: 'https://docs.example.com/Table.md',
+      options: FALLBACK_OPTIONS,
+      expected: undefined
+    },
+    {
+      description: 'no fallback URL',
+      url: 'https://raw.githubusercontent.com/patternfly/patternfly-react/main/Table.md',
+      options: OPTIONS,
+      expected: undefined
+    }
+  ])('should return a fallback mirror URL, $description', ({ url, options, expected }) => {
+    expect(getDocsFallbackUrl(url, options)).toBe(expected);
+  });
+});
+
+describe('getDocSources', () => {
+  it.each([
+    {
+      description: 'catalog entry',
+      input: 'https://raw.githubusercontent.com/patternfly/patternfly-react/main/Table.md',
+      source: 'https://raw.githubusercontent.com/patternfly/patternfly-react/main/Table.md',
+      options: OPTIONS,
+      expected: [
+        'https://raw.githubusercontent.com/patternfly/patternfly-react/main/Table.md',
+        '/documentation/components/data-display/table.md'
+      ]
+    },
+    {
+      description: 'versioned catalog entry with a fallback URL',
+      input: 'https://raw.githubusercontent.com/patternfly/patternfly-react/main/Table.md',
+      source: 'https://raw.githubusercontent.com/patternfly/patternfly-react/v5.4.0/Table.md',
+      options: FALLBACK_OPTIONS,
+      expected: [
+        'https://raw.githubusercontent.com/patternfly/patternfly-react/v5.4.0/Table.md',
+        'https://mirror.example.com/raw/patternfly/patternfly-react/v5.4.0/Table.md',
+        '/documentation/components/data-display/table.md'
+      ]
+    },
+    {
+      description: 'unknown path',
+      input: 'documentation/guidelines/README.md',
+      source: 'documentation/guidelines/README.md',
+      options: FALLBACK_OPTIONS,
+      expected: ['documentation/guidelines/README.md']
+    }
+  ])('should return ordered sources, $description', ({ input, source, options, expected }) => {
+    expect(getDocSources(input, source, options, ENTRIES)).toEqual(expected);
+  });
+});
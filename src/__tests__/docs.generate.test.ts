@@ -0,0 +1,172 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import {
+  getSourceRefFunction,
+  getSourceRepoFunction,
+  listSourceDocsFunction,
+  normalizeCatalogVersion,
+  parseFrontmatter,
+  runGenerateCatalogFunction
+} from '../docs.generate';
+import { OPTIONS } from '../options';
+
+jest.mock('../server.caching', () => ({
+  memo: jest.fn(fn => fn)
+}));
+
+const REACT_FILES = {
+  '.git/config': '[core]\n\tbare = false\n[remote "origin"]\n\turl = git@github.com:patternfly/patternfly-react.git\n',
+  'package.json': JSON.stringify({ name: 'patternfly-react' }),
+  'packages/react-core/package.json': JSON.stringify({ name: '@patternfly/react-core' }),
+  'packages/react-core/src/components/AboutModal/examples/AboutModal.md':
+    '---\nid: About modal\nsection: components\npropComponents: [\'AboutModal\']\n---\n\nAn about modal displays product information.',
+  'packages/react-core/src/layouts/Flex/examples/Flex.md':
+    '---\nid: Flex\nsection: layouts\nclassification: "LLM should read this page when assisting with flex layouts"\n---\n',
+  'packages/react-core/src/components/AboutModal/examples/README.md': '# Examples\n',
+  'packages/react-table/package.json': JSON.stringify({ name: '@patternfly/react-table' }),
+  'packages/react-table/src/components/Table/examples/Table.md': '---\nid: Table\nsection: components\n---\n\nTables display data.',
+  'packages/react-table/node_modules/dep/examples/Dep.md': '---\nid: Dep\nsection: components\n---\n'
+};
+
+const ORG_FILES = {
+  'packages/documentation-site/patternfly-docs/content/design-guidelines/components/about-modal/about-modal.md':
+    '---\nid: About modal\nsection: components\n---\n\nUse an about modal for product information.',
+  'packages/documentation-site/patternfly-docs/content/accessibility/about-modal/about-modal.md':
+    '---\nid: About modal\nsection: components\nsource: accessibility\n---\n\nAbout modal accessibility.',
+  'packages/documentation-site/patternfly-docs/content/design-guidelines/styles/colors/colors.md':
+    '---\nid: Colors\nsection: foundations-and-styles\ndescription: Choosing colors from the PatternFly palette\n---\n'
+};
+
+const writeFiles = async (dir: string, files: Record<string, string>) => {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(dir, path)), { recursive: true });
+    await writeFile(join(dir, path), content);
+  }
+};
+
+describe('parseFrontmatter', () => {
+  it('should parse frontmatter values, skipping lists', () => {
+    expect(parseFrontmatter('---\nid: About modal\nsection: "components"\npropComponents: [\'AboutModal\']\n---\n# About modal'))
+      .toEqual({ id: 'About modal', section: 'components' });
+  });
+});
+
+describe('normalizeCatalogVersion', () => {
+  it.each([
+    { description: 'major wildcard', version: '6.x', expected: '6.0.0' },
+    { description: 'major', version: '6', expected: '6.0.0' },
+    { description: 'prefixed minor', version: 'v6.4', expected: '6.4.0' },
+    { description: 'full', version: '6.4.1', expected: '6.4.1' }
+  ])('should normalize versions, $description', ({ version, expected }) => {
+    expect(normalizeCatalogVersion(version)).toBe(expected);
+  });
+
+  it.each([
+    { description: 'word', version: 'latest' },
+    { description: 'wildcard major', version: 'x.0' },
+    { description: 'too many parts', version: '6.0.0.1' }
+  ])('should reject invalid versions, $description', ({ version }) => {
+    expect(() => normalizeCatalogVersion(version)).toThrow(`Invalid value for --version: expected a version like 6.x or 6.0.0, received "${version}"`);
+  });
+});
+
+describe('runGenerateCatalogFunction', () => {
+  let dir: string;
+  let consoleInfoSpy: jest.SpyInstance;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-generate-'));
+
+    await writeFiles(join(dir, 'patternfly-react'), REACT_FILES);
+    await writeFiles(join(dir, 'pf-org'), ORG_FILES);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    consoleInfoSpy = jest.spyOn(console, 'info').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleInfoSpy.mockRestore();
+  });
+
+  it('should list documentation pages, skipping dependencies', async () => {
+    expect(await listSourceDocsFunction(join(dir, 'patternfly-react'))).toEqual([
+      'packages/react-core/src/components/AboutModal/examples/AboutModal.md',
+      'packages/react-core/src/components/AboutModal/examples/README.md',
+      'packages/react-core/src/layouts/Flex/examples/Flex.md',
+      'packages/react-table/src/components/Table/examples/Table.md'
+    ]);
+  });
+
+  it.each([
+    { description: 'origin remote', source: 'patternfly-react', expected: 'patternfly/patternfly-react' },
+    { description: 'directory name', source: 'pf-org', expected: 'patternfly/pf-org' }
+  ])('should return the source repository, $description', async ({ source, expected }) => {
+    expect(await getSourceRepoFunction(join(dir, source))).toBe(expected);
+  });
+
+  it.each([
+    { description: 'branch', files: { '.git/HEAD': 'ref: refs/heads/v6\n' }, expected: 'refs/heads/v6' },
+    {
+      description: 'detached, packed annotated tag',
+      files: {
+        '.git/HEAD': `${'a'.repeat(40)}\n`,
+        '.git/packed-refs': `# pack-refs with: peeled fully-peeled sorted\n${'b'.repeat(40)} refs/tags/v6.0.0\n^${'a'.repeat(40)}\n`
+      },
+      expected: 'refs/tags/v6.0.0'
+    },
+    {
+      description: 'detached, loose tag',
+      files: { '.git/HEAD': `${'a'.repeat(40)}\n`, '.git/refs/tags/v6.1.0': `${'a'.repeat(40)}\n` },
+      expected: 'refs/tags/v6.1.0'
+    },
+    { description: 'detached, untagged', files: { '.git/HEAD': `${'c'.repeat(40)}\n` }, expected: 'c'.repeat(40) },
+    { description: 'no git metadata', files: {}, expected: 'refs/heads/main' }
+  ])('should return the source ref, $description', async ({ description, files, expected }) => {
+    const source = join(dir, 'refs', description.replace(/\W+/g, '-'));
+
+    await writeFiles(source, files);
+
+    expect(await getSourceRefFunction(source)).toBe(expected);
+  });
+
+  it('should write an llms.txt per package', async () => {
+    const out = join(dir, 'llms-files');
+    const results = await runGenerateCatalogFunction({
+      ...OPTIONS,
+      sources: [join(dir, 'patternfly-react'), join(dir, 'pf-org')],
+      catalogVersion: '6.x',
+      out
+    });
+
+    expect(results.map(({ path, ...result }) => ({ ...result, path: path.replace(dir, '') }))).toMatchSnapshot('results');
+    expect(await readFile(join(out, 'react-core', '6.0.0', 'llms.txt'), 'utf-8')).toMatchSnapshot('react-core');
+    expect(await readFile(join(out, 'patternfly', '6.0.0', 'llms.txt'), 'utf-8')).toMatchSnapshot('patternfly');
+  });
+
+  it('should not replace existing llms.txt files without force', async () => {
+    const out = join(dir, 'llms-files-existing');
+    const options = { ...OPTIONS, sources: [join(dir, 'patternfly-react')], catalogVersion: '6.x', out };
+
+    await writeFiles(out, { 'react-core/6.0.0/llms.txt': '# Curated\n' });
+
+    await expect(runGenerateCatalogFunction(options)).rejects.toThrow('Refusing to replace existing catalogs');
+    expect(await readFile(join(out, 'react-core', '6.0.0', 'llms.txt'), 'utf-8')).toBe('# Curated\n');
+    await expect(readFile(join(out, 'react-table', '6.0.0', 'llms.txt'), 'utf-8')).rejects.toThrow();
+
+    await runGenerateCatalogFunction({ ...options, force: true });
+    expect(await readFile(join(out, 'react-core', '6.0.0', 'llms.txt'), 'utf-8')).toContain('# @patternfly/react-core 6.0.0');
+  });
+
+  it.each([
+    { description: 'missing source', options: { catalogVersion: '6.x' }, error: 'Missing required option for generate-catalog: --source <dir>' },
+    { description: 'missing version', options: { sources: ['/pf'] }, error: 'Missing required option for generate-catalog: --version <version>' }
+  ])('should reject missing options, $description', async ({ options, error }) => {
+    await expect(runGenerateCatalogFunction({ ...OPTIONS, ...options })).rejects.toThrow(error);
+  });
+});
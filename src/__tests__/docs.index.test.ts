@@ -0,0 +1,130 @@
+import { createDocsIndex, indexLocalDocsFunction, splitPassages, stem, toAnchor } from '../docs.index';
+import { OPTIONS, type GlobalOptions } from '../options';
+
+describe('stem', () => {
+  it.each([
+    { value: 'styling', expected: 'styl' },
+    { value: 'styled', expected: 'styl' },
+    { value: 'styles', expected: 'styl' },
+    { value: 'dependencies', expected: 'dependency' },
+    { value: 'classes', expected: 'class' },
+    { value: 'running', expected: 'run' },
+    { value: 'focus', expected: 'focus' },
+    { value: 'css', expected: 'css' }
+  ])('should stem $value', ({ value, expected }) => {
+    expect(stem(value)).toBe(expected);
+  });
+});
+
+describe('toAnchor', () => {
+  it.each([
+    { value: 'Quick Start!', expected: 'quick-start' },
+    { value: 'Step 3: Install dependencies', expected: 'step-3-install-dependencies' },
+    { value: '❌ Don\'t use inline styles', expected: '-dont-use-inline-styles' }
+  ])('should create anchors, $value', ({ value, expected }) => {
+    expect(toAnchor(value)).toBe(expected);
+  });
+});
+
+describe('splitPassages', () => {
+  it('should split markdown by heading, ignoring fenced code', () => {
+    expect(splitPassages('lorem.md', [
+      'Intro text',
+      '# Title',
+      'Title text',
+      '## Usage',
+      '```bash',
+      '# not a heading',
+      '```',
+      '### Empty'
+    ].join('\n'))).toMatchSnapshot();
+  });
+});
+
+describe('createDocsIndex', () => {
+  const createIndex = () => {
+    const index = createDocsIndex();
+
+    index.add('styling.md', [
+      '# Styling',
+      'Use PatternFly design tokens for colors and spacing.',
+      '## Inline styles',
+      'Avoid inline styles, use utility classes instead.'
+    ].join('\n'));
+    index.add('https://example.com/modal.md', [
+      '# Modal',
+      'Modals trap focus while open.',
+      '## Accessibility',
+      'Return focus to the toggle when the modal closes. Style the modal with tokens.'
+    ].join('\n'));
+
+    return index;
+  };
+
+  it.each([
+    { description: 'heading match', query: 'accessibility' },
+    { description: 'stemmed match', query: 'styled' },
+    { description: 'multiple terms', query: 'focus tokens' },
+    { description: 'no match', query: 'lorem ipsum' },
+    { description: 'only stop words', query: 'the and' }
+  ])('should search passages, $description', ({ query }) => {
+    expect(createIndex().search(query)).toMatchSnapshot();
+  });
+
+  it('should limit results', () => {
+    expect(createIndex().search('tokens focus styles', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('should replace and remove documents', () => {
+    const index = createIndex();
+
+    index.add('styling.md', '# Layout\nUse flex and grid layouts.');
+
+    expect(index.search('inline')).toHaveLength(0);
+    expect(index.search('grid')[0]?.source).toBe('styling.md');
+
+    index.remove('styling.md');
+
+    expect(index.has('styling.md')).toBe(false);
+    expect(index.size).toBe(1);
+    expect(index.search('grid')).toHaveLength(0);
+    expect(index.search('tokens').map(({ source }) => source)).toEqual(['https://example.com/modal.md']);
+  });
+
+  it('should evict the least recently indexed documents, keeping pinned documents', () => {
+    const index = createDocsIndex(undefined, 2);
+
+    index.add('local.md', '# Local\nPinned content.', { isPinned: true });
+    index.add('https://example.com/first.md', '# First\nFirst page.');
+    index.add('https://example.com/second.md', '# Second\nSecond page.');
+    index.add('https://example.com/first.md', '# First\nFirst page, updated.');
+    index.add('https://example.com/third.md', '# Third\nThird page.');
+
+    expect(index.size).toBe(3);
+    expect(index.has('local.md')).toBe(true);
+    expect(index.has('https://example.com/second.md')).toBe(false);
+    expect(index.search('second')).toHaveLength(0);
+    expect(index.search('page').map(({ source }) => source).sort()).toEqual([
+      'https://example.com/first.md',
+      'https://example.com/third.md'
+    ]);
+  });
+});
+
+describe('indexLocalDocsFunction', () => {
+  it('should index local markdown files', async () => {
+    const index = createDocsIndex();
+    const count = await indexLocalDocsFunction(index, { ...OPTIONS, docsPath: 'documentation' } as GlobalOptions);
+    const [result] = index.search('install dependencies', { limit: 1 });
+
+    expect(count).toBeGreaterThan(0);
+    expect(index.size).toBe(count);
+    expect(result?.source).toMatch(/^documentation\//);
+  });
+
+  it('should handle a missing directory', async () => {
+    const index = createDocsIndex();
+
+    await expect(indexLocalDocsFunction(index, { ...OPTIONS, docsPath: 'lorem-ipsum' } as GlobalOptions)).resolves.toBe(0);
+  });
+});
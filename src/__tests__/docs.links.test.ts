@@ -0,0 +1,168 @@
+import { join } from 'node:path';
+import {
+  checkDocLinksFunction,
+  getDocLinksFunction,
+  parseLlmsTxtLinks,
+  renderLinkCheckReport,
+  runCheckLinksFunction,
+  type DocLinkResult
+} from '../docs.links';
+import { OPTIONS, type GlobalOptions } from '../options';
+import { assertUrlAllowedFunction } from '../server.urlPolicy';
+
+jest.mock('../server.urlPolicy');
+jest.mock('../server.caching', () => ({
+  memo: jest.fn(fn => fn)
+}));
+
+const mockAssertUrlAllowed = assertUrlAllowedFunction as jest.MockedFunction<typeof assertUrlAllowedFunction>;
+
+const RESULTS: DocLinkResult[] = [
+  { label: 'Alert', pathOrUrl: 'https://example.com/alert.md', listedIn: 'catalog', status: 'ok', httpStatus: 200 },
+  { label: 'Motion', pathOrUrl: '', listedIn: 'llms-files/patternfly/6.0.0/llms.txt:15', status: 'empty', error: 'empty link target' },
+  { label: 'Area', pathOrUrl: 'https://example.com/area.md', listedIn: 'catalog', status: 'broken', httpStatus: 404, error: '404 response' },
+  {
+    label: 'Develop',
+    pathOrUrl: 'https://example.com/develop.md',
+    listedIn: 'llms-files/patternfly/6.0.0/llms.txt:6',
+    status: 'redirected',
+    httpStatus: 301,
+    redirectedTo: 'https://example.com/get-started/develop.md'
+  },
+  {
+    label: 'Alert',
+    pathOrUrl: 'https://example.com/alert.md',
+    listedIn: 'catalog',
+    status: 'duplicate',
+    duplicateOf: 'catalog'
+  },
+  {
+    label: '[Typography(https://example.com/typography.md)',
+    pathOrUrl: '',
+    listedIn: 'llms-files/patternfly/6.0.0/llms.txt:16',
+    status: 'malformed',
+    error: 'expected a link, [title](url)'
+  }
+];
+
+describe('parseLlmsTxtLinks', () => {
+  it('should list malformed lines with their parse error', () => {
+    expect(parseLlmsTxtLinks('## Styles\n[Typography(https://example.com/typography.md)\n[Colors](https://example.com/colors.md)')).toEqual([
+      { label: '[Typography(https://example.com/typography.md)', url: '', line: 2, malformed: 'expected a link, [title](url)' },
+      { label: 'Colors', url: 'https://example.com/colors.md', line: 3 }
+    ]);
+  });
+
+  it('should parse links with line numbers, keeping empty links', () => {
+    expect(parseLlmsTxtLinks([
+      '# @patternfly/patternfly 6.0.0',
+      '',
+      '## Design Foundations',
+      '[Colors](https://example.com/colors.md): <classification>Colors</classification>',
+      '[Motion](): <classification></classification>',
+      '- [ Tokens ]( ./tokens.md )',
+      'See [inline](https://example.com/inline.md) links'
+    ].join('\n'))).toEqual([
+      { label: 'Colors', url: 'https://example.com/colors.md', line: 4 },
+      { label: 'Motion', url: '', line: 5 },
+      { label: 'Tokens', url: './tokens.md', line: 6 }
+    ]);
+  });
+});
+
+describe('getDocLinksFunction', () => {
+  it('should list catalog and llms-files links, with where they are listed', async () => {
+    const links = await getDocLinksFunction({ ...OPTIONS, contextPath: process.cwd(), llmsFilesPath: 'llms-files' } as GlobalOptions);
+
+    expect(links).toEqual(expect.arrayContaining([
+      { label: '@patternfly/AboutModal - Design Guidelines', pathOrUrl: expect.stringMatching(/^https:\/\//), listedIn: 'catalog' },
+      { label: 'Motion', pathOrUrl: '', listedIn: 'llms-files/patternfly/6.0.0/llms.txt:15' }
+    ]));
+  });
+});
+
+describe('checkDocLinksFunction', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  it('should check each target once, and report empty, broken, redirected and duplicate links', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string, { method }: { method: string }) => {
+      switch (url) {
+        case 'https://example.com/ok.md':
+          return { status: 200, headers: new Headers() };
+        case 'https://example.com/moved.md':
+          return { status: 301, headers: new Headers({ Location: '/new.md' }) };
+        case 'https://example.com/head.md':
+          return { status: (method === 'HEAD' && 405) || 200, headers: new Headers(), body: { cancel: jest.fn() } };
+        default:
+          return { status: 404, headers: new Headers() };
+      }
+    });
+    mockAssertUrlAllowed.mockImplementation(async url => {
+      if (url.includes('internal')) {
+        throw new Error('URL not allowed: internal.example.com is not in the allowlist, allow it with --allow-url');
+      }
+    });
+
+    const results = await checkDocLinksFunction([
+      { label: 'OK', pathOrUrl: 'https://example.com/ok.md', listedIn: 'catalog' },
+      { label: 'Moved', pathOrUrl: 'https://example.com/moved.md', listedIn: 'catalog' },
+      { label: 'Missing', pathOrUrl: 'https://example.com/missing.md', listedIn: 'llms.txt:3' },
+      { label: 'HEAD not supported', pathOrUrl: 'https://example.com/head.md', listedIn: 'llms.txt:4' },
+      { label: 'Internal', pathOrUrl: 'https://internal.example.com/a.md', listedIn: 'llms.txt:5' },
+      { label: 'Empty', pathOrUrl: '', listedIn: 'llms.txt:6' },
+      { label: '[Malformed(https://example.com/a.md)', pathOrUrl: '', listedIn: 'llms.txt:9', malformed: 'expected a link, [title](url)' },
+      { label: 'OK again', pathOrUrl: 'https://example.com/ok.md', listedIn: 'llms.txt:7' },
+      { label: 'OK duplicate', pathOrUrl: 'https://example.com/ok.md', listedIn: 'llms.txt:8' },
+      { label: 'Local', pathOrUrl: join(process.cwd(), 'README.md'), listedIn: 'catalog' },
+      { label: 'Local missing', pathOrUrl: join(process.cwd(), 'missing.md'), listedIn: 'catalog' }
+    ], OPTIONS);
+
+    expect(results.map(({ label, status, httpStatus, redirectedTo, duplicateOf, error }) =>
+      ({ label, status, httpStatus, redirectedTo, duplicateOf, error }))).toMatchSnapshot();
+    expect((global.fetch as jest.Mock).mock.calls.filter(([url]) => url === 'https://example.com/ok.md')).toHaveLength(1);
+  });
+});
+
+describe('renderLinkCheckReport', () => {
+  it.each([
+    { description: 'text', format: 'text' as const },
+    { description: 'json', format: 'json' as const }
+  ])('should render a report, $description', ({ format }) => {
+    expect(renderLinkCheckReport(RESULTS, format)).toMatchSnapshot();
+  });
+});
+
+describe('runCheckLinksFunction', () => {
+  let consoleLogSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = jest.fn();
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    process.exitCode = undefined;
+  });
+
+  it('should reject invalid formats', async () => {
+    await expect(runCheckLinksFunction({ ...OPTIONS, format: 'xml' }))
+      .rejects.toThrow('Invalid value for --format: expected text or json, received "xml"');
+  });
+
+  it.each([
+    { description: 'ok', status: 200, exitCode: undefined },
+    { description: 'broken', status: 404, exitCode: 1 }
+  ])('should check URLs passed on the command line, $description', async ({ status, exitCode }) => {
+    (global.fetch as jest.Mock).mockResolvedValue({ status, headers: new Headers() });
+
+    await runCheckLinksFunction({ ...OPTIONS, urls: ['https://example.com/a.md'] });
+
+    expect(process.exitCode).toBe(exitCode);
+    expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringMatching(/^(❌ broken \[https:\/\/example\.com\/a\.md\]|Checked 1 links)/));
+  });
+});
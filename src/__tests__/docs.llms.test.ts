@@ -0,0 +1,86 @@
+import { readFile } from 'node:fs/promises';
+import { isLlmsTxtPath, parseLlmsTxt, renderLlmsTxtDocument, selectLlmsTxt } from '../docs.llms';
+
+const LLMS_TXT = [
+  '# @patternfly/react-core 6.0.0',
+  '',
+  '> PatternFly React components',
+  '',
+  '## Components',
+  '[@patternfly/AboutModal - Examples](https://example.com/AboutModal.md)',
+  '- [@patternfly/Alert - Examples](https://example.com/Alert.md): <classification>Alert examples</classification>',
+  '[@patternfly/Button - Examples](https://example.com/Button.md): Button examples',
+  '',
+  '## Design Foundations',
+  '[Colors](https://example.com/colors.md): <classification>Choosing colors</classification>',
+  '[Motion](): <classification></classification>',
+  '[Typography(https://example.com/typography.md)',
+  '[Icons](https://example.com/icons.md): <classification>Choosing icons',
+  '[](https://example.com/untitled.md)',
+  'See [inline](https://example.com/inline.md) links',
+  '',
+  '## Tokens',
+  '[About tokens]()',
+  '',
+  '# Another title'
+].join('\n');
+
+describe('isLlmsTxtPath', () => {
+  it.each([
+    { description: 'relative path', pathOrUrl: 'react-core/6.0.0/llms.txt', expected: true },
+    { description: 'absolute path', pathOrUrl: '/llms-files/patternfly/6.0.0/llms.txt', expected: true },
+    { description: 'URL with a query', pathOrUrl: 'https://docs.example.com/llms.txt?v=1', expected: true },
+    { description: 'markdown', pathOrUrl: 'https://docs.example.com/llms.txt.md', expected: false },
+    { description: 'other text file', pathOrUrl: 'documentation/guidelines/notes.txt', expected: false }
+  ])('should check for llms.txt files, $description', ({ pathOrUrl, expected }) => {
+    expect(isLlmsTxtPath(pathOrUrl)).toBe(expected);
+  });
+});
+
+describe('parseLlmsTxt', () => {
+  it('should parse a typed tree, and report issues', () => {
+    expect(parseLlmsTxt(LLMS_TXT)).toMatchSnapshot();
+  });
+
+  it('should parse a title without a version, and links before the first section', () => {
+    const { title, packageName, version, sections } = parseLlmsTxt('# Acme docs\n[Intro](./intro.md)\n');
+
+    expect({ title, packageName, version, sections }).toEqual({
+      title: 'Acme docs',
+      packageName: 'Acme docs',
+      version: undefined,
+      sections: [{ title: '', slug: '', line: 2, entries: [{ title: 'Intro', url: './intro.md', classification: '', line: 2 }] }]
+    });
+  });
+
+  it.each([
+    { description: 'patternfly', path: 'llms-files/patternfly/6.0.0/llms.txt' },
+    { description: 'react-core', path: 'llms-files/react-core/6.0.0/llms.txt' }
+  ])('should parse bundled llms-files without malformed lines, $description', async ({ path }) => {
+    const { sections, issues } = parseLlmsTxt(await readFile(path, 'utf-8'));
+
+    expect(sections.length).toBeGreaterThan(0);
+    expect(issues.filter(({ type }) => type === 'malformed')).toEqual([]);
+  });
+});
+
+describe('renderLlmsTxtDocument', () => {
+  it('should render the document, skipping links without a target', () => {
+    expect(renderLlmsTxtDocument(parseLlmsTxt(LLMS_TXT))).toMatchSnapshot();
+  });
+});
+
+describe('selectLlmsTxt', () => {
+  it.each([
+    { description: 'section title', selection: { sections: ['Design Foundations'] } },
+    { description: 'section slug', selection: { sections: ['#components'] } },
+    { description: 'link title', selection: { sections: ['about-modal', 'Button'] } },
+    { description: 'section and link title', selection: { sections: ['Design Foundations', 'Alert'] } },
+    { description: 'outline', selection: { outline: true } },
+    { description: 'section outline', selection: { sections: ['components'], outline: true } },
+    { description: 'no match', selection: { sections: ['Charts'] } },
+    { description: 'empty section', selection: { sections: ['Tokens'] } }
+  ])('should select sections, $description', ({ selection }) => {
+    expect(selectLlmsTxt(parseLlmsTxt(LLMS_TXT), selection)).toMatchSnapshot();
+  });
+});
@@ -1,4 +1,8 @@
 import * as docsLocal from '../docs.local';
+import { CHART_DOCS } from '../docs.chart';
+import { COMPONENT_DOCS } from '../docs.component';
+import { LAYOUT_DOCS } from '../docs.layout';
+import { OPTIONS } from '../options';
 
 describe('docsLocal', () => {
   it('should return specific properties', () => {
@@ -6,3 +10,23 @@ describe('docsLocal', () => {
   });
 });
 
+describe('setLocalDocsPath', () => {
+  afterEach(() => {
+    docsLocal.setLocalDocsPath(OPTIONS.docsPath);
+  });
+
+  it('should point local guides and fallback copies at the docs directory', () => {
+    docsLocal.setLocalDocsPath('/custom/docs');
+
+    expect(docsLocal.LOCAL_DOCS.map(({ pathOrUrl }) => pathOrUrl)).toEqual(expect.arrayContaining(['/custom/docs/setup/README.md']));
+    expect(docsLocal.LOCAL_DOCS.every(({ pathOrUrl }) => pathOrUrl.startsWith('/custom/docs/'))).toBe(true);
+    expect([...LAYOUT_DOCS, ...CHART_DOCS, ...COMPONENT_DOCS].flatMap(({ fallbacks = [] }) => fallbacks))
+      .toEqual(expect.arrayContaining([
+        '/custom/docs/components/layout/README.md',
+        '/custom/docs/charts/README.md',
+        '/custom/docs/components/data-display/table.md'
+      ]));
+    expect([...LAYOUT_DOCS, ...CHART_DOCS, ...COMPONENT_DOCS].flatMap(({ fallbacks = [] }) => fallbacks)
+      .every(fallback => fallback.startsWith('/custom/docs/'))).toBe(true);
+  });
+});
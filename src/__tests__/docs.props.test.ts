@@ -0,0 +1,216 @@
+import {
+  getComponentPropsFunction,
+  parseInterfaceProps,
+  parseJsDoc,
+  parsePropComponents,
+  parsePropDefaults,
+  splitTopLevel
+} from '../docs.props';
+import { loadDocFunction } from '../server.getResources';
+import { OPTIONS, type GlobalOptions } from '../options';
+
+// Mock dependencies
+jest.mock('../server.getResources', () => ({
+  ...jest.requireActual('../server.getResources'),
+  loadDocFunction: jest.fn()
+}));
+
+const mockLoadDoc = loadDocFunction as jest.MockedFunction<typeof loadDocFunction>;
+
+const EXAMPLES_MD = `---
+id: Button
+section: components
+cssPrefix: pf-v6-c-button
+propComponents: ['Button', 'BadgeCountObject', 'LoremIpsum']
+---
+
+## Examples
+`;
+
+const BUTTON_TSX = `import * as React from 'react';
+
+export enum ButtonVariant {
+  primary = 'primary',
+  secondary = 'secondary'
+}
+
+export interface BadgeCountObject {
+  /** Adds styling to the badge to indicate it has been read */
+  isRead?: boolean;
+  /** Count to display in the badge */
+  count?: number;
+}
+
+export interface ButtonProps extends Omit<React.HTMLProps<HTMLButtonElement>, 'ref' | 'size'>, OUIAProps {
+  /** Content rendered inside the button */
+  children?: React.ReactNode;
+  /** Adds button variant styles */
+  variant?: 'primary' | 'secondary' | 'tertiary' | 'danger';
+  /**
+   * Sets the base component to render.
+   * Defaults to button
+   */
+  component?: React.ElementType<any> | React.ComponentType<any>;
+  /** @deprecated Use isInline instead. Adds inline styling */
+  isSmall?: boolean;
+  /** Callback for clicks, e.g. { a; b } */
+  onClick?: (event: React.MouseEvent<HTMLButtonElement>, value: { id: string; }) => void;
+  /** Sets the button type
+   * @default 'button'
+   */
+  type?: 'button' | 'submit' | 'reset';
+  // Not documented
+  innerRef: React.Ref<any>;
+  getLabel?(id: string): string;
+}
+
+const ButtonBase: React.FunctionComponent<ButtonProps> = ({
+  children = null,
+  variant = ButtonVariant.primary,
+  component = 'button',
+  onClick = () => {},
+  style = { color: 'red', margin: 0 },
+  ...props
+}: ButtonProps) => <button {...props}>{children}</button>;
+`;
+
+const BUTTON_DTS = `export interface ButtonProps extends Omit<React.HTMLProps<HTMLButtonElement>, 'ref' | 'size'>, OUIAProps {
+    /** Content rendered inside the button */
+    children?: React.ReactNode;
+    /** Adds button variant styles */
+    variant?: 'primary' | 'secondary' | 'tertiary' | 'danger' | 'plain';
+    /** Sets the button type
+     * @default 'button'
+     */
+    type?: 'button' | 'submit' | 'reset';
+}
+export declare const Button: React.ForwardRefExoticComponent<ButtonProps>;
+`;
+
+const CLASS_TSX = `export interface TableProps {
+  /** Adds an accessible name */
+  'aria-label'?: string;
+  /** Table variant */
+  variant?: 'compact';
+}
+
+class Table extends React.Component<TableProps> {
+  static defaultProps: PickOptional<TableProps> = {
+    variant: 'compact',
+    'aria-label': undefined,
+    onSort: (a, b) => a < b
+  };
+}
+`;
+
+describe('splitTopLevel', () => {
+  it('should split on top-level separators with docs', () => {
+    expect(splitTopLevel('/** A */ a: { b: string; c: number }; b: () => void; /* skip */ c: \'x;y\'', ';')).toMatchSnapshot();
+  });
+});
+
+describe('parseJsDoc', () => {
+  it.each([
+    { description: 'description', comment: '/** Adds styling */' },
+    { description: 'multiline with tags', comment: '/**\n * Sets the type\n * of the button\n * @default \'button\'\n * @beta\n */' },
+    { description: 'deprecated tag', comment: '/** @deprecated Use isInline instead */' },
+    { description: 'deprecated description', comment: '/** Deprecated, use variant instead */' },
+    { description: 'empty', comment: '' }
+  ])('should parse, $description', ({ comment }) => {
+    expect(parseJsDoc(comment)).toMatchSnapshot();
+  });
+});
+
+describe('parseInterfaceProps', () => {
+  it.each([
+    { description: 'component props', source: BUTTON_TSX, interfaceName: 'ButtonProps' },
+    { description: 'object interface', source: BUTTON_TSX, interfaceName: 'BadgeCountObject' },
+    { description: 'quoted names', source: CLASS_TSX, interfaceName: 'TableProps' },
+    { description: 'missing interface', source: BUTTON_TSX, interfaceName: 'LoremIpsumProps' },
+    { description: 'invalid name', source: BUTTON_TSX, interfaceName: 'ButtonProps|.*' }
+  ])('should parse props, $description', ({ source, interfaceName }) => {
+    expect(parseInterfaceProps(source, interfaceName)).toMatchSnapshot();
+  });
+});
+
+describe('parsePropDefaults', () => {
+  it.each([
+    { description: 'destructured parameters', source: BUTTON_TSX, interfaceName: 'ButtonProps' },
+    { description: 'class defaultProps', source: CLASS_TSX, interfaceName: 'TableProps' },
+    { description: 'no defaults', source: BUTTON_TSX, interfaceName: 'BadgeCountObject' },
+    { description: 'invalid name', source: BUTTON_TSX, interfaceName: '(ButtonProps' }
+  ])('should parse defaults, $description', ({ source, interfaceName }) => {
+    expect(parsePropDefaults(source, interfaceName)).toMatchSnapshot();
+  });
+});
+
+describe('parsePropComponents', () => {
+  it.each([
+    { description: 'inline list', content: EXAMPLES_MD },
+    { description: 'multiline list', content: '---\nid: Dropdown\npropComponents:\n  [\n    "Dropdown",\n    "DropdownItem"\n  ]\n---\n' },
+    { description: 'no frontmatter', content: '# Button' },
+    { description: 'invalid names', content: '---\nid: Button\npropComponents: [\'Button\', \'Button|.*\', \'(Button\']\n---\n' }
+  ])('should parse, $description', ({ content }) => {
+    expect(parsePropComponents(content)).toMatchSnapshot();
+  });
+});
+
+describe('getComponentPropsFunction', () => {
+  const options = { ...OPTIONS, contextPath: '/lorem' } as GlobalOptions;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should load props from examples and sources', async () => {
+    mockLoadDoc.mockImplementation(async pathOrUrl => {
+      if (pathOrUrl.endsWith('/examples/Button.md')) {
+        return EXAMPLES_MD;
+      }
+
+      if (pathOrUrl.endsWith('/Button/Button.tsx')) {
+        return BUTTON_TSX;
+      }
+
+      throw new Error(`Not found: ${pathOrUrl}`);
+    });
+
+    const result = await getComponentPropsFunction('button', options);
+
+    expect(mockLoadDoc.mock.calls.map(([pathOrUrl]) => pathOrUrl)).toMatchSnapshot('loaded');
+    expect(result).toMatchSnapshot('result');
+  });
+
+  it('should read types from installed declarations and defaults from the TSX source', async () => {
+    mockLoadDoc.mockImplementation(async pathOrUrl => {
+      if (pathOrUrl.endsWith('/examples/Button.md')) {
+        return EXAMPLES_MD.replace(/propComponents: .+/, 'propComponents: [\'Button\']');
+      }
+
+      if (pathOrUrl.endsWith('/Button/Button.d.ts')) {
+        return BUTTON_DTS;
+      }
+
+      if (pathOrUrl.endsWith('/Button/Button.tsx')) {
+        return BUTTON_TSX;
+      }
+
+      throw new Error(`Not found: ${pathOrUrl}`);
+    });
+
+    const { interfaces: [buttonProps] = [] } = await getComponentPropsFunction('button', options) || {};
+
+    expect(buttonProps?.source).toBe('/lorem/node_modules/@patternfly/react-core/dist/esm/components/Button/Button.d.ts');
+    expect(buttonProps?.defaultsSource).toMatch(/\/Button\/Button\.tsx$/);
+    expect(buttonProps?.props).toEqual([
+      expect.objectContaining({ name: 'children', type: 'React.ReactNode', defaultValue: 'null' }),
+      expect.objectContaining({ name: 'variant', type: '\'primary\' | \'secondary\' | \'tertiary\' | \'danger\' | \'plain\'', defaultValue: 'ButtonVariant.primary' }),
+      expect.objectContaining({ name: 'type', defaultValue: '\'button\'' })
+    ]);
+  });
+
+  it('should return undefined for an unknown component', async () => {
+    await expect(getComponentPropsFunction('LoremIpsum', options)).resolves.toBeUndefined();
+    expect(mockLoadDoc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+import { createDocEntry } from '../docs.catalog';
+import { COMPONENT_DOCS } from '../docs.component';
+import { setCustomDocs } from '../docs.custom';
+import { editDistance, getSearchEntriesFunction, parseLlmsTxtClassifications, searchDocs, tokenize } from '../docs.search';
+import { OPTIONS, type GlobalOptions } from '../options';
+
+const ENTRIES = [
+  createDocEntry({
+    displayName: 'Dropdown',
+    category: 'component',
+    section: 'examples',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: 'https://example.com/Dropdown.md',
+    description: 'React examples and props for the Dropdown component. A menu of actions or links opened from a toggle'
+  }),
+  createDocEntry({
+    displayName: 'Select',
+    category: 'component',
+    section: 'examples',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: 'https://example.com/Select.md',
+    description: 'React examples and props for the Select component. A dropdown list for choosing values, with typeahead'
+  }),
+  createDocEntry({
+    displayName: 'FormSelect',
+    category: 'component',
+    section: 'examples',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: 'https://example.com/FormSelect.md',
+    description: 'React examples and props for the FormSelect component'
+  }),
+  createDocEntry({
+    displayName: 'EmptyState',
+    category: 'component',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: 'https://example.com/empty-state.md',
+    description: 'Design guidelines for the EmptyState component. Shown when there is no data, e.g. an empty table'
+  })
+];
+
+describe('tokenize', () => {
+  it.each([
+    { description: 'camel case', value: 'EmptyState', expected: ['empty', 'state'] },
+    { description: 'stop words', value: 'dropdown with a typeahead', expected: ['dropdown', 'typeahead'] },
+    { description: 'punctuation', value: '@patternfly/react-core - Examples', expected: ['patternfly', 'react', 'core', 'examples'] }
+  ])('should tokenize, $description', ({ value, expected }) => {
+    expect(tokenize(value)).toEqual(expected);
+  });
+});
+
+describe('editDistance', () => {
+  it.each([
+    { first: 'accordion', second: 'accordion', expected: 0 },
+    { first: 'acordion', second: 'accordion', expected: 1 },
+    { first: 'tabel', second: 'table', expected: 2 },
+    { first: '', second: 'menu', expected: 4 }
+  ])('should measure $first to $second', ({ first, second, expected }) => {
+    expect(editDistance(first, second)).toBe(expected);
+  });
+});
+
+describe('searchDocs', () => {
+  it.each([
+    { description: 'exact name', query: 'select' },
+    { description: 'multiple words', query: 'dropdown with typeahead' },
+    { description: 'description match', query: 'empty table state' },
+    { description: 'misspelling', query: 'dropdwn' },
+    { description: 'no match', query: 'lorem ipsum' },
+    { description: 'only stop words', query: 'with the' }
+  ])('should rank entries, $description', ({ query }) => {
+    expect(searchDocs(ENTRIES, query).map(({ label, score }) => ({ label, score }))).toMatchSnapshot();
+  });
+
+  it('should limit results', () => {
+    expect(searchDocs(ENTRIES, 'react examples', { limit: 2 })).toHaveLength(2);
+  });
+
+  it('should return result properties', () => {
+    const [result] = searchDocs(ENTRIES, 'Select');
+
+    expect(result).toMatchSnapshot();
+  });
+});
+
+describe('parseLlmsTxtClassifications', () => {
+  it('should parse links and classifications', () => {
+    expect(parseLlmsTxtClassifications([
+      '# @patternfly/patternfly 6.0.0',
+      '## Design Foundations',
+      '[Colors](https://example.com/colors.md): <classification>LLM should read this page when choosing colors</classification>',
+      '[Motion](): <classification></classification>',
+      '[@patternfly/Button - Examples](https://example.com/Button.md)'
+    ].join('\n'))).toMatchSnapshot();
+  });
+});
+
+describe('getSearchEntriesFunction', () => {
+  it('should merge catalogs with llms.txt pages', async () => {
+    const entries = await getSearchEntriesFunction({ ...OPTIONS, llmsFilesPath: 'llms-files' } as GlobalOptions);
+    const colors = entries.find(({ displayName }) => displayName === 'Colors');
+
+    expect(entries.length).toBeGreaterThan(COMPONENT_DOCS.length);
+    expect(colors).toMatchSnapshot();
+    expect(new Set(entries.map(({ pathOrUrl }) => pathOrUrl)).size).toBe(entries.length);
+  });
+
+  it('should include custom documentation, searchable by namespace', async () => {
+    setCustomDocs([createDocEntry({
+      displayName: 'ProductCard',
+      category: 'guide',
+      section: 'guide',
+      packageName: '@acme',
+      namespace: '@acme',
+      pathOrUrl: '/srv/acme/ProductCard.md',
+      description: 'Cards for products in the storefront'
+    })]);
+
+    const entries = await getSearchEntriesFunction({ ...OPTIONS, llmsFilesPath: 'llms-files' } as GlobalOptions);
+
+    setCustomDocs([]);
+
+    expect(searchDocs(entries, 'acme product card', { limit: 1 })).toEqual([
+      expect.objectContaining({ label: '@acme/ProductCard', url: '/srv/acme/ProductCard.md' })
+    ]);
+  });
+});
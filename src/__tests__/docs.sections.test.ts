@@ -0,0 +1,100 @@
+import { isSectionMatch, parseHeadings, renderOutline, selectSections } from '../docs.sections';
+
+const CONTENT = `# Button
+
+Intro text.
+
+## Usage
+
+Use buttons for actions.
+
+### When to use
+
+Primary actions.
+
+\`\`\`md
+## Not a heading
+\`\`\`
+
+## Accessibility
+
+| Key | Action |
+| --- | --- |
+| Enter | Activates |
+
+## Examples
+
+### Basic
+
+Example one.
+
+## Usage
+
+Repeated heading.`;
+
+describe('parseHeadings', () => {
+  it('should parse the heading tree, ignoring fenced headings', () => {
+    expect(parseHeadings(CONTENT.split('\n'))).toMatchSnapshot();
+  });
+});
+
+describe('isSectionMatch', () => {
+  it.each([
+    { description: 'title', section: 'When to use', expected: true },
+    { description: 'title, case-insensitive', section: 'when TO use', expected: true },
+    { description: 'slug', section: 'when-to-use', expected: true },
+    { description: 'anchor', section: '#when-to-use', expected: true },
+    { description: 'other heading', section: 'Usage', expected: false }
+  ])('should match headings, $description', ({ section, expected }) => {
+    expect(isSectionMatch({ level: 3, title: 'When to use', slug: 'when-to-use', start: 0, end: 1 }, section)).toBe(expected);
+  });
+});
+
+describe('renderOutline', () => {
+  it('should indent headings relative to the highest level', () => {
+    expect(renderOutline(parseHeadings(CONTENT.split('\n')).filter(({ level }) => level > 1))).toMatchSnapshot();
+  });
+});
+
+describe('selectSections', () => {
+  it.each([
+    {
+      description: 'no selection',
+      selection: undefined
+    },
+    {
+      description: 'single section',
+      selection: { sections: ['Accessibility'] }
+    },
+    {
+      description: 'multiple sections in document order',
+      selection: { sections: ['examples', 'accessibility'] }
+    },
+    {
+      description: 'nested match returned once with its parent',
+      selection: { sections: ['Usage', 'When to use'] }
+    },
+    {
+      description: 'repeated heading slug',
+      selection: { sections: ['usage-1'] }
+    },
+    {
+      description: 'no matching sections',
+      selection: { sections: ['Props'] }
+    },
+    {
+      description: 'outline',
+      selection: { outline: true }
+    },
+    {
+      description: 'outline of sections',
+      selection: { sections: ['Examples'], outline: true }
+    }
+  ])('should select sections, $description', ({ selection }) => {
+    expect(selectSections(CONTENT, selection)).toMatchSnapshot();
+  });
+
+  it('should return an outline placeholder for content without headings', () => {
+    expect(selectSections('Plain text', { outline: true })).toBe('(no headings)');
+  });
+});
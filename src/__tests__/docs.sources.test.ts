@@ -0,0 +1,139 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  getDocSummary,
+  loadDocSourceFunction,
+  loadDocSourcesFunction,
+  resolveSourcePathOrUrl
+} from '../docs.sources';
+import { CUSTOM_DOCS, setCustomDocs } from '../docs.custom';
+import { OPTIONS, type GlobalOptions } from '../options';
+
+jest.mock('../server.caching', () => ({
+  memo: jest.fn(fn => fn)
+}));
+
+describe('resolveSourcePathOrUrl', () => {
+  it.each([
+    { description: 'URL', pathOrUrl: 'https://example.com/a.md', source: '/srv/llms.txt', expected: 'https://example.com/a.md' },
+    { description: 'relative to a URL', pathOrUrl: 'components/a.md', source: 'https://example.com/docs/llms.txt', expected: 'https://example.com/docs/components/a.md' },
+    { description: 'relative to a path', pathOrUrl: './components/a.md', source: '/srv/docs/llms.txt', expected: '/srv/docs/components/a.md' },
+    { description: 'absolute path', pathOrUrl: '/srv/other/a.md', source: '/srv/docs/llms.txt', expected: '/srv/other/a.md' }
+  ])('should resolve paths and URLs, $description', ({ pathOrUrl, source, expected }) => {
+    expect(resolveSourcePathOrUrl(pathOrUrl, source)).toBe(expected);
+  });
+});
+
+describe('getDocSummary', () => {
+  it.each([
+    { description: 'first paragraph', content: '# Product card\n\nCards for products.\n\nMore.', expected: 'Cards for products.' },
+    { description: 'frontmatter', content: '---\nid: card\n---\n# Card\n\n```tsx\ncode\n```\nUse cards.', expected: 'Use cards.' },
+    { description: 'heading only', content: '## Product card\n', expected: 'Product card' },
+    { description: 'empty', content: '', expected: '' }
+  ])('should return a summary, $description', ({ content, expected }) => {
+    expect(getDocSummary(content)).toBe(expected);
+  });
+});
+
+describe('loadDocSourceFunction', () => {
+  let dir: string;
+  let options: GlobalOptions;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-sources-'));
+    options = { ...OPTIONS, contextPath: dir };
+
+    await mkdir(join(dir, 'docs', 'components'), { recursive: true });
+    await mkdir(join(dir, 'docs', 'patterns', 'checkout'), { recursive: true });
+    await mkdir(join(dir, 'docs', '.drafts'), { recursive: true });
+    await writeFile(join(dir, 'docs', 'components', 'ProductCard.md'), '---\nid: product-card\n---\n# Product card\n\nCards for products.');
+    await writeFile(join(dir, 'docs', 'patterns', 'checkout', 'README.md'), '# Checkout\n');
+    await writeFile(join(dir, 'docs', 'components', 'data.json'), '{}');
+    await writeFile(join(dir, 'docs', '.drafts', 'Draft.md'), '# Draft');
+    await writeFile(join(dir, 'llms.txt'), [
+      '# Acme',
+      '## Components',
+      '[@acme/ProductCard](docs/components/ProductCard.md): <classification>Cards for products</classification>',
+      '[OrderTable](https://docs.example.com/order-table.md)'
+    ].join('\n'));
+    await writeFile(join(dir, 'catalog.json'), JSON.stringify([
+      {
+        displayName: 'ProductCard',
+        pathOrUrl: 'docs/components/ProductCard.md',
+        fallbacks: ['https://docs.example.com/product-card.md'],
+        description: 'Cards',
+        category: 'component',
+        section: 'examples'
+      },
+      { displayName: 'Checkout', pathOrUrl: 'https://docs.example.com/checkout.md' }
+    ]));
+    await writeFile(join(dir, 'invalid.json'), JSON.stringify([{ displayName: 'ProductCard', path: 'a.md' }]));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should list directory files', async () => {
+    const entries = await loadDocSourceFunction({ namespace: '@acme', type: 'directory', pathOrUrl: join(dir, 'docs') }, options);
+
+    expect(entries.map(({ pathOrUrl, ...entry }) => ({ ...entry, pathOrUrl: pathOrUrl.replace(dir, '<dir>') }))).toMatchSnapshot();
+  });
+
+  it('should list llms.txt links', async () => {
+    const entries = await loadDocSourceFunction({ namespace: '@acme', type: 'llms.txt', pathOrUrl: join(dir, 'llms.txt') }, options);
+
+    expect(entries.map(({ displayName, pathOrUrl, description }) => [displayName, pathOrUrl, description])).toEqual([
+      ['ProductCard', join(dir, 'docs', 'components', 'ProductCard.md'), 'Cards for products'],
+      ['OrderTable', 'https://docs.example.com/order-table.md', '']
+    ]);
+  });
+
+  it('should list catalog entries', async () => {
+    const entries = await loadDocSourceFunction({ namespace: '@acme', type: 'catalog', pathOrUrl: join(dir, 'catalog.json') }, options);
+
+    expect(entries).toEqual([
+      expect.objectContaining({
+        name: 'product-card',
+        displayName: 'ProductCard',
+        category: 'component',
+        section: 'examples',
+        namespace: '@acme',
+        pathOrUrl: join(dir, 'docs', 'components', 'ProductCard.md'),
+        fallbacks: ['https://docs.example.com/product-card.md']
+      }),
+      expect.objectContaining({
+        displayName: 'Checkout',
+        category: 'guide',
+        section: 'guide',
+        description: '',
+        pathOrUrl: 'https://docs.example.com/checkout.md'
+      })
+    ]);
+  });
+
+  it('should reject invalid catalogs', async () => {
+    await expect(loadDocSourceFunction({ namespace: '@acme', type: 'catalog', pathOrUrl: join(dir, 'invalid.json') }, options))
+      .rejects.toThrow('Invalid catalog: 0.pathOrUrl: Required, 0: Unrecognized key(s) in object: \'path\'');
+  });
+
+  it('should register entries from every source, skipping failed sources and duplicate labels', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    await loadDocSourcesFunction({
+      ...options,
+      docsSources: [
+        { namespace: '@acme', type: 'directory', pathOrUrl: join(dir, 'docs') },
+        { namespace: '@acme', type: 'llms.txt', pathOrUrl: join(dir, 'llms.txt') },
+        { namespace: '@acme', type: 'directory', pathOrUrl: join(dir, 'missing') }
+      ]
+    });
+
+    expect(CUSTOM_DOCS.map(({ displayName }) => displayName)).toEqual(['ProductCard', 'checkout', 'OrderTable']);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining(`Failed to load documentation source ${join(dir, 'missing')}`));
+
+    consoleErrorSpy.mockRestore();
+    setCustomDocs([]);
+  });
+});
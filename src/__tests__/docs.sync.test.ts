@@ -0,0 +1,122 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { COMPONENT_DOCS } from '../docs.component';
+import { getSyncUrlsFunction, runSyncFunction, syncMirrorFunction } from '../docs.sync';
+import { OPTIONS, type GlobalOptions } from '../options';
+import { requestAllowedUrlFunction } from '../server.getResources';
+import { readMirrorUrlFunction, toContentHash } from '../server.mirror';
+
+jest.mock('../server.getResources', () => ({
+  ...jest.requireActual('../server.getResources'),
+  requestAllowedUrlFunction: jest.fn()
+}));
+
+const mockRequestAllowedUrl = requestAllowedUrlFunction as jest.MockedFunction<typeof requestAllowedUrlFunction>;
+
+describe('getSyncUrlsFunction', () => {
+  it('should list every catalog and llms-files URL once', async () => {
+    const urls = await getSyncUrlsFunction({ ...OPTIONS, llmsFilesPath: 'llms-files' } as GlobalOptions);
+
+    expect(urls).toEqual(expect.arrayContaining([COMPONENT_DOCS[0]?.pathOrUrl]));
+    expect(urls.length).toBeGreaterThan(COMPONENT_DOCS.length);
+    expect(new Set(urls).size).toBe(urls.length);
+    expect(urls.every(url => OPTIONS.urlRegex.test(url))).toBe(true);
+  });
+
+  it('should rewrite URLs for a selected PatternFly version', async () => {
+    const urls = await getSyncUrlsFunction({ ...OPTIONS, llmsFilesPath: 'llms-files', pfVersion: '5.4.0' } as GlobalOptions);
+
+    expect(urls.some(url => url.includes('/patternfly-react/refs/heads/main/'))).toBe(false);
+    expect(urls.some(url => url.includes('/patternfly-react/refs/tags/v5.4.0/'))).toBe(true);
+    expect(urls.some(url => url.includes('/patternfly-org/refs/tags/'))).toBe(false);
+  });
+});
+
+describe('syncMirrorFunction', () => {
+  let outDir: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    outDir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-sync-'));
+  });
+
+  afterEach(async () => {
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it('should write content-addressed files and a manifest', async () => {
+    mockRequestAllowedUrl.mockImplementation(async url => `content of ${url}`);
+
+    const { manifest, synced, failed } = await syncMirrorFunction(outDir, ['https://example.com/b.md', 'https://example.com/a.md']);
+    const written = JSON.parse(await readFile(join(outDir, 'manifest.json'), 'utf-8'));
+
+    expect(synced).toHaveLength(2);
+    expect(failed).toHaveLength(0);
+    expect(written).toEqual(manifest);
+    expect(written.entries.map(({ url }: { url: string }) => url)).toEqual(['https://example.com/a.md', 'https://example.com/b.md']);
+    expect(written.entries[0]).toEqual({
+      url: 'https://example.com/a.md',
+      hash: toContentHash('content of https://example.com/a.md'),
+      fetchedAt: expect.any(String)
+    });
+    await expect(readMirrorUrlFunction('https://example.com/a.md', outDir)).resolves.toBe('content of https://example.com/a.md');
+  });
+
+  it('should report failures and keep previously mirrored entries', async () => {
+    mockRequestAllowedUrl.mockResolvedValueOnce('first sync');
+    await syncMirrorFunction(outDir, ['https://example.com/a.md']);
+
+    mockRequestAllowedUrl.mockRejectedValueOnce(new Error('Failed to fetch https://example.com/a.md: 503 Service Unavailable'));
+    const { manifest, failed } = await syncMirrorFunction(outDir, ['https://example.com/a.md']);
+
+    expect(failed).toEqual([{ url: 'https://example.com/a.md', reason: 'Failed to fetch https://example.com/a.md: 503 Service Unavailable' }]);
+    expect(manifest.entries).toHaveLength(1);
+    expect(manifest.entries[0]?.hash).toBe(toContentHash('first sync'));
+  });
+});
+
+describe('runSyncFunction', () => {
+  let consoleInfoSpy: jest.SpyInstance;
+  let consoleErrorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleInfoSpy = jest.spyOn(console, 'info').mockImplementation();
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleInfoSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    process.exitCode = undefined;
+  });
+
+  it('should require an output directory', async () => {
+    await expect(runSyncFunction(OPTIONS)).rejects.toThrow('Missing required option for sync: --out <dir>');
+  });
+
+  it('should set a non-zero exit code when URLs fail', async () => {
+    const out = await mkdtemp(join(tmpdir(), 'patternfly-mcp-sync-'));
+
+    mockRequestAllowedUrl.mockRejectedValue(new Error('offline'));
+
+    await runSyncFunction({ ...OPTIONS, out, urls: ['https://example.com/a.md'] } as GlobalOptions);
+    await rm(out, { recursive: true, force: true });
+
+    expect(process.exitCode).toBe(1);
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to sync https://example.com/a.md: offline');
+    expect(consoleInfoSpy).toHaveBeenCalledWith(`Synced 0 of 1 URLs to ${out}`);
+  });
+
+  it('should request URLs under the passed options', async () => {
+    const out = await mkdtemp(join(tmpdir(), 'patternfly-mcp-sync-'));
+    const options = { ...OPTIONS, out, urls: ['https://example.com/a.md'] } as GlobalOptions;
+
+    mockRequestAllowedUrl.mockResolvedValue('content');
+
+    await runSyncFunction(options);
+    await rm(out, { recursive: true, force: true });
+
+    expect(mockRequestAllowedUrl).toHaveBeenCalledWith('https://example.com/a.md', options);
+  });
+});
@@ -0,0 +1,128 @@
+import { createDocEntry } from '../docs.catalog';
+import {
+  getAvailableVersionsFunction,
+  getPfVersion,
+  getVersionedDocs,
+  getVersionedPathOrUrl,
+  resolvePfVersionFunction,
+  toReleaseRef
+} from '../docs.version';
+import { OPTIONS, type GlobalOptions } from '../options';
+
+const LOCAL_OPTIONS = { ...OPTIONS, llmsFilesPath: 'llms-files' } as GlobalOptions;
+
+describe('toReleaseRef', () => {
+  it.each([
+    { description: 'patternfly-react', repo: 'patternfly-react', expected: 'refs/tags/v6.0.0' },
+    { description: 'patternfly-org, unknown tag format', repo: 'patternfly-org', expected: undefined },
+    { description: 'unknown repository', repo: 'lorem-ipsum', expected: undefined }
+  ])('should return a release tag ref, $description', ({ repo, expected }) => {
+    expect(toReleaseRef('6.0.0', repo)).toBe(expected);
+  });
+});
+
+describe('getVersionedPathOrUrl', () => {
+  it.each([
+    {
+      description: 'patternfly-react raw URL',
+      pathOrUrl: `${OPTIONS.pfExternalExamplesComponents}/Button/examples/Button.md`,
+      pfVersion: '5.4.0'
+    },
+    {
+      description: 'patternfly-org raw URL',
+      pathOrUrl: `${OPTIONS.pfExternalDesignComponents}/button/button.md`,
+      pfVersion: '5.4.0'
+    },
+    {
+      description: 'llms.txt path',
+      pathOrUrl: 'react-core/6.0.0/llms.txt',
+      pfVersion: '5.4.0'
+    },
+    {
+      description: 'without a selected version',
+      pathOrUrl: `${OPTIONS.pfExternal}/design-guidelines/components/button/button.md`,
+      pfVersion: undefined
+    },
+    {
+      description: 'external URL',
+      pathOrUrl: 'https://example.com/react-core/6.0.0/llms.txt',
+      pfVersion: '5.4.0'
+    },
+    {
+      description: 'local documentation path',
+      pathOrUrl: 'documentation/guidelines/README.md',
+      pfVersion: '5.4.0'
+    }
+  ])('should rewrite paths and URLs, $description', ({ pathOrUrl, pfVersion }) => {
+    expect(getVersionedPathOrUrl(pathOrUrl, { ...OPTIONS, pfVersion } as GlobalOptions)).toMatchSnapshot();
+  });
+});
+
+describe('getVersionedDocs', () => {
+  const entries = [
+    createDocEntry({
+      displayName: 'Button',
+      category: 'component',
+      section: 'examples',
+      packageName: '@patternfly/react-core',
+      pathOrUrl: `${OPTIONS.pfExternalExamplesComponents}/Button/examples/Button.md`,
+      description: 'React examples and props for the Button component'
+    })
+  ];
+
+  it('should return entries unchanged without a selected version', () => {
+    expect(getVersionedDocs(entries, OPTIONS)).toBe(entries);
+  });
+
+  it('should rewrite entry versions and URLs for a selected version', () => {
+    const [entry] = getVersionedDocs(entries, { ...OPTIONS, pfVersion: '5.4.0' } as GlobalOptions);
+
+    expect(entry?.version).toBe('5.4.0');
+    expect(entry?.pathOrUrl).toContain('/refs/tags/v5.4.0/');
+  });
+});
+
+describe('getPfVersion', () => {
+  it('should fall back to the bundled catalog version', () => {
+    expect(getPfVersion(OPTIONS)).toBe('6.0.0');
+    expect(getPfVersion({ ...OPTIONS, pfVersion: '5.4.0' } as GlobalOptions)).toBe('5.4.0');
+  });
+});
+
+describe('resolvePfVersionFunction', () => {
+  it('should list versions with an llms-files catalog', async () => {
+    await expect(getAvailableVersionsFunction(LOCAL_OPTIONS)).resolves.toEqual(['6.0.0']);
+  });
+
+  it.each([
+    {
+      description: 'major version',
+      version: '6'
+    },
+    {
+      description: 'prefixed minor version',
+      version: 'v6.0'
+    },
+    {
+      description: 'exact version',
+      version: '6.0.0'
+    }
+  ])('should resolve a version, $description', async ({ version }) => {
+    await expect(resolvePfVersionFunction(version, LOCAL_OPTIONS)).resolves.toBe('6.0.0');
+  });
+
+  it.each([
+    {
+      description: 'unsupported major version',
+      version: '5',
+      error: 'No documentation catalog for PatternFly version "5". PatternFly 5 is not supported, catalogs are only available for PatternFly 6. Available versions: 6.0.0'
+    },
+    {
+      description: 'missing minor version',
+      version: '6.4',
+      error: 'No documentation catalog for PatternFly version "6.4". Available versions: 6.0.0'
+    }
+  ])('should reject a version without a catalog, $description', async ({ version, error }) => {
+    await expect(resolvePfVersionFunction(version, LOCAL_OPTIONS)).rejects.toThrow(error);
+  });
+});
@@ -1,14 +1,42 @@
 import { main, start, type CliOptions } from '../index';
 import { parseCliOptions, freezeOptions, type GlobalOptions } from '../options';
 import { runServer } from '../server';
+import { resolvePfVersionFunction } from '../docs.version';
+import { runSyncFunction } from '../docs.sync';
+import { runCheckLinksFunction } from '../docs.links';
+import { runGenerateCatalogFunction } from '../docs.generate';
+import { loadDocSourcesFunction } from '../docs.sources';
+import { setLocalDocsPath } from '../docs.local';
+import { loadPluginsFunction } from '../server.plugins';
+import { getEnvOptions, loadConfigFileFunction } from '../options.config';
 
 // Mock dependencies
-jest.mock('../options');
+jest.mock('../options', () => ({
+  ...jest.createMockFromModule<object>('../options'),
+  mergeOptions: jest.requireActual('../options').mergeOptions
+}));
+jest.mock('../options.config');
 jest.mock('../server');
+jest.mock('../docs.version');
+jest.mock('../docs.sync');
+jest.mock('../docs.links');
+jest.mock('../docs.generate');
+jest.mock('../docs.sources');
+jest.mock('../docs.local');
+jest.mock('../server.plugins');
 
 const mockParseCliOptions = parseCliOptions as jest.MockedFunction<typeof parseCliOptions>;
 const mockFreezeOptions = freezeOptions as jest.MockedFunction<typeof freezeOptions>;
 const mockRunServer = runServer as jest.MockedFunction<typeof runServer>;
+const mockResolvePfVersion = resolvePfVersionFunction as jest.MockedFunction<typeof resolvePfVersionFunction>;
+const mockRunSync = runSyncFunction as jest.MockedFunction<typeof runSyncFunction>;
+const mockRunCheckLinks = runCheckLinksFunction as jest.MockedFunction<typeof runCheckLinksFunction>;
+const mockRunGenerateCatalog = runGenerateCatalogFunction as jest.MockedFunction<typeof runGenerateCatalogFunction>;
+const mockLoadDocSources = loadDocSourcesFunction as jest.MockedFunction<typeof loadDocSourcesFunction>;
+const mockSetLocalDocsPath = setLocalDocsPath as jest.MockedFunction<typeof setLocalDocsPath>;
+const mockLoadPlugins = loadPluginsFunction as jest.MockedFunction<typeof loadPluginsFunction>;
+const mockLoadConfigFile = loadConfigFileFunction as jest.MockedFunction<typeof loadConfigFileFunction>;
+const mockGetEnvOptions = getEnvOptions as jest.MockedFunction<typeof getEnvOptions>;
 
 describe('main', () => {
   let consoleErrorSpy: jest.SpyInstance;
@@ -27,6 +55,9 @@ describe('main', () => {
     mockParseCliOptions.mockReturnValue({ docsHost: false });
     mockFreezeOptions.mockReturnValue({} as GlobalOptions);
     mockRunServer.mockResolvedValue(undefined);
+    mockLoadConfigFile.mockResolvedValue({});
+    mockGetEnvOptions.mockReturnValue({});
+    mockLoadPlugins.mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -112,6 +143,90 @@ describe('main', () => {
     expect(callOrder).toEqual(['parse', 'freeze', 'run']);
   });
 
+  it('should resolve the PatternFly version against the final options before freezing them', async () => {
+    mockParseCliOptions.mockReturnValue({ pfVersion: '6', llmsFilesPath: '/custom/llms-files' });
+    mockResolvePfVersion.mockResolvedValue('6.0.0');
+
+    await main();
+
+    expect(mockResolvePfVersion).toHaveBeenCalledWith('6', expect.objectContaining({ llmsFilesPath: '/custom/llms-files' }));
+    expect(mockFreezeOptions).toHaveBeenCalledWith({ pfVersion: '6.0.0', llmsFilesPath: '/custom/llms-files' });
+  });
+
+  it('should point local documentation at the frozen docs directory', async () => {
+    mockFreezeOptions.mockReturnValue({ docsPath: '/custom/docs' } as GlobalOptions);
+
+    await main();
+
+    expect(mockSetLocalDocsPath).toHaveBeenCalledWith('/custom/docs');
+  });
+
+  it('should fail to start when the PatternFly version has no catalog', async () => {
+    const error = new Error('No documentation catalog for PatternFly version "4"');
+
+    mockParseCliOptions.mockReturnValue({ pfVersion: '4' });
+    mockResolvePfVersion.mockRejectedValue(error);
+
+    await main();
+
+    expect(mockFreezeOptions).not.toHaveBeenCalled();
+    expect(mockRunServer).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to start server:', error);
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should run the sync command instead of the server', async () => {
+    mockParseCliOptions.mockReturnValue({ command: 'sync', out: 'mirror' });
+
+    await main();
+
+    expect(mockFreezeOptions).toHaveBeenCalledWith({ command: 'sync', out: 'mirror' });
+    expect(mockRunSync).toHaveBeenCalled();
+    expect(mockRunServer).not.toHaveBeenCalled();
+  });
+
+  it('should run the generate-catalog command instead of the server', async () => {
+    mockParseCliOptions.mockReturnValue({ command: 'generate-catalog', sources: ['patternfly-react'], catalogVersion: '6.x' });
+
+    await main();
+
+    expect(mockRunGenerateCatalog).toHaveBeenCalled();
+    expect(mockLoadDocSources).not.toHaveBeenCalled();
+    expect(mockRunServer).not.toHaveBeenCalled();
+  });
+
+  it('should run the check-links command, with custom documentation sources, instead of the server', async () => {
+    mockParseCliOptions.mockReturnValue({ command: 'check-links', format: 'json' });
+
+    await main();
+
+    expect(mockLoadDocSources).toHaveBeenCalled();
+    expect(mockRunCheckLinks).toHaveBeenCalled();
+    expect(mockLoadPlugins).not.toHaveBeenCalled();
+    expect(mockRunServer).not.toHaveBeenCalled();
+  });
+
+  it('should load plugins, and pass them with the frozen options to the server', async () => {
+    const plugin = { name: 'acme', register: jest.fn() };
+    const frozenOptions = { plugins: [plugin, './plugin.mjs'] } as GlobalOptions;
+
+    mockFreezeOptions.mockReturnValueOnce(frozenOptions);
+    mockLoadPlugins.mockResolvedValueOnce([plugin]);
+
+    await main({ plugins: [plugin] });
+
+    expect(mockFreezeOptions).toHaveBeenCalledWith(expect.objectContaining({ plugins: [plugin] }));
+    expect(mockLoadPlugins).toHaveBeenCalledWith(frozenOptions.plugins);
+    expect(mockRunServer).toHaveBeenCalledWith(frozenOptions, { plugins: [plugin] });
+  });
+
+  it('should load custom documentation sources before running the server', async () => {
+    await main();
+
+    expect(mockLoadDocSources).toHaveBeenCalled();
+    expect(mockLoadDocSources.mock.invocationCallOrder[0]).toBeLessThan(mockRunServer.mock.invocationCallOrder[0] as number);
+  });
+
   it('should merge programmatic options with CLI options', async () => {
     const cliOptions = { docsHost: false };
     const programmaticOptions = { docsHost: true };
@@ -124,6 +239,42 @@ describe('main', () => {
     expect(mockFreezeOptions).toHaveBeenCalledWith({ docsHost: true });
   });
 
+  it('should merge config file, environment, CLI and programmatic options in order', async () => {
+    mockLoadConfigFile.mockResolvedValueOnce({
+      docsHost: true,
+      port: 3000,
+      fetchTimeout: 1000,
+      toolMemoOptions: { fetchDocs: { cacheLimit: 30 } }
+    });
+    mockGetEnvOptions.mockReturnValueOnce({ fetchTimeout: 5000 });
+    mockParseCliOptions.mockReturnValue({ config: 'cli.json', port: 4000, http: true });
+
+    await main({ http: false });
+
+    expect(mockLoadConfigFile).toHaveBeenCalledWith('cli.json');
+    expect(mockFreezeOptions).toHaveBeenCalledWith({
+      config: 'cli.json',
+      docsHost: true,
+      port: 4000,
+      http: false,
+      fetchTimeout: 5000,
+      toolMemoOptions: { fetchDocs: { cacheLimit: 30 } }
+    });
+  });
+
+  it('should fail to start with an invalid config file', async () => {
+    const error = new Error('Invalid config in patternfly-mcp.config.json:\n  - docsHots: unknown option');
+
+    mockLoadConfigFile.mockRejectedValueOnce(error);
+
+    await main({ config: 'patternfly-mcp.config.json' });
+
+    expect(mockLoadConfigFile).toHaveBeenCalledWith('patternfly-mcp.config.json');
+    expect(mockFreezeOptions).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to start server:', error);
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
   it('should work with empty programmatic options', async () => {
     const cliOptions = { docsHost: true };
 
@@ -162,6 +313,8 @@ describe('start alias', () => {
     mockParseCliOptions.mockReturnValue({ docsHost: false });
     mockFreezeOptions.mockReturnValue({} as GlobalOptions);
     mockRunServer.mockResolvedValue(undefined);
+    mockLoadConfigFile.mockResolvedValue({});
+    mockGetEnvOptions.mockReturnValue({});
   });
 
   afterEach(() => {
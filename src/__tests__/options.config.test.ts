@@ -0,0 +1,234 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { findConfigFileFunction, getEnvOptions, loadConfigFileFunction, parseConfigOptions } from '../options.config';
+
+describe('parseConfigOptions', () => {
+  it.each([
+    {
+      description: 'valid options',
+      value: { docsHost: true, toolMemoOptions: { fetchDocs: { cacheLimit: 30 } }, localFileExtensions: ['.md'] }
+    },
+    {
+      description: 'fetch options',
+      value: { fetchOptions: { retries: 0, maxConcurrencyPerHost: 2, maxUrlsPerCall: 30 } }
+    },
+    {
+      description: 'empty options',
+      value: {}
+    }
+  ])('should return options, $description', ({ value }) => {
+    expect(parseConfigOptions(value, 'config.json')).toEqual(value);
+  });
+
+  it.each([
+    {
+      description: 'unknown keys',
+      value: { docsHots: true, toolMemoOptions: { fetchDoc: { cacheLimit: 30 } } }
+    },
+    {
+      description: 'invalid values',
+      value: { port: 'abc', httpOptions: { path: 'mcp' }, toolMemoOptions: { fetchDocs: { expire: -1 } }, localFileExtensions: ['md'] }
+    },
+    {
+      description: 'invalid documentation sources',
+      value: { docsSources: [{ namespace: 'acme', type: 'folder', pathOrUrl: 'docs' }, { namespace: '@patternfly', type: 'directory', pathOrUrl: 'docs' }] }
+    },
+    {
+      description: 'invalid fetch options',
+      value: { fetchOptions: { retries: -1, maxConcurrencyPerHost: 0, backoff: 'exponential' } }
+    },
+    {
+      description: 'non-object',
+      value: []
+    }
+  ])('should reject options, $description', ({ value }) => {
+    expect(() => parseConfigOptions(value, 'config.json')).toThrowErrorMatchingSnapshot();
+  });
+});
+
+describe('loadConfigFileFunction', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-config-'));
+    await mkdir(join(dir, 'home'));
+    await mkdir(join(dir, 'project'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return no options without a config file', async () => {
+    await expect(loadConfigFileFunction(undefined, [join(dir, 'project'), join(dir, 'home')])).resolves.toEqual({});
+  });
+
+  it('should discover config files, working directory first, and resolve relative paths against the file', async () => {
+    await writeFile(join(dir, 'home', '.patternflymcprc'), JSON.stringify({ docsHost: true }));
+    await writeFile(join(dir, 'project', 'patternfly-mcp.config.json'), JSON.stringify({
+      docsPath: 'docs',
+      fetchTimeout: 5000
+    }));
+
+    await expect(loadConfigFileFunction(undefined, [join(dir, 'project'), join(dir, 'home')], [join(dir, 'project')])).resolves.toEqual({
+      docsPath: join(dir, 'project', 'docs'),
+      fetchTimeout: 5000
+    });
+    await expect(findConfigFileFunction([join(dir, 'home')])).resolves.toBe(join(dir, 'home', '.patternflymcprc'));
+  });
+
+  it('should ignore sandbox, URL policy and plugin options in a config file discovered in the working directory', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    await writeFile(join(dir, 'project', 'patternfly-mcp.config.json'), JSON.stringify({
+      docsHost: true,
+      allowPaths: ['/'],
+      allowUrls: ['http://169.254.169.254/'],
+      plugins: ['./plugin.mjs'],
+      urlAllowlist: ['https://'],
+      localFileExtensions: ['.json']
+    }));
+
+    await expect(loadConfigFileFunction(undefined, [join(dir, 'project')], [join(dir, 'home')])).resolves.toEqual({ docsHost: true });
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringMatching(
+      /^Ignoring plugins, allowPaths, allowUrls, localFileExtensions, urlAllowlist in .+patternfly-mcp\.config\.json, set them in a config file passed with --config$/
+    ));
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it.each([
+    { description: 'docsPath', config: { docsPath: '/' } },
+    { description: 'llmsFilesPath', config: { llmsFilesPath: '/' } },
+    { description: 'docsFallbackUrl', config: { docsFallbackUrl: 'http://169.254.169.254/' } },
+    { description: 'docsSources', config: { docsSources: [{ namespace: '@acme', type: 'directory', pathOrUrl: '/' }] } },
+    { description: 'cacheDir', config: { cacheDir: '/tmp/shared' } },
+    { description: 'mirror', config: { mirror: '/tmp/mirror' } },
+    { description: 'http', config: { http: true } },
+    { description: 'host', config: { host: '0.0.0.0' } },
+    { description: 'port', config: { port: 80 } },
+    { description: 'httpOptions.host', config: { httpOptions: { host: '0.0.0.0', path: '/docs' } }, expected: { httpOptions: { path: '/docs' } } },
+    { description: 'httpOptions.port', config: { httpOptions: { port: 80 } }, expected: { httpOptions: {} } },
+    { description: 'httpOptions.allowedHosts', config: { httpOptions: { allowedHosts: ['evil.example.com'] } }, expected: { httpOptions: {} } }
+  ])('should ignore options widening file, URL or network access in a discovered config file, $description', async ({
+    description,
+    config,
+    expected = {}
+  }) => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    await writeFile(join(dir, 'project', 'patternfly-mcp.config.json'), JSON.stringify({ fetchTimeout: 5000, ...config }));
+
+    await expect(loadConfigFileFunction(undefined, [join(dir, 'project')], [join(dir, 'home')])).resolves.toEqual({
+      fetchTimeout: 5000,
+      ...expected
+    });
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining(`Ignoring ${description} in `));
+
+    await expect(loadConfigFileFunction(join(dir, 'project', 'patternfly-mcp.config.json'))).resolves.toEqual(expect.objectContaining({
+      fetchTimeout: 5000
+    }));
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should read sandbox and URL policy options, not plugins, from a config file discovered in a trusted directory', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    await writeFile(join(dir, 'home', '.patternflymcprc'), JSON.stringify({
+      allowPaths: ['team-docs'],
+      allowUrls: ['docs.example.com'],
+      plugins: ['./plugin.mjs']
+    }));
+
+    await expect(loadConfigFileFunction(undefined, [join(dir, 'project'), join(dir, 'home')], [join(dir, 'home')])).resolves.toEqual({
+      allowPaths: [join(dir, 'home', 'team-docs')],
+      allowUrls: ['docs.example.com']
+    });
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringMatching(/^Ignoring plugins in .+\.patternflymcprc,/));
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should resolve relative documentation source paths against the file', async () => {
+    await writeFile(join(dir, 'custom.json'), JSON.stringify({
+      docsSources: [
+        { namespace: '@acme', type: 'directory', pathOrUrl: 'acme-docs' },
+        { namespace: '@acme', type: 'catalog', pathOrUrl: 'https://docs.example.com/catalog.json' }
+      ]
+    }));
+
+    await expect(loadConfigFileFunction(join(dir, 'custom.json'))).resolves.toEqual({
+      docsSources: [
+        { namespace: '@acme', type: 'directory', pathOrUrl: join(dir, 'acme-docs') },
+        { namespace: '@acme', type: 'catalog', pathOrUrl: 'https://docs.example.com/catalog.json' }
+      ]
+    });
+  });
+
+  it('should resolve relative plugin paths against the file, and keep package names', async () => {
+    await writeFile(join(dir, 'custom.json'), JSON.stringify({ plugins: ['./plugins/acme.mjs', '@acme/patternfly-mcp-plugin'] }));
+
+    await expect(loadConfigFileFunction(join(dir, 'custom.json'))).resolves.toEqual({
+      plugins: [join(dir, 'plugins', 'acme.mjs'), '@acme/patternfly-mcp-plugin']
+    });
+  });
+
+  it('should load a config file passed with --config', async () => {
+    await writeFile(join(dir, 'custom.json'), JSON.stringify({ http: true, port: 8080 }));
+
+    await expect(loadConfigFileFunction(join(dir, 'custom.json'))).resolves.toEqual({ http: true, port: 8080 });
+  });
+
+  it.each([
+    {
+      description: 'missing file',
+      content: undefined,
+      error: 'Failed to read config file'
+    },
+    {
+      description: 'malformed JSON',
+      content: '{ "docsHost": ',
+      error: 'Failed to read config file'
+    },
+    {
+      description: 'invalid option',
+      content: JSON.stringify({ separator: 1 }),
+      error: '  - separator: Expected string, received number'
+    }
+  ])('should reject config files, $description', async ({ content, error }) => {
+    if (content) {
+      await writeFile(join(dir, 'custom.json'), content);
+    }
+
+    await expect(loadConfigFileFunction(join(dir, 'custom.json'))).rejects.toThrow(error);
+  });
+});
+
+describe('getEnvOptions', () => {
+  it.each([
+    {
+      description: 'fetch timeout',
+      env: { DOC_MCP_FETCH_TIMEOUT_MS: '5000' },
+      expected: { fetchTimeout: 5000 }
+    },
+    {
+      description: 'empty value',
+      env: { DOC_MCP_FETCH_TIMEOUT_MS: '' },
+      expected: {}
+    },
+    {
+      description: 'unset',
+      env: {},
+      expected: {}
+    }
+  ])('should return options, $description', ({ env, expected }) => {
+    expect(getEnvOptions(env)).toEqual(expected);
+  });
+
+  it('should reject invalid values with the variable name', () => {
+    expect(() => getEnvOptions({ DOC_MCP_FETCH_TIMEOUT_MS: 'soon' })).toThrow('  - DOC_MCP_FETCH_TIMEOUT_MS: Expected number, received nan');
+  });
+});
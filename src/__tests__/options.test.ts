@@ -1,5 +1,5 @@
 import * as options from '../options';
-import { parseCliOptions, freezeOptions, OPTIONS } from '../options';
+import { getCliUsage, getUserCachePath, parseCliArgs, parseCliOptions, mergeOptions, freezeOptions, OPTIONS } from '../options';
 
 describe('options', () => {
   it('should return specific properties', () => {
@@ -24,8 +24,48 @@ describe('parseCliOptions', () => {
       args: ['node', 'script.js']
     },
     {
-      description: 'with other arguments',
-      args: ['node', 'script.js', 'other', 'args']
+      description: 'with --http, --port and --host flags',
+      args: ['node', 'script.js', '--http', '--port', '8080', '--host', '0.0.0.0']
+    },
+    {
+      description: 'with --config',
+      args: ['node', 'script.js', '--config', 'team.config.json']
+    },
+    {
+      description: 'with --pf-version',
+      args: ['node', 'script.js', '--pf-version', '5']
+    },
+    {
+      description: 'with the sync command',
+      args: ['node', 'script.js', 'sync', '--out', 'mirror', 'https://example.com/docs.md']
+    },
+    {
+      description: 'with --mirror',
+      args: ['node', 'script.js', '--mirror', 'mirror']
+    },
+    {
+      description: 'with --cache-dir',
+      args: ['node', 'script.js', '--cache-dir', '/tmp/patternfly-mcp']
+    },
+    {
+      description: 'with repeated and comma separated --allow-url',
+      args: ['node', 'script.js', '--allow-url', 'docs.example.com,http://127.0.0.1:3000', '--allow-url', '*.example.org']
+    },
+    {
+      description: 'with --allow-path',
+      args: ['node', 'script.js', '--allow-path', 'team-docs', '--allow-path', '/srv/docs']
+    },
+    {
+      description: 'with --plugin',
+      args: ['node', 'script.js', '--plugin', './acme-plugin.mjs', '--plugin', '@acme/patternfly-mcp-plugin']
+    },
+    {
+      description: 'with --flag=value forms',
+      args: ['node', 'script.js', '--pf-version=6.0.0', '--port=8080', '--allow-url=docs.example.com,*.example.org', '--http=true', '--docs-host=false']
+    },
+    {
+      description: 'with typed values',
+      args: ['node', 'script.js', '--fetch-timeout', '5000', '--docs-path', 'docs', '--llms-files-path=/srv/llms-files', '--cache-limit', '30']
     }
   ])('should attempt to parse args $description', ({ args = [] }) => {
     process.argv = args;
@@ -34,13 +74,169 @@ describe('parseCliOptions', () => {
 
     expect(result).toMatchSnapshot();
   });
+
+  describe('exit', () => {
+    let consoleErrorSpy: jest.SpyInstance;
+    let consoleLogSpy: jest.SpyInstance;
+    let processExitSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
+      processExitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    });
+
+    afterEach(() => {
+      consoleErrorSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+      processExitSpy.mockRestore();
+    });
+
+    it('should print the usage message with --help', () => {
+      parseCliOptions(['node', 'script.js', '--docs-host', '--help']);
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(getCliUsage());
+      expect(processExitSpy).toHaveBeenCalledWith(0);
+      expect(getCliUsage()).toMatchSnapshot('usage');
+    });
+
+    it('should print the version with --version', () => {
+      parseCliOptions(['node', 'script.js', '--version']);
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(OPTIONS.version);
+      expect(processExitSpy).toHaveBeenCalledWith(0);
+    });
+
+    it('should print the error and usage message, and exit non-zero, with an unknown flag', () => {
+      parseCliOptions(['node', 'script.js', '--docs-hots']);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`Unknown option: --docs-hots\n\n${getCliUsage()}`);
+      expect(consoleLogSpy).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
+
+describe('parseCliArgs', () => {
+  it.each([
+    {
+      description: 'unknown flag',
+      args: ['--docs-host', '--http-port', '3000'],
+      error: 'Unknown option: --http-port'
+    },
+    {
+      description: 'unknown flag with a value',
+      args: ['--fetch-timout=5000'],
+      error: 'Unknown option: --fetch-timout'
+    },
+    {
+      description: 'missing value',
+      args: ['--http', '--port', '--docs-host'],
+      error: 'Missing value for --port'
+    },
+    {
+      description: 'missing trailing value',
+      args: ['--allow-url'],
+      error: 'Missing value for --allow-url'
+    },
+    {
+      description: 'empty inline value',
+      args: ['--host=', '0.0.0.0'],
+      error: 'Missing value for --host'
+    },
+    {
+      description: 'invalid number',
+      args: ['--fetch-timeout', '5s'],
+      error: 'Invalid value for --fetch-timeout: expected a whole number, received "5s"'
+    },
+    {
+      description: 'invalid boolean',
+      args: ['--docs-host=yes'],
+      error: 'Invalid value for --docs-host: expected true or false, received "yes"'
+    },
+    {
+      description: 'unknown command',
+      args: ['other', 'args'],
+      error: 'Unknown command: other'
+    },
+    {
+      description: 'unexpected command argument',
+      args: ['sync', '--out', 'mirror', 'docs.md'],
+      error: 'Unexpected argument: docs.md, expected a URL'
+    }
+  ])('should reject args, $description', ({ args, error }) => {
+    expect(() => parseCliArgs(args)).toThrow(error);
+  });
+
+  it('should parse --help and --version', () => {
+    expect(parseCliArgs(['--help', '--version'])).toEqual({ help: true, version: true });
+  });
+
+  it('should parse --version as the catalog version for generate-catalog', () => {
+    expect(parseCliArgs(['generate-catalog', '--source', '/pf/react,/pf/org', '--version', '6.x'])).toEqual({
+      command: 'generate-catalog',
+      sources: ['/pf/react', '/pf/org'],
+      catalogVersion: '6.x'
+    });
+  });
+});
+
+describe('getUserCachePath', () => {
+  it.each([
+    {
+      description: 'XDG_CACHE_HOME',
+      platform: 'linux',
+      env: { XDG_CACHE_HOME: '/xdg-cache' },
+      expected: '/xdg-cache'
+    },
+    {
+      description: 'linux',
+      platform: 'linux',
+      env: {},
+      expected: '/.cache'
+    },
+    {
+      description: 'macOS',
+      platform: 'darwin',
+      env: {},
+      expected: '/Library/Caches'
+    },
+    {
+      description: 'Windows',
+      platform: 'win32',
+      env: { LOCALAPPDATA: 'C:\\Users\\user\\AppData\\Local' },
+      expected: 'C:\\Users\\user\\AppData\\Local'
+    }
+  ])('should return the user cache path, $description', ({ platform, env, expected }) => {
+    expect(getUserCachePath(platform as NodeJS.Platform, env)).toContain(expected);
+  });
+});
+
+describe('mergeOptions', () => {
+  it('should deep merge plain objects, replace other values and skip undefined values', () => {
+    const pattern = /^a/;
+
+    expect(mergeOptions(
+      { docsHost: false, allowUrls: ['a'], toolMemoOptions: { fetchDocs: { cacheLimit: 15, expire: 60_000 } }, urlRegex: /^b/ },
+      undefined,
+      { allowUrls: ['b'], toolMemoOptions: { fetchDocs: { cacheLimit: 30 } }, urlRegex: pattern },
+      { docsHost: true, port: undefined }
+    )).toEqual({
+      docsHost: true,
+      allowUrls: ['b'],
+      toolMemoOptions: { fetchDocs: { cacheLimit: 30, expire: 60_000 } },
+      urlRegex: pattern
+    });
+  });
 });
 
 describe('freezeOptions', () => {
   it('should return frozen options with consistent properties', () => {
-    const result = freezeOptions({ docsHost: true });
+    const result = freezeOptions({ docsHost: true, toolMemoOptions: { fetchDocs: { cacheLimit: 30 } } });
 
     expect(Object.isFrozen(result)).toBe(true);
+    expect(result.toolMemoOptions.fetchDocs).toEqual({ cacheLimit: 30, expire: 60_000, cacheErrors: false });
+    expect(result.toolMemoOptions.usePatternFlyDocs.cacheLimit).toBe(10);
     expect(result).toBe(OPTIONS);
     expect(result).toMatchSnapshot('frozen');
   });
@@ -0,0 +1,127 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  auditComponentAccessibilityPrompt,
+  buildPatternFlyViewPrompt,
+  migrateToV6Prompt
+} from '../prompt.patternFlyDocs';
+import { loadDocFunction } from '../server.getResources';
+import { OPTIONS, type GlobalOptions } from '../options';
+
+// Mock dependencies
+jest.mock('../server.getResources', () => ({
+  ...jest.requireActual('../server.getResources'),
+  loadDocFunction: jest.fn()
+}));
+
+const mockLoadDoc = loadDocFunction as jest.MockedFunction<typeof loadDocFunction>;
+
+const options = {
+  ...OPTIONS,
+  llmsFilesPath: 'llms-files'
+} as GlobalOptions;
+
+describe('prompt.patternFlyDocs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLoadDoc.mockResolvedValue('lorem ipsum');
+  });
+
+  it.each([
+    { description: 'build-patternfly-view', prompt: buildPatternFlyViewPrompt },
+    { description: 'audit-component-accessibility', prompt: auditComponentAccessibilityPrompt },
+    { description: 'migrate-to-v6', prompt: migrateToV6Prompt }
+  ])('should have a consistent return structure, $description', ({ prompt }) => {
+    const [name, { argsSchema, ...schema }] = prompt(options);
+
+    expect({ name, schema, args: Object.keys(argsSchema) }).toMatchSnapshot();
+  });
+
+  it.each([
+    {
+      description: 'build view with components',
+      prompt: buildPatternFlyViewPrompt,
+      args: { description: 'a user list with filtering', components: 'Button, toolbar, LoremIpsum' }
+    },
+    {
+      description: 'build view without components',
+      prompt: buildPatternFlyViewPrompt,
+      args: { description: 'a settings page' }
+    },
+    {
+      description: 'audit component accessibility',
+      prompt: auditComponentAccessibilityPrompt,
+      args: { component: 'button', code: '<Button>Save</Button>' }
+    },
+    {
+      description: 'migrate to v6',
+      prompt: migrateToV6Prompt,
+      args: {}
+    }
+  ])('should return messages, $description', async ({ prompt, args }) => {
+    const [_name, _schema, callback] = prompt(options);
+    const result = await callback(args);
+
+    expect(mockLoadDoc.mock.calls.map(([pathOrUrl]) => pathOrUrl)).toMatchSnapshot('loaded');
+    expect(result).toMatchSnapshot('result');
+  });
+
+  it('should read the upgrade guide for the selected PatternFly version', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-prompt-'));
+
+    await mkdir(join(dir, 'patternfly', '6.1.0'), { recursive: true });
+    await writeFile(
+      join(dir, 'patternfly', '6.1.0', 'llms.txt'),
+      [
+        '# @patternfly/patternfly 6.1.0',
+        '> Prose links such as [Migrating to v6](https://example.com/summary.md) are not llms.txt entries',
+        '## Guides',
+        '- [Migrating to v6](https://example.com/6.1.0/upgrade.md): <classification>Upgrade guide</classification>'
+      ].join('\n')
+    );
+
+    const [_name, _schema, callback] = migrateToV6Prompt({ ...options, llmsFilesPath: dir, pfVersion: '6.1.0' });
+
+    await callback({});
+    await rm(dir, { recursive: true, force: true });
+
+    expect(mockLoadDoc.mock.calls.map(([pathOrUrl]) => pathOrUrl)).toEqual(['https://example.com/6.1.0/upgrade.md']);
+  });
+
+  it('should fall back to catalog links when content fails to load', async () => {
+    mockLoadDoc.mockRejectedValue(new Error('Network error'));
+
+    const [_name, _schema, callback] = migrateToV6Prompt(options);
+    const result = await callback({});
+
+    expect(result.messages[0].content.text).toMatch(/could not be loaded/);
+  });
+
+  it.each([
+    {
+      description: 'build view, missing description',
+      prompt: buildPatternFlyViewPrompt,
+      args: {},
+      error: 'Missing required argument: description'
+    },
+    {
+      description: 'audit, missing component',
+      prompt: auditComponentAccessibilityPrompt,
+      args: {},
+      error: 'Missing required argument: component'
+    },
+    {
+      description: 'audit, unknown component',
+      prompt: auditComponentAccessibilityPrompt,
+      args: { component: 'LoremIpsum' },
+      error: 'No accessibility documentation found'
+    }
+  ])('should handle errors, $description', async ({ prompt, args, error }) => {
+    const [_name, _schema, callback] = prompt(options);
+
+    await expect(callback(args)).rejects.toThrow(McpError);
+    await expect(callback(args)).rejects.toThrow(error);
+  });
+});
@@ -0,0 +1,142 @@
+import { readFile } from 'node:fs/promises';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  patternFlyChartsResource,
+  patternFlyComponentsResource,
+  patternFlyLayoutsResource,
+  patternFlyLlmsFilesResource,
+  patternFlyLlmsSectionsResource,
+  patternFlyLocalDocsResource
+} from '../resource.patternFlyDocs';
+import { loadDocFunction } from '../server.getResources';
+import { OPTIONS, type GlobalOptions } from '../options';
+
+// Mock dependencies
+jest.mock('../server.getResources', () => ({
+  ...jest.requireActual('../server.getResources'),
+  loadDocFunction: jest.fn()
+}));
+
+const mockLoadDoc = loadDocFunction as jest.MockedFunction<typeof loadDocFunction>;
+
+const options = {
+  ...OPTIONS,
+  llmsFilesPath: 'llms-files'
+} as GlobalOptions;
+
+describe('resource.patternFlyDocs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLoadDoc.mockResolvedValue('lorem ipsum');
+  });
+
+  it.each([
+    { description: 'components', resource: patternFlyComponentsResource },
+    { description: 'layouts', resource: patternFlyLayoutsResource },
+    { description: 'charts', resource: patternFlyChartsResource },
+    { description: 'local docs', resource: patternFlyLocalDocsResource },
+    { description: 'llms files', resource: patternFlyLlmsFilesResource },
+    { description: 'llms sections', resource: patternFlyLlmsSectionsResource }
+  ])('should have a consistent return structure, $description', ({ resource }) => {
+    const [name, template, metadata] = resource(options);
+
+    expect({ name, uriTemplate: template.uriTemplate.toString(), metadata }).toMatchSnapshot();
+  });
+
+  it.each([
+    { description: 'components', resource: patternFlyComponentsResource },
+    { description: 'layouts', resource: patternFlyLayoutsResource },
+    { description: 'charts', resource: patternFlyChartsResource },
+    { description: 'local docs', resource: patternFlyLocalDocsResource },
+    { description: 'llms files', resource: patternFlyLlmsFilesResource }
+  ])('should list catalog entries, $description', async ({ resource }) => {
+    const [_name, template] = resource(options);
+    const { resources } = await template.listCallback!({} as any);
+
+    expect(resources.length).toBeGreaterThan(0);
+    expect(resources.every(({ uri }) => template.uriTemplate.match(uri) !== null)).toBe(true);
+    expect(resources.slice(0, 3)).toMatchSnapshot();
+  });
+
+  it.each([
+    {
+      description: 'component accessibility',
+      resource: patternFlyComponentsResource,
+      uri: 'patternfly://components/Button/accessibility'
+    },
+    {
+      description: 'component examples, loose name',
+      resource: patternFlyComponentsResource,
+      uri: 'patternfly://components/about-modal/examples'
+    },
+    {
+      description: 'layout',
+      resource: patternFlyLayoutsResource,
+      uri: 'patternfly://layouts/flex'
+    },
+    {
+      description: 'chart',
+      resource: patternFlyChartsResource,
+      uri: 'patternfly://charts/bar-chart'
+    },
+    {
+      description: 'llms file',
+      resource: patternFlyLlmsFilesResource,
+      uri: 'patternfly://llms/react-core/6.0.0'
+    }
+  ])('should read a resource, $description', async ({ resource, uri }) => {
+    const [_name, template, _metadata, callback] = resource(options);
+    const variables = template.uriTemplate.match(uri) || {};
+    const result = await callback(new URL(uri), variables);
+
+    expect(mockLoadDoc.mock.calls[0]?.[0]).toMatchSnapshot('loaded');
+    expect(result).toMatchSnapshot('result');
+  });
+
+  it('should list and read llms.txt sections', async () => {
+    mockLoadDoc.mockImplementation(path => readFile(path, 'utf-8'));
+
+    const [_name, template, _metadata, callback] = patternFlyLlmsSectionsResource(options);
+    const { resources } = await template.listCallback!({} as any);
+    const uri = 'patternfly://llms/patternfly/6.0.0/design-foundations';
+    const result = await callback(new URL(uri), template.uriTemplate.match(uri) || {});
+
+    expect(resources.filter(({ uri: resourceUri }) => resourceUri.startsWith('patternfly://llms/patternfly/'))).toMatchSnapshot('list');
+    expect(result.contents[0]?.text).toMatchSnapshot('section');
+  });
+
+  it('should complete template variables', async () => {
+    const [_name, template] = patternFlyComponentsResource(options);
+
+    expect(await template.completeCallback('name')?.('butt')).toEqual(['Button']);
+    expect(await template.completeCallback('section')?.('', { arguments: { name: 'Button' } })).toEqual([
+      'design-guidelines',
+      'accessibility',
+      'examples'
+    ]);
+  });
+
+  it.each([
+    {
+      description: 'unknown resource',
+      uri: 'patternfly://components/Lorem/accessibility',
+      error: 'Resource not found'
+    },
+    {
+      description: 'load failure',
+      uri: 'patternfly://components/Button/accessibility',
+      loadError: new Error('Network error'),
+      error: 'Failed to load'
+    }
+  ])('should handle errors, $description', async ({ uri, loadError, error }) => {
+    if (loadError) {
+      mockLoadDoc.mockRejectedValue(loadError);
+    }
+
+    const [_name, template, _metadata, callback] = patternFlyComponentsResource(options);
+    const variables = template.uriTemplate.match(uri) || {};
+
+    await expect(callback(new URL(uri), variables)).rejects.toThrow(McpError);
+    await expect(callback(new URL(uri), variables)).rejects.toThrow(error);
+  });
+});
@@ -187,4 +187,20 @@ describe('memo', () => {
 
     expect(updatedLog).toMatchSnapshot('cache list length');
   });
+
+  it('should not keep the process alive while waiting to expire', () => {
+    jest.useRealTimers();
+
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+    const memoized = memo((str: string) => str, { expire: 1000 });
+
+    memoized('lorem');
+
+    const timer = setTimeoutSpy.mock.results[0]?.value as NodeJS.Timeout;
+
+    expect(timer.hasRef()).toBe(false);
+
+    clearTimeout(timer);
+    setTimeoutSpy.mockRestore();
+  });
 });
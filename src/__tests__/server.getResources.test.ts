@@ -1,9 +1,32 @@
 import { readFile } from 'node:fs/promises';
-import { readLocalFileFunction, fetchUrlFunction, resolveLocalPathFunction, processDocsFunction } from '../server.getResources';
-import { type GlobalOptions } from '../options';
+import {
+  createDocsToolCallback,
+  readLocalFileFunction,
+  fetchUrlFunction,
+  resolveLocalPathFunction,
+  loadDocsFunction,
+  processDocsFunction,
+  renderDocsResult,
+  requestAllowedUrlFunction,
+  toDocsResultContent,
+  toDocsStructuredContent,
+  type DocsResult
+} from '../server.getResources';
+import { readHttpCacheFunction, writeHttpCacheFunction } from '../server.httpCache';
+import { assertUrlAllowedFunction } from '../server.urlPolicy';
+import { assertLocalPathAllowedFunction, createAccessDeniedError } from '../server.sandbox';
+import { OPTIONS, type GlobalOptions } from '../options';
+import { createDocEntry } from '../docs.catalog';
+import { setCustomDocs } from '../docs.custom';
 
 // Mock dependencies
 jest.mock('node:fs/promises');
+jest.mock('../server.httpCache');
+jest.mock('../server.urlPolicy');
+jest.mock('../server.sandbox', () => ({
+  ...jest.requireActual('../server.sandbox'),
+  assertLocalPathAllowedFunction: jest.fn()
+}));
 jest.mock('../server.caching', () => ({
   memo: jest.fn(fn => {
     const memoized = fn;
@@ -15,6 +38,10 @@ jest.mock('../server.caching', () => ({
 }));
 
 const mockReadFile = readFile as jest.MockedFunction<typeof readFile>;
+const mockReadHttpCache = readHttpCacheFunction as jest.MockedFunction<typeof readHttpCacheFunction>;
+const mockWriteHttpCache = writeHttpCacheFunction as jest.MockedFunction<typeof writeHttpCacheFunction>;
+const mockAssertUrlAllowed = assertUrlAllowedFunction as jest.MockedFunction<typeof assertUrlAllowedFunction>;
+const mockAssertLocalPathAllowed = assertLocalPathAllowedFunction as jest.MockedFunction<typeof assertLocalPathAllowedFunction>;
 
 describe('readLocalFileFunction', () => {
   beforeEach(() => {
@@ -74,11 +101,199 @@ describe('fetchUrlFunction', () => {
       .toThrow('Failed to fetch https://example.com/missing.md: 404 Not Found');
   });
 
+  it('should read URLs from a mirror without fetching', async () => {
+    mockReadFile
+      .mockResolvedValueOnce(JSON.stringify({
+        generatedAt: '2025-01-01T00:00:00.000Z',
+        entries: [{ url: 'https://example.com/doc.md', hash: 'abc123', fetchedAt: '2025-01-01T00:00:00.000Z' }]
+      }))
+      .mockResolvedValueOnce('mirrored content');
+
+    const result = await fetchUrlFunction('https://example.com/doc.md', { ...OPTIONS, mirror: '/mirror' });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(mockReadFile).toHaveBeenLastCalledWith('/mirror/content/abc123', 'utf-8');
+    expect(result).toBe('mirrored content');
+  });
+
+  it('should reject URLs missing from a mirror', async () => {
+    mockReadFile.mockResolvedValueOnce(JSON.stringify({ generatedAt: '', entries: [] }));
+
+    await expect(fetchUrlFunction('https://example.com/missing.md', { ...OPTIONS, mirror: '/mirror' }))
+      .rejects
+      .toThrow('Failed to fetch https://example.com/missing.md: not found in mirror /mirror');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject URLs that are not allowed without fetching', async () => {
+    mockAssertUrlAllowed.mockRejectedValueOnce(new Error('URL not allowed: 169.254.169.254 is not in the allowlist'));
+
+    await expect(fetchUrlFunction('http://169.254.169.254/latest/meta-data'))
+      .rejects
+      .toThrow('URL not allowed: 169.254.169.254 is not in the allowlist');
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(mockReadHttpCache).not.toHaveBeenCalled();
+  });
+
+  it('should validate and follow redirects', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: false, status: 302, statusText: 'Found', headers: new Headers({ Location: '/moved.md' }) })
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), text: jest.fn().mockResolvedValue('moved content') });
+
+    const result = await fetchUrlFunction('https://example.com/doc.md');
+
+    expect(mockAssertUrlAllowed.mock.calls.map(([url]) => url)).toEqual(['https://example.com/doc.md', 'https://example.com/moved.md']);
+    expect(global.fetch).toHaveBeenLastCalledWith('https://example.com/moved.md', expect.objectContaining({ redirect: 'manual' }));
+    expect(result).toBe('moved content');
+  });
+
+  it('should reject redirects to URLs that are not allowed', async () => {
+    mockAssertUrlAllowed
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('URL not allowed: internal.example.com resolves to the private address 10.0.0.1'));
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: false, status: 301, statusText: 'Moved', headers: new Headers({ Location: 'http://internal.example.com/' }) });
+
+    await expect(fetchUrlFunction('https://example.com/doc.md'))
+      .rejects
+      .toThrow('URL not allowed: internal.example.com resolves to the private address 10.0.0.1');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry rate limited and failed requests', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests', headers: new Headers({ 'Retry-After': '0' }) })
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), text: jest.fn().mockResolvedValue('fetched content') });
+
+    const result = await fetchUrlFunction('https://example.com/doc.md', {
+      ...OPTIONS,
+      fetchOptions: { ...OPTIONS.fetchOptions, retries: 2, baseDelay: 0 }
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(result).toBe('fetched content');
+  });
+
+  it('should stop retrying after the configured retries', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable', headers: new Headers() });
+
+    await expect(fetchUrlFunction('https://example.com/doc.md', {
+      ...OPTIONS,
+      fetchOptions: { ...OPTIONS.fetchOptions, retries: 1, baseDelay: 0 }
+    }))
+      .rejects
+      .toThrow('Failed to fetch https://example.com/doc.md: 503 Service Unavailable');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should store fetched responses and validators in the HTTP cache', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers({ ETag: '"v1"', 'Last-Modified': 'Wed, 01 Jan 2025 00:00:00 GMT' }),
+      text: jest.fn().mockResolvedValue('fetched content')
+    });
+
+    await fetchUrlFunction('https://example.com/doc.md', { ...OPTIONS, cacheDir: '/cache' });
+
+    expect(mockWriteHttpCache).toHaveBeenCalledWith({
+      url: 'https://example.com/doc.md',
+      etag: '"v1"',
+      lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT',
+      storedAt: expect.any(String),
+      body: 'fetched content'
+    }, '/cache', OPTIONS.httpCacheOptions.maxSize);
+  });
+
+  it.each([
+    {
+      description: 'not modified',
+      response: () => Promise.resolve({ ok: false, status: 304, statusText: 'Not Modified' })
+    },
+    {
+      description: 'server error',
+      response: () => Promise.resolve({ ok: false, status: 503, statusText: 'Service Unavailable' })
+    },
+    {
+      description: 'rate limited',
+      response: () => Promise.resolve({ ok: false, status: 429, statusText: 'Too Many Requests' })
+    },
+    {
+      description: 'network error',
+      response: () => Promise.reject(new Error('fetch failed'))
+    }
+  ])('should revalidate and serve cached responses, $description', async ({ response }) => {
+    mockReadHttpCache.mockResolvedValueOnce({
+      url: 'https://example.com/doc.md',
+      etag: '"v1"',
+      lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT',
+      storedAt: '2025-01-01T00:00:00.000Z',
+      body: 'cached content'
+    });
+    (global.fetch as jest.Mock).mockImplementation(response);
+
+    const result = await fetchUrlFunction('https://example.com/doc.md', { ...OPTIONS, cacheDir: '/cache' });
+
+    expect(global.fetch).toHaveBeenCalledWith('https://example.com/doc.md', expect.objectContaining({
+      headers: {
+        Accept: 'text/plain, text/markdown, */*',
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Wed, 01 Jan 2025 00:00:00 GMT'
+      }
+    }));
+    expect(result).toBe('cached content');
+    expect(mockWriteHttpCache).not.toHaveBeenCalled();
+  });
+
+  it('should not serve cached responses for missing documents', async () => {
+    mockReadHttpCache.mockResolvedValueOnce({
+      url: 'https://example.com/doc.md',
+      etag: '"v1"',
+      storedAt: '2025-01-01T00:00:00.000Z',
+      body: 'cached content'
+    });
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' });
+
+    await expect(fetchUrlFunction('https://example.com/doc.md', { ...OPTIONS, cacheDir: '/cache' }))
+      .rejects
+      .toThrow('Failed to fetch https://example.com/doc.md: 404 Not Found');
+  });
+
   it('should have memo property', () => {
     expect(fetchUrlFunction.memo).toBeDefined();
   });
 });
 
+describe('requestAllowedUrlFunction', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  it('should reject URLs that are not allowed without fetching', async () => {
+    mockAssertUrlAllowed.mockRejectedValueOnce(new Error('URL not allowed: 169.254.169.254 is not in the allowlist'));
+
+    await expect(requestAllowedUrlFunction('http://169.254.169.254/latest/meta-data'))
+      .rejects
+      .toThrow('URL not allowed: 169.254.169.254 is not in the allowlist');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject redirects to URLs that are not allowed', async () => {
+    mockAssertUrlAllowed
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('URL not allowed: internal.example.com resolves to the private address 10.0.0.1'));
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: false, status: 301, statusText: 'Moved', headers: new Headers({ Location: 'http://internal.example.com/' }) });
+
+    await expect(requestAllowedUrlFunction('https://example.com/doc.md'))
+      .rejects
+      .toThrow('URL not allowed: internal.example.com resolves to the private address 10.0.0.1');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
 describe('resolveLocalPathFunction', () => {
   it.each([
     {
@@ -171,6 +386,68 @@ describe('processDocsFunction', () => {
     expect(fetchUrlFunction.memo).toHaveBeenCalledTimes(fetchMemoHits);
   });
 
+  it('should resolve namespaced names of custom documentation', async () => {
+    setCustomDocs([createDocEntry({
+      displayName: 'ProductCard',
+      category: 'guide',
+      section: 'guide',
+      packageName: '@acme',
+      namespace: '@acme',
+      pathOrUrl: '/srv/acme/docs/ProductCard.md',
+      description: 'Product card'
+    })]);
+
+    const result = await processDocsFunction(['@acme/ProductCard', '@acme/Missing'], {
+      docsHost: false,
+      urlRegex: /^(https?:)\/\//i,
+      separator: '\n\n---\n\n'
+    } as GlobalOptions);
+
+    setCustomDocs([]);
+
+    expect(result).toContain('# Documentation from /srv/acme/docs/ProductCard.md');
+    expect(readLocalFileFunction.memo).toHaveBeenCalledWith('/srv/acme/docs/ProductCard.md');
+    expect(readLocalFileFunction.memo).toHaveBeenCalledWith('@acme/Missing');
+  });
+
+  it('should fall through fallback sources, and annotate the source that served the content', async () => {
+    const url = `${OPTIONS.pfExternalExamplesComponents}/Table/examples/Table.md`;
+
+    fetchUrlFunction.memo = jest.fn()
+      .mockRejectedValueOnce(new Error(`Failed to fetch ${url}: 503 Service Unavailable`))
+      .mockRejectedValueOnce(new Error('Failed to fetch mirror: 404 Not Found'));
+
+    const loaded = await loadDocsFunction([url], { ...OPTIONS, docsFallbackUrl: 'https://mirror.example.com/raw' });
+
+    expect((fetchUrlFunction.memo as jest.Mock).mock.calls.map(([pathOrUrl]) => pathOrUrl)).toEqual([
+      url,
+      url.replace('https://raw.githubusercontent.com', 'https://mirror.example.com/raw')
+    ]);
+    expect(readLocalFileFunction.memo).toHaveBeenCalledWith('/documentation/components/data-display/table.md');
+    expect(loaded).toEqual([expect.objectContaining({
+      status: 'loaded',
+      source: url,
+      servedFrom: '/documentation/components/data-display/table.md'
+    })]);
+    expect(renderDocsResult(loaded[0] as DocsResult))
+      .toMatch(/^# Documentation from https:\/\/\S+\/Table\.md \(served from \/documentation\/components\/data-display\/table\.md\)/);
+  });
+
+  it('should report the primary source error when every fallback fails', async () => {
+    const url = `${OPTIONS.pfExternalExamplesComponents}/Table/examples/Table.md`;
+
+    fetchUrlFunction.memo = jest.fn().mockRejectedValue(new Error(`Failed to fetch ${url}: 503 Service Unavailable`));
+    readLocalFileFunction.memo = jest.fn().mockRejectedValue(new Error('ENOENT'));
+
+    const [result] = await loadDocsFunction([url], OPTIONS);
+
+    expect(result).toEqual(expect.objectContaining({
+      status: 'failed',
+      error: `Error: Failed to fetch ${url}: 503 Service Unavailable`
+    }));
+    expect(readLocalFileFunction.memo).toHaveBeenCalledTimes(1);
+  });
+
   it('should handle errors gracefully', async () => {
     const mockOptions = {
       docsHost: false,
@@ -193,4 +470,216 @@ describe('processDocsFunction', () => {
 
     expect(result).toMatchSnapshot('errors');
   });
+
+  it('should report local paths outside the documentation roots as access denied', async () => {
+    const mockOptions = {
+      docsHost: false,
+      urlRegex: /^(https?:)\/\//i,
+      separator: '\n\n---\n\n',
+      llmsFilesPath: '/llms-files'
+    };
+
+    mockAssertLocalPathAllowed
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(createAccessDeniedError('path is outside the documentation roots, allow it with --allow-path'));
+
+    const result = await processDocsFunction(['documentation/README.md', '/etc/passwd.md'], mockOptions as GlobalOptions);
+
+    expect(mockAssertLocalPathAllowed).toHaveBeenCalledWith('/etc/passwd.md', mockOptions);
+    expect(readLocalFileFunction.memo).toHaveBeenCalledTimes(1);
+    expect(result).toContain('⛔ Access denied to /etc/passwd.md: path is outside the documentation roots, allow it with --allow-path');
+  });
+  it('should select sections of each document', async () => {
+    const mockOptions = {
+      docsHost: false,
+      urlRegex: /^(https?:)\/\//i,
+      separator: '\n\n---\n\n',
+      llmsFilesPath: '/llms-files'
+    };
+
+    readLocalFileFunction.memo = jest.fn()
+      .mockResolvedValueOnce('# Button\n\n## Usage\n\nButton usage\n\n## Accessibility\n\nButton a11y')
+      .mockResolvedValueOnce('# Card\n\n## Accessibility\n\nCard a11y');
+
+    const result = await processDocsFunction(['button.md', 'card.md'], mockOptions as GlobalOptions, { sections: ['accessibility'] });
+
+    expect(result).toMatchSnapshot('sections');
+  });
+
+  it('should select llms.txt sections and links, in docs-host mode', async () => {
+    const mockOptions = {
+      docsHost: true,
+      urlRegex: /^(https?:)\/\//i,
+      separator: '\n\n---\n\n',
+      llmsFilesPath: '/llms-files'
+    };
+
+    readLocalFileFunction.memo = jest.fn().mockResolvedValue([
+      '# @patternfly/patternfly 6.0.0',
+      '## Design Foundations',
+      '[Colors](https://example.com/colors.md): <classification>Choosing colors</classification>',
+      '[Motion](): <classification></classification>',
+      '## Tokens',
+      '[About tokens](https://example.com/tokens.md)'
+    ].join('\n'));
+
+    const result = await processDocsFunction(['patternfly/6.0.0/llms.txt'], mockOptions as GlobalOptions, { sections: ['design-foundations'] });
+
+    expect(readLocalFileFunction.memo).toHaveBeenCalledWith('/llms-files/patternfly/6.0.0/llms.txt');
+    expect(result).toMatchSnapshot('llms.txt sections');
+  });
+});
+
+describe('loadDocsFunction', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    readLocalFileFunction.memo = jest.fn().mockResolvedValue('local file content');
+    fetchUrlFunction.memo = jest.fn().mockRejectedValue(new Error('Failed to fetch https://example.com/remote.md: 404 Not Found'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return one result per unique input', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00.000Z') });
+
+    const mockOptions = {
+      docsHost: false,
+      urlRegex: /^(https?:)\/\//i,
+      separator: '\n\n---\n\n',
+      llmsFilesPath: '/llms-files'
+    };
+
+    mockAssertLocalPathAllowed
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(createAccessDeniedError('only .md, .mdx, .txt files can be read'));
+
+    const result = await loadDocsFunction(
+      ['local-file.md', '/etc/passwd', 'local-file.md', 'https://example.com/remote.md'],
+      mockOptions as GlobalOptions
+    );
+
+    expect(result).toMatchSnapshot();
+  });
+});
+
+describe('loadDocsFunction, URL limit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    readLocalFileFunction.memo = jest.fn().mockResolvedValue('local file content');
+    fetchUrlFunction.memo = jest.fn().mockResolvedValue('fetched content');
+  });
+
+  it('should skip URLs past the max URLs per call', async () => {
+    const result = await loadDocsFunction(
+      ['https://example.com/a.md', 'local-file.md', 'https://example.com/b.md', 'https://example.com/c.md'],
+      { ...OPTIONS, docsHost: false, fetchOptions: { ...OPTIONS.fetchOptions, maxUrlsPerCall: 2 } }
+    );
+
+    expect(result.map(({ input, status, error }) => [input, status, error])).toEqual([
+      ['https://example.com/a.md', 'loaded', undefined],
+      ['local-file.md', 'loaded', undefined],
+      ['https://example.com/b.md', 'loaded', undefined],
+      ['https://example.com/c.md', 'failed', 'Error: Skipped, at most 2 URLs are loaded per call, request it in another call']
+    ]);
+    expect(fetchUrlFunction.memo).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('toDocsResultContent', () => {
+  it.each([
+    {
+      description: 'local markdown',
+      result: { input: 'documentation/README.md', source: 'documentation/README.md', status: 'loaded', content: 'content' }
+    },
+    {
+      description: 'local llms.txt',
+      result: { input: 'react-core/6.0.0/llms.txt', source: '/llms-files/react-core/6.0.0/llms.txt', status: 'loaded', content: 'links' }
+    },
+    {
+      description: 'URL',
+      result: { input: 'https://example.com/remote.md', source: 'https://example.com/remote.md', status: 'loaded', content: 'content' }
+    },
+    {
+      description: 'failure',
+      result: { input: 'missing.md', source: 'missing.md', status: 'failed', error: 'Error: File not found' }
+    }
+  ])('should return content items, $description', ({ result }) => {
+    const mockOptions = { urlRegex: /^(https?:)\/\//i, contextPath: '/project' };
+
+    expect(toDocsResultContent(result as any, mockOptions as GlobalOptions)).toMatchSnapshot();
+  });
+});
+
+describe('toDocsStructuredContent', () => {
+  it.each([
+    {
+      description: 'loaded',
+      result: {
+        input: 'react-core/6.0.0/llms.txt',
+        source: '/llms-files/react-core/6.0.0/llms.txt',
+        status: 'loaded',
+        content: 'links ✓',
+        fetchedAt: '2025-01-01T00:00:00.000Z'
+      }
+    },
+    {
+      description: 'loaded, without content',
+      result: {
+        input: 'https://example.com/remote.md',
+        source: 'https://example.com/remote.md',
+        status: 'loaded',
+        content: 'content',
+        fetchedAt: '2025-01-01T00:00:00.000Z'
+      },
+      settings: { isContent: false }
+    },
+    {
+      description: 'failure',
+      result: { input: 'missing.md', source: 'missing.md', status: 'failed', error: 'Error: File not found' }
+    }
+  ])('should return structured entries, $description', ({ result, settings }) => {
+    expect(toDocsStructuredContent(result as any, settings)).toMatchSnapshot();
+  });
+});
+
+describe('createDocsToolCallback', () => {
+  it('should load documents with a selection, and return a content block per document', async () => {
+    const load = jest.fn().mockResolvedValue([
+      { input: 'button.md', source: 'button.md', status: 'loaded', content: '# Button' },
+      { input: 'missing.md', source: 'missing.md', status: 'failed', error: 'Error: File not found' }
+    ]);
+    const callback = createDocsToolCallback('loremIpsum', load);
+    const result = await callback({ urlList: ['button.md', 'missing.md'], sections: ['Usage'] });
+
+    expect(load).toHaveBeenCalledWith(['button.md', 'missing.md'], OPTIONS, { sections: ['Usage'], outline: undefined });
+    expect(result.content).toHaveLength(2);
+    expect(result._meta).toEqual({ failed: [{ url: 'missing.md', status: 'failed', error: 'Error: File not found' }] });
+    expect(result).not.toHaveProperty('isError');
+  });
+
+  it('should name the tool in the pagination hint', async () => {
+    const load = jest.fn().mockResolvedValue([
+      { input: 'button.md', source: 'button.md', status: 'loaded', content: `# Button\n\n${'lorem ipsum '.repeat(100)}\n\n## Usage\n\n${'dolor sit '.repeat(100)}` }
+    ]);
+    const callback = createDocsToolCallback('loremIpsum', load);
+    const result = await callback({ urlList: ['button.md'], maxChars: 1000 });
+
+    expect(result.content[0]?.text).toContain('call loremIpsum again with the same urlList');
+  });
+
+  it.each([
+    { description: 'missing urlList', args: {} },
+    { description: 'invalid maxChars', args: { urlList: [], maxChars: 0 } },
+    { description: 'invalid sections', args: { urlList: [], sections: 'Usage' } },
+    { description: 'invalid cursor', args: { urlList: [], cursor: 1 } }
+  ])('should reject invalid arguments, $description', async ({ args }) => {
+    const load = jest.fn();
+
+    await expect(createDocsToolCallback('loremIpsum', load)(args)).rejects.toThrow(/(Missing required|Invalid) parameter/);
+    expect(load).not.toHaveBeenCalled();
+  });
 });
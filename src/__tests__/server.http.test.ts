@@ -0,0 +1,215 @@
+import { request } from 'node:http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getAllowedHosts, startHttpTransport, type HttpSession, type HttpTransportHandle } from '../server.http';
+import { OPTIONS, type GlobalOptions } from '../options';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+};
+
+const headers = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream'
+};
+
+/**
+ * Parse the first JSON-RPC message from an SSE or JSON response body.
+ *
+ * @param response
+ */
+const parseResponse = async (response: Response) => {
+  const text = await response.text();
+  const data = text.split('\n').find(line => line.startsWith('data:'));
+
+  return JSON.parse((data && data.replace(/^data:\s*/, '')) || text);
+};
+
+describe('getAllowedHosts', () => {
+  it.each([
+    { description: 'loopback', host: '127.0.0.1', expected: ['127.0.0.1:3333', 'localhost:3333', '[::1]:3333'] },
+    { description: 'IPv6 loopback', host: '::1', expected: ['127.0.0.1:3333', 'localhost:3333', '[::1]:3333'] },
+    { description: 'all interfaces', host: '0.0.0.0', expected: ['127.0.0.1:3333', 'localhost:3333', '[::1]:3333', '0.0.0.0:3333'] },
+    { description: 'network address', host: '10.0.0.5', expected: ['10.0.0.5:3333'] },
+    {
+      description: 'additional hosts',
+      host: '10.0.0.5',
+      additionalHosts: ['mcp.example.com:3333'],
+      expected: ['10.0.0.5:3333', 'mcp.example.com:3333']
+    }
+  ])('should allow hosts based on the bind address, $description', ({ host, additionalHosts, expected }) => {
+    expect(getAllowedHosts(host, 3333, additionalHosts)).toEqual(expected);
+  });
+});
+
+describe('startHttpTransport', () => {
+  let handle: HttpTransportHandle;
+  let createMcpServer: jest.Mock;
+
+  beforeEach(async () => {
+    createMcpServer = jest.fn(() => {
+      const server = new McpServer({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+
+      server.registerTool('loremIpsum', { description: 'Lorem Ipsum', inputSchema: {} }, async () => ({
+        content: [{ type: 'text', text: 'dolor sit' }]
+      }));
+
+      return server;
+    });
+
+    handle = await startHttpTransport(createMcpServer, { ...OPTIONS, port: 0, host: '127.0.0.1' } as GlobalOptions);
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it('should listen on the configured host and path', () => {
+    expect(handle.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+  });
+
+  it('should create a session per initialize request and route calls by session id', async () => {
+    const sessionIds: string[] = [];
+
+    for (const id of [1, 2]) {
+      const response = await fetch(handle.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ ...initializeRequest, id })
+      });
+
+      expect(response.status).toBe(200);
+      sessionIds.push(response.headers.get('mcp-session-id') as string);
+      await parseResponse(response);
+    }
+
+    expect(new Set(sessionIds).size).toBe(2);
+    expect(handle.sessions.size).toBe(2);
+    expect(createMcpServer).toHaveBeenCalledTimes(2);
+
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: { ...headers, 'mcp-session-id': sessionIds[0] as string },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'loremIpsum', arguments: {} } })
+    });
+    const message = await parseResponse(response);
+
+    expect(message.result).toEqual({ content: [{ type: 'text', text: 'dolor sit' }] });
+  });
+
+  it('should close a session on DELETE', async () => {
+    const initResponse = await fetch(handle.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(initializeRequest)
+    });
+    const sessionId = initResponse.headers.get('mcp-session-id') as string;
+
+    await parseResponse(initResponse);
+
+    const response = await fetch(handle.url, {
+      method: 'DELETE',
+      headers: { ...headers, 'mcp-session-id': sessionId }
+    });
+
+    expect(response.status).toBe(200);
+    expect(handle.sessions.has(sessionId)).toBe(false);
+  });
+
+  it('should close every session server and transport on close', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(initializeRequest)
+    });
+
+    await parseResponse(response);
+
+    const { server, transport } = [...handle.sessions.values()][0] as HttpSession;
+    const serverCloseSpy = jest.spyOn(server, 'close');
+    const transportCloseSpy = jest.spyOn(transport, 'close');
+
+    await handle.close();
+
+    expect(serverCloseSpy).toHaveBeenCalledTimes(1);
+    expect(transportCloseSpy).toHaveBeenCalled();
+    expect(server.isConnected()).toBe(false);
+    expect(handle.sessions.size).toBe(0);
+  });
+
+  it('should reject requests with a Host header that is not allowed', async () => {
+    const { port } = new URL(handle.url);
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = request({
+        host: '127.0.0.1',
+        port,
+        path: '/mcp',
+        method: 'POST',
+        headers: { ...headers, Host: `attacker.example.com:${port}` }
+      }, res => {
+        res.resume();
+        resolve(res.statusCode);
+      });
+
+      req.on('error', reject);
+      req.end(JSON.stringify(initializeRequest));
+    });
+
+    expect(status).toBe(403);
+    expect(handle.sessions.size).toBe(0);
+  });
+
+  it.each([
+    {
+      description: 'a non-initialize request without a session',
+      method: 'POST',
+      path: '/mcp',
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      status: 400
+    },
+    {
+      description: 'an unknown session id',
+      method: 'POST',
+      path: '/mcp',
+      sessionId: 'unknown',
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      status: 400
+    },
+    {
+      description: 'a malformed body',
+      method: 'POST',
+      path: '/mcp',
+      body: '{',
+      status: 400
+    },
+    {
+      description: 'an unknown path',
+      method: 'POST',
+      path: '/lorem',
+      body: JSON.stringify(initializeRequest),
+      status: 404
+    },
+    {
+      description: 'an unsupported method',
+      method: 'PUT',
+      path: '/mcp',
+      status: 405
+    }
+  ])('should reject $description', async ({ method, path, body, sessionId, status }) => {
+    const response = await fetch(handle.url.replace(/\/mcp$/, path), {
+      method,
+      headers: { ...headers, ...(sessionId && { 'mcp-session-id': sessionId }) },
+      ...(body && { body })
+    });
+
+    expect(response.status).toBe(status);
+    expect(await response.json()).toMatchSnapshot();
+    expect(createMcpServer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import { mkdtemp, readdir, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { evictHttpCacheFunction, getHttpCachePath, readHttpCacheFunction, writeHttpCacheFunction } from '../server.httpCache';
+
+describe('httpCache', () => {
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should write and read cached responses', async () => {
+    const entry = {
+      url: 'https://example.com/doc.md',
+      etag: '"v1"',
+      storedAt: '2025-01-01T00:00:00.000Z',
+      body: 'cached content'
+    };
+
+    await expect(writeHttpCacheFunction(entry, cacheDir, 1024)).resolves.toBe(true);
+    await expect(readHttpCacheFunction(entry.url, cacheDir)).resolves.toEqual(entry);
+  });
+
+  it.each([
+    {
+      description: 'missing',
+      content: undefined
+    },
+    {
+      description: 'corrupt',
+      content: '{ "url": '
+    },
+    {
+      description: 'hash collision',
+      content: JSON.stringify({ url: 'https://example.com/other.md', storedAt: '', body: '' })
+    }
+  ])('should treat unreadable entries as misses, $description', async ({ content }) => {
+    if (content) {
+      await writeFile(getHttpCachePath('https://example.com/doc.md', cacheDir), content);
+    }
+
+    await expect(readHttpCacheFunction('https://example.com/doc.md', cacheDir)).resolves.toBeUndefined();
+  });
+
+  it('should evict least recently used entries over the max size', async () => {
+    const urls = ['https://example.com/a.md', 'https://example.com/b.md', 'https://example.com/c.md'];
+
+    for (const [index, url] of urls.entries()) {
+      await writeHttpCacheFunction({ url, storedAt: '', body: 'x'.repeat(100) }, cacheDir, 10_000);
+      await utimes(getHttpCachePath(url, cacheDir), new Date(index * 1000), new Date(index * 1000));
+    }
+
+    // Reading touches the entry, "a" becomes the most recently used
+    await readHttpCacheFunction('https://example.com/a.md', cacheDir);
+
+    const { size } = await stat(getHttpCachePath('https://example.com/a.md', cacheDir));
+    const evicted = await evictHttpCacheFunction(cacheDir, size * 2);
+
+    expect(evicted).toEqual([getHttpCachePath('https://example.com/b.md', cacheDir).replace(`${cacheDir}/`, '')]);
+    expect(await readdir(cacheDir)).toHaveLength(2);
+    await expect(readHttpCacheFunction('https://example.com/a.md', cacheDir)).resolves.toBeDefined();
+  });
+
+  it('should only evict cache entries, leaving other files in the directory', async () => {
+    await writeFile(join(cacheDir, 'package.json'), 'x'.repeat(1000));
+    await writeFile(join(cacheDir, `${'a'.repeat(63)}.json`), 'x'.repeat(1000));
+    await writeHttpCacheFunction({ url: 'https://example.com/a.md', storedAt: '', body: 'x'.repeat(100) }, cacheDir, 10_000);
+
+    await expect(evictHttpCacheFunction(cacheDir, 0)).resolves.toEqual([
+      getHttpCachePath('https://example.com/a.md', cacheDir).replace(`${cacheDir}/`, '')
+    ]);
+    expect((await readdir(cacheDir)).sort()).toEqual([`${'a'.repeat(63)}.json`, 'package.json']);
+  });
+});
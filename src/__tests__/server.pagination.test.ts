@@ -0,0 +1,105 @@
+import { generateHash } from '../server.helpers';
+import {
+  decodeCursor,
+  encodeCursor,
+  getPageSize,
+  MIN_PAGE_CHARS,
+  paginateContent,
+  paginateResult,
+  splitHeadingBlocks
+} from '../server.pagination';
+
+const toSection = (heading: string, length: number) => `${heading}\n\n${'lorem ipsum '.repeat(Math.ceil(length / 12)).slice(0, length)}\n`;
+
+const CONTENT = [
+  toSection('# Documentation from button.md', 600),
+  toSection('## Variants', 600),
+  toSection('## Accessibility', 600),
+  toSection('# Documentation from card.md', 300)
+].join('\n');
+
+describe('splitHeadingBlocks', () => {
+  it('should split on headings outside code fences', () => {
+    expect(splitHeadingBlocks('# One\ntext\n```md\n# Not a heading\n```\n## Two\ntext')).toMatchSnapshot();
+  });
+});
+
+describe('paginateContent', () => {
+  it('should split on heading boundaries', () => {
+    const parts = paginateContent(CONTENT, 1300);
+
+    expect(parts.map(part => part.split('\n')[0])).toEqual([
+      '# Documentation from button.md',
+      '## Accessibility'
+    ]);
+    expect(parts.every(part => part.length <= 1300)).toBe(true);
+  });
+
+  it('should split sections larger than a page on paragraphs, then characters', () => {
+    const parts = paginateContent(`# Long\n\n${'a'.repeat(2500)}\n\n${'b'.repeat(500)}`, 1000);
+
+    expect(parts.map(part => part.length)).toEqual([6, 1000, 1000, 500, 500]);
+    expect(parts.join('').replace(/\s/g, '')).toBe(`#Long${'a'.repeat(2500)}${'b'.repeat(500)}`);
+  });
+});
+
+describe('getPageSize', () => {
+  it.each([
+    { description: 'maxChars', args: { maxChars: 5000 }, expected: 5000 },
+    { description: 'maxTokens', args: { maxTokens: 2000 }, expected: 8000 },
+    { description: 'smallest of both', args: { maxChars: 5000, maxTokens: 1000 }, expected: 4000 },
+    { description: 'minimum', args: { maxChars: 10 }, expected: MIN_PAGE_CHARS }
+  ])('should return a page size, $description', ({ args, expected }) => {
+    expect(getPageSize(args)).toBe(expected);
+  });
+});
+
+describe('paginateResult', () => {
+  it('should return content unchanged without pagination arguments', () => {
+    expect(paginateResult(CONTENT, {})).toBe(CONTENT);
+  });
+
+  it('should return content without a footer when it fits one part', () => {
+    expect(paginateResult('# Short', { maxChars: 5000 })).toBe('# Short');
+  });
+
+  it('should return parts with remaining counts and cursors until the last part', () => {
+    const first = paginateResult(CONTENT, { maxChars: 1000 }, 'call fetchDocs again with the same urlList');
+    const cursor = /cursor: "([^"]+)"/.exec(first)?.[1] as string;
+    const parts = [first];
+
+    let next = cursor;
+
+    while (next) {
+      const part = paginateResult(CONTENT, { cursor: next });
+
+      parts.push(part);
+      next = /cursor: "([^"]+)"/.exec(part)?.[1] as string;
+    }
+
+    expect(first).toContain('Part 1 of 3, 2 remaining. To continue, call fetchDocs again with the same urlList and cursor: ');
+    expect(decodeCursor(cursor)).toEqual({ part: 1, maxChars: 1000, hash: expect.any(String) });
+    expect(parts).toHaveLength(3);
+    expect(parts[2]).toMatch(/Part 3 of 3, none remaining\.$/);
+  });
+
+  it.each([
+    {
+      description: 'malformed cursor',
+      cursor: 'not-a-cursor',
+      error: 'Invalid cursor: not-a-cursor'
+    },
+    {
+      description: 'changed content',
+      cursor: encodeCursor({ part: 1, maxChars: 1000, hash: 'previous' }),
+      error: 'Invalid cursor: the content changed since the cursor was created'
+    },
+    {
+      description: 'missing part',
+      cursor: encodeCursor({ part: 9, maxChars: 1000, hash: generateHash(CONTENT) }),
+      error: 'Invalid cursor: part 10 of 3 does not exist'
+    }
+  ])('should reject cursors, $description', ({ cursor, error }) => {
+    expect(() => paginateResult(CONTENT, { cursor })).toThrow(error);
+  });
+});
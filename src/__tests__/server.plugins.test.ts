@@ -0,0 +1,113 @@
+import { createPluginLogger, isMcpPlugin, loadPluginsFunction, registerPluginsFunction, type McpPlugin } from '../server.plugins';
+import { fetchUrlFunction, readLocalFileFunction } from '../server.getResources';
+import { OPTIONS } from '../options';
+import { type McpTool } from '../server';
+
+const TOOL: McpTool = ['acmeTokens', { description: 'Acme design tokens', inputSchema: {} }, jest.fn()];
+
+describe('isMcpPlugin', () => {
+  it.each([
+    { description: 'plugin', value: { name: 'acme', register: () => {} }, expected: true },
+    { description: 'missing register', value: { name: 'acme' }, expected: false },
+    { description: 'empty name', value: { name: '', register: () => {} }, expected: false },
+    { description: 'function', value: () => {}, expected: false },
+    { description: 'undefined', value: undefined, expected: false }
+  ])('should check plugins, $description', ({ value, expected }) => {
+    expect(isMcpPlugin(value)).toBe(expected);
+  });
+});
+
+describe('createPluginLogger', () => {
+  it('should prefix messages with the plugin name, on stderr', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const logger = createPluginLogger('acme');
+
+    logger.info('loaded', 2);
+    logger.warn('slow');
+    logger.error('failed');
+
+    expect(consoleErrorSpy.mock.calls).toEqual([
+      ['[acme]', 'loaded', 2],
+      ['[acme] warning:', 'slow'],
+      ['[acme] error:', 'failed']
+    ]);
+
+    consoleErrorSpy.mockRestore();
+  });
+});
+
+describe('loadPluginsFunction', () => {
+  it('should return plugin objects, and log them to stderr', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const plugin = { name: 'acme', register: jest.fn() };
+
+    await expect(loadPluginsFunction([plugin])).resolves.toEqual([plugin]);
+    await expect(loadPluginsFunction()).resolves.toEqual([]);
+    expect(consoleErrorSpy.mock.calls).toEqual([['Loaded plugin acme']]);
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it.each([
+    {
+      description: 'invalid plugin object',
+      plugins: [{ name: 'acme' } as McpPlugin],
+      error: 'Invalid plugin: expected an object with a name and a register function'
+    },
+    {
+      description: 'missing module',
+      plugins: ['./missing-plugin.mjs'],
+      error: 'Failed to load plugin ./missing-plugin.mjs'
+    }
+  ])('should reject plugins, $description', async ({ plugins, error }) => {
+    await expect(loadPluginsFunction(plugins)).rejects.toThrow(error);
+  });
+});
+
+describe('registerPluginsFunction', () => {
+  it('should register tools, resources and prompts with a plugin context', async () => {
+    const register = jest.fn(({ registerTool }) => registerTool(TOOL));
+    const registrations = await registerPluginsFunction([{ name: 'acme', register }], OPTIONS);
+    const [context] = register.mock.calls[0] || [];
+
+    expect(registrations).toEqual({ tools: [TOOL], resources: [], prompts: [] });
+    expect(context).toEqual(expect.objectContaining({
+      options: OPTIONS,
+      loaders: { fetchUrl: fetchUrlFunction.memo, readLocalFile: readLocalFileFunction.memo },
+      logger: expect.objectContaining({ info: expect.any(Function) })
+    }));
+  });
+
+  it('should register plugins in order, with async register functions', async () => {
+    const registrations = await registerPluginsFunction([
+      { name: 'first', register: async ({ registerTool }) => registerTool(TOOL) },
+      { name: 'second', register: ({ registerPrompt }) => registerPrompt(['acmeReview', { description: '', argsSchema: {} }, jest.fn()]) }
+    ]);
+
+    expect(registrations.tools.map(([name]) => name)).toEqual(['acmeTokens']);
+    expect(registrations.prompts.map(([name]) => name)).toEqual(['acmeReview']);
+  });
+
+  it.each([
+    {
+      description: 'built-in name',
+      plugins: [{ name: 'acme', register: ({ registerTool }) => registerTool(['fetchDocs', TOOL[1], TOOL[2]]) }],
+      error: 'Failed to register plugin acme: tool "fetchDocs" is already registered'
+    },
+    {
+      description: 'duplicate plugin name',
+      plugins: [
+        { name: 'first', register: ({ registerTool }) => registerTool(TOOL) },
+        { name: 'second', register: ({ registerTool }) => registerTool(TOOL) }
+      ],
+      error: 'Failed to register plugin second: tool "acmeTokens" is already registered'
+    },
+    {
+      description: 'register error',
+      plugins: [{ name: 'acme', register: () => Promise.reject(new Error('missing token')) }],
+      error: 'Failed to register plugin acme: missing token'
+    }
+  ] as Array<{ description: string; plugins: McpPlugin[]; error: string }>)('should reject plugins, $description', async ({ plugins, error }) => {
+    await expect(registerPluginsFunction(plugins, OPTIONS, { tools: ['fetchDocs'] })).rejects.toThrow(error);
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  getActiveHosts,
+  getRetryDelay,
+  isRetryableError,
+  limitHostFunction,
+  parseRetryAfter,
+  resetHostQueues,
+  retryRequestFunction
+} from '../server.requestPolicy';
+import { OPTIONS, type GlobalOptions } from '../options';
+
+const FETCH_OPTIONS: GlobalOptions = {
+  ...OPTIONS,
+  fetchOptions: { retries: 2, baseDelay: 100, maxDelay: 1000, maxConcurrencyPerHost: 2, maxUrlsPerCall: 15 }
+};
+
+describe('parseRetryAfter', () => {
+  it.each([
+    { description: 'seconds', value: '3', expected: 3000 },
+    { description: 'HTTP date', value: 'Wed, 01 Jan 2025 00:00:05 GMT', expected: 5000 },
+    { description: 'past HTTP date', value: 'Tue, 31 Dec 2024 23:59:00 GMT', expected: 0 },
+    { description: 'invalid', value: 'soon', expected: undefined },
+    { description: 'missing', value: undefined, expected: undefined }
+  ])('should parse Retry-After headers, $description', ({ value, expected }) => {
+    expect(parseRetryAfter(value, Date.parse('2025-01-01T00:00:00.000Z'))).toBe(expected);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it.each([
+    { description: 'first retry', attempt: 0, random: 0.5, expected: 50 },
+    { description: 'second retry', attempt: 1, random: 1, expected: 200 },
+    { description: 'capped', attempt: 8, random: 1, expected: 1000 },
+    { description: 'no jitter', attempt: 2, random: 0, expected: 0 }
+  ])('should back off exponentially with jitter, $description', ({ attempt, random, expected }) => {
+    expect(getRetryDelay(attempt, FETCH_OPTIONS, () => random)).toBe(expected);
+  });
+});
+
+describe('isRetryableError', () => {
+  const abortError = new Error('This operation was aborted');
+
+  abortError.name = 'AbortError';
+
+  it.each([
+    { description: 'network error', error: new TypeError('fetch failed'), expected: true },
+    {
+      description: 'temporary DNS failure',
+      error: new TypeError('fetch failed', { cause: Object.assign(new Error('getaddrinfo EAI_AGAIN example.com'), { code: 'EAI_AGAIN' }) }),
+      expected: true
+    },
+    {
+      description: 'unknown host',
+      error: new TypeError('fetch failed', { cause: Object.assign(new Error('getaddrinfo ENOTFOUND example.com'), { code: 'ENOTFOUND' }) }),
+      expected: false
+    },
+    { description: 'timeout', error: abortError, expected: true },
+    { description: 'URL not allowed', error: new Error('URL not allowed: example.com is not in the allowlist'), expected: false },
+    { description: 'undefined', error: undefined, expected: false }
+  ])('should check errors, $description', ({ error, expected }) => {
+    expect(isRetryableError(error)).toBe(expected);
+  });
+});
+
+describe('retryRequestFunction', () => {
+  beforeEach(() => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    {
+      description: 'server errors',
+      responses: [{ status: 502 }, { status: 503 }, { status: 200 }],
+      expected: { status: 200, calls: 3 }
+    },
+    {
+      description: 'retries exhausted',
+      responses: [{ status: 500 }, { status: 500 }, { status: 500 }, { status: 200 }],
+      expected: { status: 500, calls: 3 }
+    },
+    {
+      description: 'not found',
+      responses: [{ status: 404 }, { status: 200 }],
+      expected: { status: 404, calls: 1 }
+    },
+    {
+      description: 'Retry-After',
+      responses: [{ status: 429, retryAfter: '1' }, { status: 200 }],
+      expected: { status: 200, calls: 2, waits: [1000] }
+    },
+    {
+      description: 'Retry-After of zero seconds',
+      responses: [{ status: 503, retryAfter: '0' }, { status: 200 }],
+      expected: { status: 200, calls: 2, waits: [0] }
+    },
+    {
+      description: 'Retry-After ignored for server errors',
+      responses: [{ status: 500, retryAfter: '0' }, { status: 200 }],
+      expected: { status: 200, calls: 2, waits: [50] }
+    },
+    {
+      description: 'Retry-After longer than the max delay',
+      responses: [{ status: 429, retryAfter: '60' }, { status: 200 }],
+      expected: { status: 429, calls: 1, waits: [] }
+    }
+  ])('should retry responses, $description', async ({ responses, expected }) => {
+    const request = jest.fn();
+    const wait = jest.fn().mockResolvedValue(undefined);
+
+    responses.forEach(response => request.mockResolvedValueOnce(response));
+
+    const response = await retryRequestFunction(request, FETCH_OPTIONS, wait);
+
+    expect(response.status).toBe(expected.status);
+    expect(request).toHaveBeenCalledTimes(expected.calls);
+    expect(wait).toHaveBeenCalledTimes(expected.calls - 1);
+
+    if (expected.waits) {
+      expect(wait.mock.calls.map(([ms]) => ms)).toEqual(expected.waits);
+    }
+  });
+
+  it('should retry network errors and throw the last error', async () => {
+    const request = jest.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const wait = jest.fn().mockResolvedValue(undefined);
+
+    await expect(retryRequestFunction(request, FETCH_OPTIONS, wait)).rejects.toThrow('fetch failed');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry other errors', async () => {
+    const request = jest.fn().mockRejectedValue(new Error('URL not allowed: example.com is not in the allowlist'));
+    const wait = jest.fn();
+
+    await expect(retryRequestFunction(request, FETCH_OPTIONS, wait)).rejects.toThrow('URL not allowed');
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(wait).not.toHaveBeenCalled();
+  });
+});
+
+describe('limitHostFunction', () => {
+  afterEach(() => {
+    resetHostQueues();
+  });
+
+  it('should limit concurrent requests per host, in order', async () => {
+    const resolvers: Array<() => void> = [];
+    const started: string[] = [];
+    const request = (name: string) => () => new Promise<string>(resolve => {
+      started.push(name);
+      resolvers.push(() => resolve(name));
+    });
+
+    const results = Promise.all([
+      limitHostFunction('https://example.com/a.md', request('a'), FETCH_OPTIONS),
+      limitHostFunction('https://example.com/b.md', request('b'), FETCH_OPTIONS),
+      limitHostFunction('https://example.com/c.md', request('c'), FETCH_OPTIONS),
+      limitHostFunction('https://docs.example.com/d.md', request('d'), FETCH_OPTIONS)
+    ]);
+
+    await Promise.resolve();
+    expect(started).toEqual(['a', 'b', 'd']);
+
+    resolvers.shift()?.();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(started).toEqual(['a', 'b', 'd', 'c']);
+
+    resolvers.splice(0).forEach(resolve => resolve());
+
+    await expect(results).resolves.toEqual(['a', 'b', 'c', 'd']);
+    expect(getActiveHosts()).toEqual([]);
+  });
+
+  it('should release slots when requests fail', async () => {
+    await expect(limitHostFunction('https://example.com/a.md', () => Promise.reject(new Error('failed')), FETCH_OPTIONS))
+      .rejects.toThrow('failed');
+    expect(getActiveHosts()).toEqual([]);
+  });
+});
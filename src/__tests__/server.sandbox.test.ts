@@ -0,0 +1,98 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { assertLocalPathAllowedFunction, getSandboxRoots, isAccessDeniedError, isPathInRoot } from '../server.sandbox';
+import { OPTIONS, type GlobalOptions } from '../options';
+
+describe('isPathInRoot', () => {
+  it.each([
+    { description: 'root', root: '/docs', path: '/docs', expected: true },
+    { description: 'nested', root: '/docs', path: '/docs/components/button.md', expected: true },
+    { description: 'sibling prefix', root: '/docs', path: '/docs-private/secret.md', expected: false },
+    { description: 'traversal', root: '/docs', path: '/docs/../etc/passwd', expected: false },
+    { description: 'outside', root: '/docs', path: '/etc/passwd', expected: false }
+  ])('should check paths, $description', ({ root, path, expected }) => {
+    expect(isPathInRoot(root, path)).toBe(expected);
+  });
+});
+
+describe('getSandboxRoots', () => {
+  it('should return documentation roots and allowed paths', () => {
+    expect(getSandboxRoots({ ...OPTIONS, allowPaths: ['team-docs', '/srv/docs'] })).toMatchSnapshot();
+  });
+
+  it('should return local custom documentation sources', () => {
+    expect(getSandboxRoots({
+      ...OPTIONS,
+      docsSources: [
+        { namespace: '@acme', type: 'directory', pathOrUrl: '/srv/acme/docs' },
+        { namespace: '@acme', type: 'llms.txt', pathOrUrl: '/srv/acme/llms/llms.txt' },
+        { namespace: '@acme', type: 'catalog', pathOrUrl: 'https://docs.example.com/catalog.json' }
+      ]
+    }).slice(2)).toEqual(['/srv/acme/docs', '/srv/acme/llms']);
+  });
+});
+
+describe('assertLocalPathAllowedFunction', () => {
+  let contextPath: string;
+  let options: GlobalOptions;
+
+  beforeAll(async () => {
+    contextPath = await mkdtemp(join(tmpdir(), 'patternfly-mcp-sandbox-'));
+    options = {
+      ...OPTIONS,
+      contextPath,
+      docsPath: join(contextPath, 'documentation'),
+      llmsFilesPath: join(contextPath, 'llms-files'),
+      allowPaths: ['team-docs']
+    };
+
+    await mkdir(join(contextPath, 'documentation'), { recursive: true });
+    await mkdir(join(contextPath, 'team-docs'), { recursive: true });
+    await mkdir(join(contextPath, 'private'), { recursive: true });
+    await writeFile(join(contextPath, 'documentation', 'README.md'), '# Docs');
+    await writeFile(join(contextPath, 'team-docs', 'guide.mdx'), '# Guide');
+    await writeFile(join(contextPath, 'private', 'secret.md'), 'secret');
+    await symlink(join(contextPath, 'private', 'secret.md'), join(contextPath, 'documentation', 'link.md'));
+  });
+
+  afterAll(async () => {
+    await rm(contextPath, { recursive: true, force: true });
+  });
+
+  it.each([
+    { description: 'relative documentation path', path: 'documentation/README.md' },
+    { description: 'allowed path', path: 'team-docs/guide.mdx' },
+    { description: 'missing file inside a root', path: 'documentation/missing.txt' }
+  ])('should allow paths, $description', async ({ path }) => {
+    await expect(assertLocalPathAllowedFunction(path, options)).resolves.toBeUndefined();
+  });
+
+  it.each([
+    {
+      description: 'outside the roots',
+      path: 'private/secret.md',
+      error: 'path is outside the documentation roots, allow it with --allow-path'
+    },
+    {
+      description: 'traversal',
+      path: 'documentation/../private/secret.md',
+      error: 'path is outside the documentation roots, allow it with --allow-path'
+    },
+    {
+      description: 'symlink outside the roots',
+      path: 'documentation/link.md',
+      error: 'path links outside the documentation roots'
+    },
+    {
+      description: 'disallowed extension',
+      path: '/etc/passwd',
+      error: 'only .md, .mdx, .txt files can be read'
+    }
+  ])('should deny paths, $description', async ({ path, error }) => {
+    const result = await assertLocalPathAllowedFunction(path, options).catch(denied => denied);
+
+    expect(isAccessDeniedError(result)).toBe(true);
+    expect(result.message).toBe(error);
+  });
+});
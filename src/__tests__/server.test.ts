@@ -1,14 +1,17 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { runServer } from '../server';
-import { type GlobalOptions } from '../options';
+import { startHttpTransport } from '../server.http';
+import { OPTIONS, type GlobalOptions } from '../options';
 
 // Mock dependencies
 jest.mock('@modelcontextprotocol/sdk/server/mcp.js');
 jest.mock('@modelcontextprotocol/sdk/server/stdio.js');
+jest.mock('../server.http');
 
 const MockMcpServer = McpServer as jest.MockedClass<typeof McpServer>;
 const MockStdioServerTransport = StdioServerTransport as jest.MockedClass<typeof StdioServerTransport>;
+const mockStartHttpTransport = startHttpTransport as jest.MockedFunction<typeof startHttpTransport>;
 
 describe('runServer', () => {
   let mockServer: any;
@@ -23,6 +26,8 @@ describe('runServer', () => {
     // Mock server instance
     mockServer = {
       registerTool: jest.fn(),
+      registerResource: jest.fn(),
+      registerPrompt: jest.fn(),
       connect: jest.fn().mockResolvedValue(undefined),
       close: jest.fn().mockResolvedValue(undefined)
     };
@@ -103,6 +108,73 @@ describe('runServer', () => {
     }).toMatchSnapshot('console');
   });
 
+  it('should attempt to run server over HTTP, create a server per session', async () => {
+    mockStartHttpTransport.mockResolvedValue({
+      url: 'http://127.0.0.1:3333/mcp',
+      close: jest.fn()
+    } as any);
+
+    const options = { ...OPTIONS, http: true, port: 3333 } as GlobalOptions;
+    const tools = [
+      jest.fn().mockReturnValue([
+        'loremIpsum',
+        { description: 'Lorem Ipsum', inputSchema: {} },
+        jest.fn()
+      ])
+    ];
+
+    await runServer(options, { tools });
+
+    const [createSessionServer, httpOptions] = mockStartHttpTransport.mock.calls[0] || [];
+
+    expect(httpOptions).toBe(options);
+    expect(MockStdioServerTransport).not.toHaveBeenCalled();
+    expect(MockMcpServer).not.toHaveBeenCalled();
+
+    createSessionServer?.();
+    createSessionServer?.();
+
+    expect(tools[0]).toHaveBeenCalledTimes(1);
+    expect({
+      info: consoleInfoSpy.mock.calls,
+      registerTool: mockServer.registerTool.mock.calls,
+      mcpServer: MockMcpServer.mock.calls.length,
+      log: consoleLogSpy.mock.calls
+    }).toMatchSnapshot('http');
+  });
+
+  it('should register plugin tools, resources and prompts after the built-in ones', async () => {
+    const tools = [
+      jest.fn().mockReturnValue(['loremIpsum', { description: 'Lorem Ipsum', inputSchema: {} }, jest.fn()])
+    ];
+    const plugins = [{
+      name: 'acme',
+      register: ({ registerTool, registerPrompt }: any) => {
+        registerTool(['acmeTokens', { description: 'Acme design tokens', inputSchema: {} }, jest.fn()]);
+        registerPrompt(['acmeReview', { description: 'Acme review', argsSchema: {} }, jest.fn()]);
+      }
+    }];
+
+    await runServer(undefined, { tools, resources: [], prompts: [], plugins });
+
+    expect(mockServer.registerTool.mock.calls.map(([name]: [string]) => name)).toEqual(['loremIpsum', 'acmeTokens']);
+    expect(mockServer.registerPrompt.mock.calls.map(([name]: [string]) => name)).toEqual(['acmeReview']);
+    expect(consoleInfoSpy).toHaveBeenCalledWith('Registered plugin tool: acmeTokens');
+  });
+
+  it('should reject plugins registering built-in names', async () => {
+    const tools = [
+      jest.fn().mockReturnValue(['loremIpsum', { description: 'Lorem Ipsum', inputSchema: {} }, jest.fn()])
+    ];
+    const plugins = [{
+      name: 'acme',
+      register: ({ registerTool }: any) => registerTool(['loremIpsum', { description: '', inputSchema: {} }, jest.fn()])
+    }];
+
+    await expect(runServer(undefined, { tools, plugins })).rejects.toThrow('Failed to register plugin acme: tool "loremIpsum" is already registered');
+    expect(MockMcpServer).not.toHaveBeenCalled();
+  });
+
   it('should handle errors during server creation', async () => {
     const error = new Error('Server creation failed');
 
@@ -0,0 +1,220 @@
+import { lookup as lookupCallback } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { join } from 'node:path';
+import { getSyncUrlsFunction } from '../docs.sync';
+import {
+  assertUrlAllowedFunction,
+  getUrlDispatcher,
+  isBlockedAddress,
+  lookupPublicAddress,
+  matchUrlAllowlist,
+  PUBLIC_ADDRESS_DISPATCHER
+} from '../server.urlPolicy';
+import { OPTIONS } from '../options';
+
+jest.mock('node:dns');
+jest.mock('node:dns/promises');
+
+const mockLookup = lookup as jest.MockedFunction<any>;
+const mockLookupCallback = lookupCallback as jest.MockedFunction<any>;
+
+describe('isBlockedAddress', () => {
+  it.each([
+    { address: '127.0.0.1', expected: true },
+    { address: '10.1.2.3', expected: true },
+    { address: '172.20.0.1', expected: true },
+    { address: '192.168.1.1', expected: true },
+    { address: '169.254.169.254', expected: true },
+    { address: '0.0.0.0', expected: true },
+    { address: '::1', expected: true },
+    { address: 'fd00::1', expected: true },
+    { address: 'fe80::1', expected: true },
+    { address: '::ffff:127.0.0.1', expected: true },
+    { address: '::ffff:7f00:1', expected: true },
+    { address: '::ffff:a9fe:a9fe', expected: true },
+    { address: '0:0:0:0:0:ffff:c0a8:101', expected: true },
+    { address: '185.199.108.133', expected: false },
+    { address: '2606:50c0:8000::154', expected: false },
+    { address: '::ffff:185.199.108.133', expected: false },
+    { address: '::ffff:b9c7:6c85', expected: false }
+  ])('should check address ranges, $address', ({ address, expected }) => {
+    expect(isBlockedAddress(address)).toBe(expected);
+  });
+});
+
+describe('matchUrlAllowlist', () => {
+  it.each([
+    {
+      description: 'URL prefix',
+      url: 'https://raw.githubusercontent.com/patternfly/patternfly-org/main/README.md',
+      allowlist: ['https://raw.githubusercontent.com/patternfly/'],
+      expected: 'https://raw.githubusercontent.com/patternfly/'
+    },
+    {
+      description: 'URL prefix, different path',
+      url: 'https://raw.githubusercontent.com/acme/secrets/main/README.md',
+      allowlist: ['https://raw.githubusercontent.com/patternfly/'],
+      expected: undefined
+    },
+    {
+      description: 'URL prefix, lookalike host',
+      url: 'https://raw.githubusercontent.com.example.com/patternfly/README.md',
+      allowlist: ['https://raw.githubusercontent.com/patternfly/'],
+      expected: undefined
+    },
+    {
+      description: 'host',
+      url: 'https://docs.example.com/guide.md',
+      allowlist: ['docs.example.com'],
+      expected: 'docs.example.com'
+    },
+    {
+      description: 'host and port',
+      url: 'http://127.0.0.1:3000/guide.md',
+      allowlist: ['127.0.0.1:3000'],
+      expected: '127.0.0.1:3000'
+    },
+    {
+      description: 'wildcard host',
+      url: 'https://docs.example.com/guide.md',
+      allowlist: ['*.example.com'],
+      expected: '*.example.com'
+    },
+    {
+      description: 'wildcard host, lookalike host',
+      url: 'https://docs.notexample.com/guide.md',
+      allowlist: ['*.example.com'],
+      expected: undefined
+    }
+  ])('should match allowlist entries, $description', ({ url, allowlist, expected }) => {
+    expect(matchUrlAllowlist(url, allowlist)).toBe(expected);
+  });
+});
+
+describe('assertUrlAllowedFunction', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow default PatternFly URLs resolving to public addresses', async () => {
+    mockLookup.mockResolvedValueOnce([{ address: '185.199.108.133', family: 4 }]);
+
+    await expect(assertUrlAllowedFunction(`${OPTIONS.pfExternal}/README.md`, OPTIONS)).resolves.toBeUndefined();
+    expect(mockLookup).toHaveBeenCalledWith('raw.githubusercontent.com', { all: true });
+  });
+
+  it.each([
+    {
+      description: 'not in the allowlist',
+      url: 'http://169.254.169.254/latest/meta-data',
+      error: 'URL not allowed: 169.254.169.254 is not in the allowlist, allow it with --allow-url'
+    },
+    {
+      description: 'unsupported protocol',
+      url: 'file:///etc/passwd',
+      error: 'URL not allowed: file:///etc/passwd uses an unsupported protocol'
+    },
+    {
+      description: 'invalid URL',
+      url: 'https://',
+      error: 'URL not allowed: https:// is not a valid URL'
+    }
+  ])('should reject URLs, $description', async ({ url, error }) => {
+    await expect(assertUrlAllowedFunction(url, OPTIONS)).rejects.toThrow(error);
+  });
+
+  it('should reject allowlisted hosts resolving to private addresses', async () => {
+    mockLookup.mockResolvedValueOnce([{ address: '185.199.108.133', family: 4 }, { address: '10.0.0.5', family: 4 }]);
+
+    await expect(assertUrlAllowedFunction(`${OPTIONS.pfExternal}/README.md`, OPTIONS))
+      .rejects
+      .toThrow('URL not allowed: raw.githubusercontent.com resolves to the private address 10.0.0.5');
+  });
+
+  it('should allow docs fallback URLs resolving to public addresses', async () => {
+    mockLookup.mockResolvedValueOnce([{ address: '93.184.215.14', family: 4 }]);
+
+    await expect(assertUrlAllowedFunction('https://mirror.example.com/raw/patternfly/README.md', {
+      ...OPTIONS,
+      docsFallbackUrl: 'https://mirror.example.com/raw'
+    })).resolves.toBeUndefined();
+    expect(mockLookup).toHaveBeenCalledWith('mirror.example.com', { all: true });
+  });
+
+  it('should allow explicitly allowed URLs without resolving them', async () => {
+    await expect(assertUrlAllowedFunction('http://127.0.0.1:3000/guide.md', { ...OPTIONS, allowUrls: ['http://127.0.0.1:3000'] }))
+      .resolves
+      .toBeUndefined();
+    expect(mockLookup).not.toHaveBeenCalled();
+  });
+});
+
+describe('bundled catalogs', () => {
+  it('should allow every catalog and llms-files URL with the default options', async () => {
+    mockLookup.mockResolvedValue([{ address: '185.199.108.133', family: 4 }]);
+
+    const urls = await getSyncUrlsFunction({ ...OPTIONS, llmsFilesPath: join(process.cwd(), 'llms-files') });
+    const rejected = (await Promise.all(urls.map(url => assertUrlAllowedFunction(url, OPTIONS).then(() => undefined, () => url))))
+      .filter(Boolean);
+
+    expect(urls).toEqual(expect.arrayContaining([expect.stringMatching(/patternfly-org\/.+\/develop\.md$/)]));
+    expect(rejected).toEqual([]);
+
+    mockLookup.mockReset();
+  });
+});
+
+describe('lookupPublicAddress', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each([
+    {
+      description: 'public address',
+      addresses: [{ address: '185.199.108.133', family: 4 }],
+      options: {},
+      expected: [null, '185.199.108.133', 4]
+    },
+    {
+      description: 'public addresses, all',
+      addresses: [{ address: '185.199.108.133', family: 4 }, { address: '2606:50c0:8000::154', family: 6 }],
+      options: { all: true },
+      expected: [null, [{ address: '185.199.108.133', family: 4 }, { address: '2606:50c0:8000::154', family: 6 }]]
+    }
+  ])('should resolve hosts, $description', ({ addresses, options, expected }) => {
+    const callback = jest.fn();
+
+    mockLookupCallback.mockImplementationOnce((_hostname: string, _options: unknown, done: Function) => done(null, addresses));
+    lookupPublicAddress('docs.example.com', options, callback);
+
+    expect(mockLookupCallback).toHaveBeenCalledWith('docs.example.com', { ...options, all: true }, expect.any(Function));
+    expect(callback).toHaveBeenCalledWith(...expected);
+  });
+
+  it('should fail for hosts resolving to private addresses, e.g. after DNS rebinding', () => {
+    const callback = jest.fn();
+
+    mockLookupCallback.mockImplementationOnce((_hostname: string, _options: unknown, done: Function) =>
+      done(null, [{ address: '185.199.108.133', family: 4 }, { address: '::ffff:7f00:1', family: 6 }]));
+    lookupPublicAddress('docs.example.com', {}, callback);
+
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'URL not allowed: docs.example.com resolves to the private address ::ffff:7f00:1'
+    }), '');
+  });
+});
+
+describe('getUrlDispatcher', () => {
+  it.each([
+    { description: 'allowlisted URL', url: `${OPTIONS.pfExternal}/README.md`, options: OPTIONS, expected: PUBLIC_ADDRESS_DISPATCHER },
+    {
+      description: 'explicitly allowed URL',
+      url: 'http://intranet.example.com/guide.md',
+      options: { ...OPTIONS, allowUrls: ['intranet.example.com'] },
+      expected: undefined
+    }
+  ])('should limit connections to public addresses, $description', ({ url, options, expected }) => {
+    expect(getUrlDispatcher(url, options)).toBe(expected);
+  });
+});
@@ -0,0 +1,95 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getComponentPropsTool } from '../tool.getComponentProps';
+import { getComponentPropsFunction } from '../docs.props';
+
+// Mock dependencies
+jest.mock('../docs.props');
+jest.mock('../server.caching', () => ({
+  memo: jest.fn(fn => fn)
+}));
+
+const mockGetComponentProps = getComponentPropsFunction as jest.MockedFunction<typeof getComponentPropsFunction>;
+
+describe('getComponentPropsTool', () => {
+  it('should have a consistent return structure', () => {
+    const tool = getComponentPropsTool();
+
+    expect(tool).toMatchSnapshot('structure');
+  });
+});
+
+describe('getComponentPropsTool, callback', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each([
+    {
+      description: 'default',
+      value: {
+        component: 'Button',
+        examplesUrl: 'https://example.com/Button.md',
+        interfaces: [
+          {
+            name: 'Button',
+            interfaceName: 'ButtonProps',
+            source: 'https://example.com/Button.tsx',
+            props: [
+              { name: 'variant', type: '\'primary\' | \'secondary\'', defaultValue: 'ButtonVariant.primary', required: false, description: 'Adds button variant styles', deprecated: false },
+              { name: 'isSmall', type: 'boolean', required: true, description: 'Use isInline instead', deprecated: true }
+            ]
+          }
+        ],
+        missing: []
+      }
+    },
+    {
+      description: 'with missing prop components',
+      value: {
+        component: 'Dropdown',
+        examplesUrl: 'https://example.com/Dropdown.md',
+        interfaces: [],
+        missing: ['Dropdown', 'DropdownItem']
+      }
+    }
+  ])('should return props, $description', async ({ value }) => {
+    mockGetComponentProps.mockResolvedValue(value);
+    const [_name, _schema, callback] = getComponentPropsTool();
+    const result = await callback({ componentName: 'button' });
+
+    expect(mockGetComponentProps).toHaveBeenCalledWith('button', expect.any(Object));
+    expect(result).toMatchSnapshot();
+  });
+
+  it.each([
+    {
+      description: 'with missing componentName',
+      error: 'Missing required parameter: componentName',
+      args: {}
+    },
+    {
+      description: 'when componentName is not a string',
+      error: 'must be a string',
+      args: { componentName: ['Button'] }
+    }
+  ])('should handle errors, $description', async ({ error, args }) => {
+    const [_name, _schema, callback] = getComponentPropsTool();
+
+    await expect(callback(args)).rejects.toThrow(McpError);
+    await expect(callback(args)).rejects.toThrow(error);
+  });
+
+  it('should handle unknown components', async () => {
+    mockGetComponentProps.mockResolvedValue(undefined);
+    const [_name, _schema, callback] = getComponentPropsTool();
+
+    await expect(callback({ componentName: 'LoremIpsum' })).rejects.toThrow('No examples documentation found');
+  });
+
+  it('should handle loading errors', async () => {
+    mockGetComponentProps.mockRejectedValue(new Error('Network error'));
+    const [_name, _schema, callback] = getComponentPropsTool();
+
+    await expect(callback({ componentName: 'Button' })).rejects.toThrow('Failed to load component props');
+  });
+});
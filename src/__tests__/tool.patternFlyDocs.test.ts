@@ -1,14 +1,19 @@
 import { McpError } from '@modelcontextprotocol/sdk/types.js';
 import { usePatternFlyDocsTool } from '../tool.patternFlyDocs';
-import { processDocsFunction } from '../server.getResources';
+import { loadDocsFunction, type DocsResult } from '../server.getResources';
 
 // Mock dependencies
-jest.mock('../server.getResources');
+jest.mock('../server.getResources', () => ({
+  ...jest.requireActual('../server.getResources'),
+  loadDocsFunction: jest.fn()
+}));
 jest.mock('../server.caching', () => ({
   memo: jest.fn(fn => fn)
 }));
 
-const mockProcessDocs = processDocsFunction as jest.MockedFunction<typeof processDocsFunction>;
+const mockLoadDocs = loadDocsFunction as jest.MockedFunction<typeof loadDocsFunction>;
+
+const toLoaded = (input: string, content = `${input} content`): DocsResult => ({ input, source: input, status: 'loaded', content });
 
 describe('usePatternFlyDocsTool', () => {
   beforeEach(() => {
@@ -30,40 +35,40 @@ describe('usePatternFlyDocsTool, callback', () => {
   it.each([
     {
       description: 'default',
-      value: 'components/button.md',
+      value: [toLoaded('components/button.md')],
       urlList: ['components/button.md']
     },
     {
       description: 'multiple files',
-      value: 'combined docs content',
+      value: [toLoaded('components/button.md'), toLoaded('components/card.md'), toLoaded('components/table.md')],
       urlList: ['components/button.md', 'components/card.md', 'components/table.md']
     },
     {
       description: 'with empty files',
-      value: 'trimmed content',
+      value: [toLoaded('components/button.md'), toLoaded('components/card.md'), toLoaded('components/table.md')],
       urlList: ['components/button.md', '', '   ', 'components/card.md', 'components/table.md']
     },
     {
       description: 'with empty urlList',
-      value: 'empty content',
+      value: [],
       urlList: []
     },
     {
       description: 'with empty strings in a urlList',
-      value: 'trimmed and empty content',
+      value: [],
       urlList: ['', ' ']
     },
     {
       description: 'with invalid urlList',
-      value: 'invalid path',
+      value: [toLoaded('invalid-url')],
       urlList: ['invalid-url']
     }
   ])('should parse parameters, $description', async ({ value, urlList }) => {
-    mockProcessDocs.mockResolvedValue(value);
+    mockLoadDocs.mockResolvedValue(value);
     const [_name, _schema, callback] = usePatternFlyDocsTool();
     const result = await callback({ urlList });
 
-    expect(mockProcessDocs).toHaveBeenCalledWith(urlList);
+    expect(mockLoadDocs).toHaveBeenCalledWith(urlList);
     expect(result).toMatchSnapshot();
   });
 
@@ -91,10 +96,122 @@ describe('usePatternFlyDocsTool, callback', () => {
   });
 
   it('should handle processing errors', async () => {
-    mockProcessDocs.mockRejectedValue(new Error('File not found'));
+    mockLoadDocs.mockRejectedValue(new Error('File not found'));
     const [_name, _schema, callback] = usePatternFlyDocsTool();
 
     await expect(callback({ urlList: ['missing.md'] })).rejects.toThrow(McpError);
     await expect(callback({ urlList: ['missing.md'] })).rejects.toThrow('Failed to fetch documentation');
   });
+
+  it('should reject a PatternFly version without a catalog', async () => {
+    const [_name, _schema, callback] = usePatternFlyDocsTool();
+
+    await expect(callback({ urlList: ['components/button.md'], version: '4' })).rejects.toThrow(McpError);
+    await expect(callback({ urlList: ['components/button.md'], version: '4' })).rejects.toThrow('No documentation catalog');
+    expect(mockLoadDocs).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    {
+      description: 'with zero maxChars',
+      args: { maxChars: 0 },
+      error: 'Invalid parameter: maxChars (must be a positive integer)'
+    },
+    {
+      description: 'with fractional maxTokens',
+      args: { maxTokens: 1.5 },
+      error: 'Invalid parameter: maxTokens (must be a positive integer)'
+    },
+    {
+      description: 'with a non-string cursor',
+      args: { cursor: 1 },
+      error: 'Invalid parameter: cursor (must be a string)'
+    },
+    {
+      description: 'with a malformed cursor',
+      args: { cursor: 'not-a-cursor' },
+      error: 'Invalid cursor: not-a-cursor'
+    }
+  ])('should handle pagination errors, $description', async ({ args, error }) => {
+    mockLoadDocs.mockResolvedValue([toLoaded('components/button.md', '# Doc\n\ncontent')]);
+    const [_name, _schema, callback] = usePatternFlyDocsTool();
+
+    await expect(callback({ urlList: ['components/button.md'], ...args })).rejects.toThrow(McpError);
+    await expect(callback({ urlList: ['components/button.md'], ...args })).rejects.toThrow(error);
+  });
+
+  it('should paginate results with a continuation cursor', async () => {
+    mockLoadDocs.mockResolvedValue([
+      toLoaded('components/button.md', `# Button\n\n${'a'.repeat(900)}`),
+      toLoaded('components/card.md', `# Card\n\n${'b'.repeat(900)}`)
+    ]);
+    const [_name, _schema, callback] = usePatternFlyDocsTool();
+    const first = await callback({ urlList: ['components/button.md', 'components/card.md'], maxChars: 1000 });
+    const cursor = /cursor: "([^"]+)"/.exec(first.content[0].text)?.[1];
+    const second = await callback({ urlList: ['components/button.md', 'components/card.md'], cursor });
+
+    expect(first.content[0].text).toContain('Part 1 of 2, 1 remaining. To continue, call usePatternFlyDocs again with the same urlList');
+    expect(second.content[0].text).toMatch(/^# Documentation from components\/card.md\n\n# Card/);
+    expect(second.content[0].text).toContain('Part 2 of 2, none remaining.');
+  });
+
+  it.each([
+    {
+      description: 'sections',
+      args: { sections: ['Accessibility'] },
+      selection: { sections: ['Accessibility'], outline: undefined }
+    },
+    {
+      description: 'outline',
+      args: { outline: true },
+      selection: { sections: undefined, outline: true }
+    }
+  ])('should pass a section selection, $description', async ({ args, selection }) => {
+    mockLoadDocs.mockResolvedValue([toLoaded('components/button.md', '## Accessibility')]);
+    const [_name, _schema, callback] = usePatternFlyDocsTool();
+
+    await callback({ urlList: ['components/button.md'], ...args });
+
+    expect(mockLoadDocs).toHaveBeenCalledWith(['components/button.md'], expect.any(Object), selection);
+  });
+
+  it.each([
+    {
+      description: 'with non-array sections',
+      args: { sections: 'Accessibility' },
+      error: 'Invalid parameter: sections (must be an array of strings)'
+    },
+    {
+      description: 'with a non-boolean outline',
+      args: { outline: 'yes' },
+      error: 'Invalid parameter: outline (must be a boolean)'
+    }
+  ])('should handle section errors, $description', async ({ args, error }) => {
+    const [_name, _schema, callback] = usePatternFlyDocsTool();
+
+    await expect(callback({ urlList: ['components/button.md'], ...args })).rejects.toThrow(error);
+    expect(mockLoadDocs).not.toHaveBeenCalled();
+  });
+  it.each([
+    {
+      description: 'partial failure',
+      value: [
+        toLoaded('components/button.md'),
+        { input: 'missing.md', source: 'missing.md', status: 'failed', error: 'Error: File not found' } as DocsResult
+      ]
+    },
+    {
+      description: 'all failed',
+      value: [
+        { input: '/etc/passwd.md', source: '/etc/passwd.md', status: 'denied', error: 'path is outside the documentation roots' } as DocsResult,
+        { input: 'missing.md', source: 'missing.md', status: 'failed', error: 'Error: File not found' } as DocsResult
+      ]
+    }
+  ])('should report failed documents, $description', async ({ value }) => {
+    mockLoadDocs.mockResolvedValue(value);
+    const [_name, _schema, callback] = usePatternFlyDocsTool();
+    const result = await callback({ urlList: value.map(({ input }) => input) });
+
+    expect(result).toMatchSnapshot();
+  });
 });
@@ -0,0 +1,88 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { searchDocsContentTool } from '../tool.searchDocsContent';
+import { DOCS_INDEX, indexLocalDocsFunction } from '../docs.index';
+
+// Mock dependencies
+jest.mock('../docs.index', () => ({
+  ...jest.requireActual('../docs.index'),
+  indexLocalDocsFunction: jest.fn()
+}));
+
+const mockIndexLocalDocs = indexLocalDocsFunction as jest.MockedFunction<typeof indexLocalDocsFunction>;
+
+describe('searchDocsContentTool', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should have a consistent return structure', () => {
+    const tool = searchDocsContentTool();
+
+    expect(tool).toMatchSnapshot('structure');
+    expect(mockIndexLocalDocs).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('searchDocsContentTool, callback', () => {
+  beforeAll(() => {
+    DOCS_INDEX.add('documentation/guidelines/README.md', '# Guidelines\n## Styling rules\nUse PatternFly design tokens.');
+    DOCS_INDEX.add('https://example.com/modal.md', '# Modal\nModals trap focus while open.');
+  });
+
+  afterAll(() => {
+    DOCS_INDEX.remove('documentation/guidelines/README.md');
+    DOCS_INDEX.remove('https://example.com/modal.md');
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockIndexLocalDocs.mockResolvedValue(2);
+  });
+
+  it.each([
+    {
+      description: 'heading anchor',
+      args: { query: 'styling tokens' }
+    },
+    {
+      description: 'fetched page',
+      args: { query: 'focus' }
+    },
+    {
+      description: 'with limit',
+      args: { query: 'tokens focus', limit: 1 }
+    },
+    {
+      description: 'no results',
+      args: { query: 'lorem ipsum' }
+    }
+  ])('should return passages, $description', async ({ args }) => {
+    const [_name, _schema, callback] = searchDocsContentTool();
+    const result = await callback(args);
+
+    expect(result).toMatchSnapshot();
+  });
+
+  it.each([
+    {
+      description: 'with missing query',
+      error: 'Missing required parameter: query',
+      args: {}
+    },
+    {
+      description: 'when query is not a string',
+      error: 'must be a string',
+      args: { query: 1 }
+    },
+    {
+      description: 'with an invalid limit',
+      error: 'Invalid parameter: limit',
+      args: { query: 'tokens', limit: 100 }
+    }
+  ])('should handle errors, $description', async ({ error, args }) => {
+    const [_name, _schema, callback] = searchDocsContentTool();
+
+    await expect(callback(args)).rejects.toThrow(McpError);
+    await expect(callback(args)).rejects.toThrow(error);
+  });
+});
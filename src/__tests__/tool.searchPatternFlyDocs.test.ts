@@ -0,0 +1,105 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { searchPatternFlyDocsTool } from '../tool.searchPatternFlyDocs';
+import { getSearchEntriesFunction } from '../docs.search';
+import { createDocEntry } from '../docs.catalog';
+
+// Mock dependencies
+jest.mock('../docs.search', () => ({
+  ...jest.requireActual('../docs.search'),
+  getSearchEntriesFunction: jest.fn()
+}));
+jest.mock('../server.caching', () => ({
+  memo: jest.fn(fn => fn)
+}));
+
+const mockGetSearchEntries = getSearchEntriesFunction as jest.MockedFunction<typeof getSearchEntriesFunction>;
+
+describe('searchPatternFlyDocsTool', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should have a consistent return structure', () => {
+    const tool = searchPatternFlyDocsTool();
+
+    expect(tool).toMatchSnapshot('structure');
+  });
+});
+
+describe('searchPatternFlyDocsTool, callback', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetSearchEntries.mockResolvedValue([
+      createDocEntry({
+        displayName: 'Select',
+        category: 'component',
+        section: 'examples',
+        packageName: '@patternfly/react-core',
+        pathOrUrl: 'https://example.com/Select.md',
+        description: 'React examples and props for the Select component'
+      }),
+      createDocEntry({
+        displayName: 'Colors',
+        category: 'guide',
+        section: 'guide',
+        packageName: '@patternfly/patternfly',
+        pathOrUrl: 'https://example.com/colors.md',
+        description: ''
+      })
+    ]);
+  });
+
+  it.each([
+    {
+      description: 'default',
+      args: { query: 'select' }
+    },
+    {
+      description: 'with limit',
+      args: { query: 'select colors', limit: 1 }
+    },
+    {
+      description: 'without a description',
+      args: { query: 'colors' }
+    },
+    {
+      description: 'no results',
+      args: { query: 'lorem ipsum' }
+    }
+  ])('should return results, $description', async ({ args }) => {
+    const [_name, _schema, callback] = searchPatternFlyDocsTool();
+    const result = await callback(args);
+
+    expect(result).toMatchSnapshot();
+  });
+
+  it.each([
+    {
+      description: 'with missing query',
+      error: 'Missing required parameter: query',
+      args: {}
+    },
+    {
+      description: 'when query is not a string',
+      error: 'must be a string',
+      args: { query: ['select'] }
+    },
+    {
+      description: 'with an invalid limit',
+      error: 'Invalid parameter: limit',
+      args: { query: 'select', limit: 0 }
+    }
+  ])('should handle errors, $description', async ({ error, args }) => {
+    const [_name, _schema, callback] = searchPatternFlyDocsTool();
+
+    await expect(callback(args)).rejects.toThrow(McpError);
+    await expect(callback(args)).rejects.toThrow(error);
+  });
+
+  it('should handle search errors', async () => {
+    mockGetSearchEntries.mockRejectedValue(new Error('Read error'));
+    const [_name, _schema, callback] = searchPatternFlyDocsTool();
+
+    await expect(callback({ query: 'select' })).rejects.toThrow('Failed to search documentation');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * PatternFly version the bundled catalogs describe
+ */
+const DOCS_VERSION = '6.0.0';
+
+/**
+ * Catalog entry category
+ */
+type DocCategory = 'component' | 'layout' | 'chart' | 'guide';
+
+/**
+ * Catalog entry section kind
+ */
+type DocSection = 'design-guidelines' | 'accessibility' | 'examples' | 'guide';
+
+/**
+ * Typed documentation catalog entry
+ *
+ * @property name - Programmatic identifier, kebab-case, e.g. "about-modal"
+ * @property displayName - Display name, e.g. "AboutModal"
+ * @property category - Entry category, e.g. "component"
+ * @property section - Section kind, e.g. "accessibility"
+ * @property packageName - Package the documentation applies to, e.g. "@patternfly/react-core"
+ * @property version - PatternFly version, e.g. "6.0.0"
+ * @property pathOrUrl - External URL or local path of the documentation
+ * @property description - Short description of the documentation
+ * @property namespace - Label namespace, e.g. "@acme" for custom documentation sources, defaults to "@patternfly"
+ * @property fallbacks - Paths or URLs tried in order when `pathOrUrl` fails to load, e.g. a bundled local copy
+ */
+interface DocEntry {
+  name: string;
+  displayName: string;
+  category: DocCategory;
+  section: DocSection;
+  packageName: string;
+  version: string;
+  pathOrUrl: string;
+  description: string;
+  namespace?: string;
+  fallbacks?: string[];
+}
+
+/**
+ * llms.txt link
+ *
+ * @property title - Link title, e.g. "@patternfly/AboutModal - Examples"
+ * @property url - Link target, links without a target aren't rendered
+ * @property classification - `<classification>` guidance, omitted when empty
+ */
+interface LlmsTxtLink {
+  title: string;
+  url: string;
+  classification?: string;
+}
+
+/**
+ * Catalog query, every defined property must match. String values are compared loosely, see `normalizeDocName`.
+ */
+type DocQuery = Partial<Pick<DocEntry, 'name' | 'category' | 'section' | 'packageName' | 'version'>>;
+
+/**
+ * Section display labels
+ */
+const DOC_SECTION_LABELS: Record<DocSection, string> = {
+  'design-guidelines': 'Design Guidelines',
+  accessibility: 'Accessibility',
+  examples: 'Examples',
+  guide: 'Guide'
+};
+
+/**
+ * Normalize a name for loose comparison, "AboutModal", "about-modal" and "aboutmodal" are equal.
+ *
+ * @param value
+ */
+const normalizeDocName = (value: unknown) => String(value).toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Convert a display name, e.g. "AboutModal" or "Bar Chart", to a kebab-case name.
+ *
+ * @param displayName
+ */
+const toDocName = (displayName: string) =>
+  displayName
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+
+/**
+ * Create a catalog entry, applying defaults.
+ *
+ * @param entry
+ */
+const createDocEntry = (
+  entry: Omit<DocEntry, 'name' | 'version'> & Partial<Pick<DocEntry, 'name' | 'version'>>
+): DocEntry => ({
+  ...entry,
+  name: entry.name || toDocName(entry.displayName),
+  version: entry.version || DOCS_VERSION
+});
+
+/**
+ * Default label namespace
+ */
+const DOC_NAMESPACE = '@patternfly';
+
+/**
+ * Link label for an entry, e.g. "@patternfly/AboutModal - Accessibility", "@patternfly/Charts - Bar Chart",
+ * "@acme/ProductCard"
+ *
+ * @param entry
+ */
+const getDocLabel = (entry: DocEntry) => {
+  const namespace = entry.namespace || DOC_NAMESPACE;
+
+  switch (entry.category) {
+    case 'chart':
+      return `${namespace}/Charts - ${entry.displayName}`;
+    case 'guide':
+      return `${namespace}/${entry.displayName}`;
+    default:
+      return `${namespace}/${entry.displayName} - ${DOC_SECTION_LABELS[entry.section]}`;
+  }
+};
+
+/**
+ * Render an entry as a markdown link.
+ *
+ * @param entry
+ */
+const renderDocLink = (entry: DocEntry) => `[${getDocLabel(entry)}](${entry.pathOrUrl})`;
+
+/**
+ * Render entries as markdown links, one per line.
+ *
+ * @param entries
+ */
+const renderDocLinks = (entries: DocEntry[]) => entries.map(renderDocLink).join('\n');
+
+/**
+ * Convert a catalog entry to an llms.txt link, labeled and described like the bundled catalogs. Links are returned as is.
+ *
+ * @param entry
+ */
+const toLlmsTxtLink = (entry: DocEntry | LlmsTxtLink): LlmsTxtLink => {
+  if ('pathOrUrl' in entry) {
+    return { title: getDocLabel(entry), url: entry.pathOrUrl, classification: entry.description };
+  }
+
+  return entry;
+};
+
+/**
+ * Render an llms.txt link, `[title](url)` followed by its `<classification>` when set.
+ *
+ * @param link
+ */
+const renderLlmsTxtLink = ({ title, url, classification }: LlmsTxtLink) =>
+  `[${title}](${url})${(classification && `: <classification>${classification}</classification>`) || ''}`;
+
+/**
+ * Render llms.txt, a `#` title and `>` summary followed by `##` sections of links with `<classification>`
+ * descriptions. Catalog entries are rendered with their label and description. Links without a target, sections
+ * without links, and empty titles and summaries are skipped.
+ *
+ * @param settings
+ * @param settings.title - llms.txt title, e.g. "@patternfly/react-core 6.0.0"
+ * @param settings.summary - Blockquote summary after the title
+ * @param settings.sections - Section titles and entries, an untitled section is rendered without a heading
+ */
+const renderLlmsTxt = ({ title, summary, sections }: {
+  title?: string;
+  summary?: string;
+  sections: Array<{ title?: string; entries: Array<DocEntry | LlmsTxtLink> }>;
+}) =>
+  [
+    (title && `# ${title}`) || '',
+    (summary && `> ${summary}`) || '',
+    ...sections.map(section => {
+      const links = section.entries.map(toLlmsTxtLink).filter(({ url }) => url);
+
+      return (links.length &&
+        [...((section.title && [`## ${section.title}`]) || []), ...links.map(renderLlmsTxtLink)].join('\n')) || '';
+    })
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+/**
+ * Filter entries by query.
+ *
+ * @param entries
+ * @param query
+ */
+const queryDocs = (entries: DocEntry[], query: DocQuery = {}) =>
+  entries.filter(entry =>
+    Object.entries(query).every(([key, value]) =>
+      value === undefined || normalizeDocName(entry[key as keyof DocQuery]) === normalizeDocName(value)));
+
+export {
+  DOCS_VERSION,
+  DOC_NAMESPACE,
+  DOC_SECTION_LABELS,
+  createDocEntry,
+  getDocLabel,
+  normalizeDocName,
+  queryDocs,
+  renderDocLink,
+  renderDocLinks,
+  renderLlmsTxt,
+  renderLlmsTxtLink,
+  toDocName,
+  toLlmsTxtLink,
+  type DocCategory,
+  type DocEntry,
+  type DocQuery,
+  type DocSection,
+  type LlmsTxtLink
+};
@@ -1,21 +1,155 @@
-import { PF_EXTERNAL_CHARTS_COMPONENTS, PF_EXTERNAL_CHARTS_DESIGN } from './options';
+import { join } from 'node:path';
+import { OPTIONS, PF_EXTERNAL_CHARTS_COMPONENTS, PF_EXTERNAL_CHARTS_DESIGN } from './options';
+import { createDocEntry, type DocEntry } from './docs.catalog';
 
-const CHART_DOCS = [
-  `[@patternfly/Charts - Colors for Charts](${PF_EXTERNAL_CHARTS_COMPONENTS}/ChartTheme/examples/ChartTheme.md)`,
-  `[@patternfly/Charts - Target Chart](${PF_EXTERNAL_CHARTS_DESIGN}/area-chart/area-chart.md)`,
-  `[@patternfly/Charts - Bar Chart](${PF_EXTERNAL_CHARTS_DESIGN}/bar-chart/bar-chart.md)`,
-  `[@patternfly/Charts - Box Plot Chart](${PF_EXTERNAL_CHARTS_DESIGN}/ChartBoxPlot/examples/ChartBoxPlot.md)`,
-  `[@patternfly/Charts - Bullet Chart](${PF_EXTERNAL_CHARTS_DESIGN}/bullet-chart/bullet-chart.md)`,
-  `[@patternfly/Charts - Donut Chart](${PF_EXTERNAL_CHARTS_DESIGN}/donut-chart/donut-chart.md)`,
-  `[@patternfly/Charts - Donut Utilization Chart](${PF_EXTERNAL_CHARTS_DESIGN}/donut-utilization-chart/donut-utilization-chart.md)`,
-  `[@patternfly/Charts - Line Chart](${PF_EXTERNAL_CHARTS_DESIGN}/line-chart/line-chart.md)`,
-  `[@patternfly/Charts - Pie Chart](${PF_EXTERNAL_CHARTS_DESIGN}/pie-chart/pie-chart.md)`,
-  `[@patternfly/Charts - Scatter Chart](${PF_EXTERNAL_CHARTS_DESIGN}/scatter-chart/scatter-chart.md)`,
-  `[@patternfly/Charts - Sparkline Chart](${PF_EXTERNAL_CHARTS_DESIGN}/sparkline-chart/sparkline-chart.md)`,
-  `[@patternfly/Charts - Stack Chart](${PF_EXTERNAL_CHARTS_DESIGN}/stacked-chart/stacked-chart.md)`,
-  `[@patternfly/Charts - Threshold Chart](${PF_EXTERNAL_CHARTS_DESIGN}/threshold-chart/threshold-chart.md)`,
-  `[@patternfly/Charts - Legend](${PF_EXTERNAL_CHARTS_DESIGN}/legend-chart/legend-chart.md)`,
-  `[@patternfly/Charts - Tooltip](${PF_EXTERNAL_CHARTS_DESIGN}/tooltip-chart/tooltip-chart.md)`
+/**
+ * Bundled local copy in a docs directory, tried when a chart entry fails to load
+ *
+ * @param docsPath
+ */
+const createChartFallbacks = (docsPath = OPTIONS.docsPath) => [join(docsPath, 'charts', 'README.md')];
+
+/**
+ * Bundled local copy, shared by every chart entry, see `setLocalDocsPath`
+ */
+const CHART_FALLBACKS = createChartFallbacks();
+
+const CHART_DOCS: DocEntry[] = [
+  createDocEntry({
+    displayName: 'Colors for Charts',
+    category: 'chart',
+    section: 'examples',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_COMPONENTS}/ChartTheme/examples/ChartTheme.md`,
+    description: 'React examples and props for the chart theme and colors',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Target Chart',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/area-chart/area-chart.md`,
+    description: 'Design guidelines and usage for the Target Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Bar Chart',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/bar-chart/bar-chart.md`,
+    description: 'Design guidelines and usage for the Bar Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Box Plot Chart',
+    category: 'chart',
+    section: 'examples',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/ChartBoxPlot/examples/ChartBoxPlot.md`,
+    description: 'React examples and props for the Box Plot Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Bullet Chart',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/bullet-chart/bullet-chart.md`,
+    description: 'Design guidelines and usage for the Bullet Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Donut Chart',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/donut-chart/donut-chart.md`,
+    description: 'Design guidelines and usage for the Donut Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Donut Utilization Chart',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/donut-utilization-chart/donut-utilization-chart.md`,
+    description: 'Design guidelines and usage for the Donut Utilization Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Line Chart',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/line-chart/line-chart.md`,
+    description: 'Design guidelines and usage for the Line Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Pie Chart',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/pie-chart/pie-chart.md`,
+    description: 'Design guidelines and usage for the Pie Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Scatter Chart',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/scatter-chart/scatter-chart.md`,
+    description: 'Design guidelines and usage for the Scatter Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Sparkline Chart',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/sparkline-chart/sparkline-chart.md`,
+    description: 'Design guidelines and usage for the Sparkline Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Stack Chart',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/stacked-chart/stacked-chart.md`,
+    description: 'Design guidelines and usage for the Stack Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Threshold Chart',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/threshold-chart/threshold-chart.md`,
+    description: 'Design guidelines and usage for the Threshold Chart',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Legend',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/legend-chart/legend-chart.md`,
+    description: 'Design guidelines and usage for chart legends',
+    fallbacks: CHART_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Tooltip',
+    category: 'chart',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: `${PF_EXTERNAL_CHARTS_DESIGN}/tooltip-chart/tooltip-chart.md`,
+    description: 'Design guidelines and usage for chart tooltips',
+    fallbacks: CHART_FALLBACKS
+  })
 ];
 
-export { CHART_DOCS };
+export { CHART_DOCS, CHART_FALLBACKS, createChartFallbacks };
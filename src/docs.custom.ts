@@ -0,0 +1,41 @@
+import { getDocLabel, normalizeDocName, type DocEntry } from './docs.catalog';
+
+/**
+ * Entries loaded from custom documentation sources at startup, see `loadDocSourcesFunction`
+ */
+const CUSTOM_DOCS: DocEntry[] = [];
+
+/**
+ * Replace the custom documentation entries.
+ *
+ * @param entries
+ */
+const setCustomDocs = (entries: DocEntry[]) => {
+  CUSTOM_DOCS.splice(0, CUSTOM_DOCS.length, ...entries);
+
+  return CUSTOM_DOCS;
+};
+
+/**
+ * Find a custom entry by namespaced name, e.g. "@acme/ProductCard" or "@acme/product-card". Full labels, e.g.
+ * "@acme/ProductCard - Examples", also match.
+ *
+ * @param value
+ * @param entries
+ */
+const findCustomDoc = (value: string, entries = CUSTOM_DOCS) => {
+  const [namespace = '', ...nameParts] = value.trim().split('/');
+  const name = normalizeDocName(nameParts.join('/'));
+
+  if (!namespace.startsWith('@') || !name) {
+    return undefined;
+  }
+
+  return entries.find(entry =>
+    entry.namespace === namespace &&
+    (normalizeDocName(entry.name) === name ||
+      normalizeDocName(entry.displayName) === name ||
+      normalizeDocName(getDocLabel(entry)) === normalizeDocName(value)));
+};
+
+export { CUSTOM_DOCS, findCustomDoc, setCustomDocs };
@@ -0,0 +1,47 @@
+import { CHART_DOCS } from './docs.chart';
+import { COMPONENT_DOCS } from './docs.component';
+import { CUSTOM_DOCS, findCustomDoc } from './docs.custom';
+import { LAYOUT_DOCS } from './docs.layout';
+import { LOCAL_DOCS } from './docs.local';
+import { OPTIONS } from './options';
+
+/**
+ * URL prefix mirrored by `--docs-fallback-url`
+ */
+const DOCS_FALLBACK_PREFIX = 'https://raw.githubusercontent.com/';
+
+/**
+ * Fallback mirror URL for a raw.githubusercontent.com URL, its path appended to `docsFallbackUrl`, e.g.
+ * "https://mirror.example.com/raw/patternfly/patternfly-org/main/...".
+ *
+ * @param url
+ * @param options
+ */
+const getDocsFallbackUrl = (url: string, options = OPTIONS) =>
+  (options.docsFallbackUrl &&
+    url.startsWith(DOCS_FALLBACK_PREFIX) &&
+    `${options.docsFallbackUrl.replace(/\/+$/, '')}/${url.slice(DOCS_FALLBACK_PREFIX.length)}`) ||
+  undefined;
+
+/**
+ * Ordered sources a document is loaded from: the resolved path or URL, the fallback mirror URL, then the catalog
+ * entry's fallbacks. Entries are matched by path or URL, or by namespaced name for custom documentation.
+ *
+ * @param input - Path, URL or namespaced name as passed in
+ * @param source - Resolved, versioned, path or URL
+ * @param options
+ * @param entries - Catalog entries
+ */
+const getDocSources = (
+  input: string,
+  source: string,
+  options = OPTIONS,
+  entries = [...COMPONENT_DOCS, ...LAYOUT_DOCS, ...CHART_DOCS, ...LOCAL_DOCS, ...CUSTOM_DOCS]
+) => {
+  const entry = entries.find(({ pathOrUrl }) => pathOrUrl === input || pathOrUrl === source) || findCustomDoc(input);
+
+  return [...new Set([source, getDocsFallbackUrl(source, options), ...(entry?.fallbacks || [])])]
+    .filter((value): value is string => Boolean(value));
+};
+
+export { DOCS_FALLBACK_PREFIX, getDocSources, getDocsFallbackUrl };
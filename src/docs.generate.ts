@@ -0,0 +1,311 @@
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { basename, join, relative, resolve, sep } from 'node:path';
+import {
+  createDocEntry,
+  normalizeDocName,
+  renderLlmsTxt,
+  type DocCategory,
+  type DocEntry,
+  type DocSection
+} from './docs.catalog';
+import { getDocSummary } from './docs.sources';
+import { OPTIONS, PF_EXTERNAL_REF } from './options';
+
+/**
+ * Directories skipped when walking a source checkout
+ */
+const GENERATE_SKIP_DIRS = ['node_modules', 'dist', 'build', 'coverage'];
+
+/**
+ * Package documentation without a matching examples page is listed under
+ */
+const GENERATE_DEFAULT_PACKAGE = '@patternfly/patternfly';
+
+/**
+ * Frontmatter sections listed by component category, other sections are guides
+ */
+const GENERATE_CATEGORIES: Record<string, DocCategory> = {
+  components: 'component',
+  layouts: 'layout',
+  charts: 'chart'
+};
+
+/**
+ * Entry order within a component, matching the bundled catalogs
+ */
+const GENERATE_SECTION_ORDER: DocSection[] = ['design-guidelines', 'accessibility', 'examples', 'guide'];
+
+/**
+ * Parse `key: value` frontmatter lines, quotes removed. Lists and nested values are skipped.
+ *
+ * @param content
+ */
+const parseFrontmatter = (content: string) => {
+  const frontmatter = /^---\r?\n([\s\S]*?)\r?\n---/.exec(content)?.[1] || '';
+
+  return Object.fromEntries(frontmatter.split(/\r?\n/).flatMap(line => {
+    const match = /^([\w-]+):\s*(.*?)\s*$/.exec(line);
+    const value = (match?.[2] || '').replace(/^(['"])(.*)\1$/, '$2');
+
+    return (match?.[1] && value && !value.startsWith('[') && [[match[1], value]]) || [];
+  })) as Record<string, string>;
+};
+
+/**
+ * Normalize a catalog version, e.g. "6.x", "v6.4" or "6", to the `llms-files` directory layout, e.g. "6.0.0".
+ *
+ * @param version
+ * @throws {Error} When the version is invalid
+ */
+const normalizeCatalogVersion = (version: string) => {
+  const parts = String(version).trim().replace(/^v/i, '').split('.');
+
+  if (parts.length > 3 || !parts.every(part => /^(\d+|x)$/i.test(part)) || !/^\d+$/.test(parts[0] || '')) {
+    throw new Error(`Invalid value for --version: expected a version like 6.x or 6.0.0, received "${version}"`);
+  }
+
+  return [...parts, '0', '0'].slice(0, 3).map(part => part.replace(/x/i, '0')).join('.');
+};
+
+/**
+ * GitHub repository of a source checkout, e.g. "patternfly/patternfly-react", from its `origin` remote. Defaults to
+ * the checkout directory name under the PatternFly organization.
+ *
+ * @param source
+ */
+const getSourceRepoFunction = async (source: string) => {
+  const config = await readFile(join(source, '.git', 'config'), 'utf-8').catch(() => '');
+  const origin = /\[remote "origin"\][^[]*?url\s*=\s*(\S+)/.exec(config)?.[1] || '';
+
+  return /github\.com[:/]([\w.-]+\/[\w.-]+?)(?:\.git)?\/?$/.exec(origin)?.[1] || `patternfly/${basename(source)}`;
+};
+
+/**
+ * Git ref of a source checkout, generated URLs point at it. The checked out branch, e.g. "refs/heads/v6", or for a
+ * detached checkout the tag pointing at it, e.g. "refs/tags/v6.0.0", or the commit. Defaults to the PatternFly
+ * default branch ref when the checkout has no git metadata.
+ *
+ * @param source
+ */
+const getSourceRefFunction = async (source: string) => {
+  const head = (await readFile(join(source, '.git', 'HEAD'), 'utf-8').catch(() => '')).trim();
+  const branch = /^ref:\s*(refs\/\S+)$/.exec(head)?.[1];
+
+  if (branch || !/^[0-9a-f]{40}$/.test(head)) {
+    return branch || PF_EXTERNAL_REF;
+  }
+
+  const packedRefs = (await readFile(join(source, '.git', 'packed-refs'), 'utf-8').catch(() => '')).split(/\r?\n/);
+  const looseTags = await readdir(join(source, '.git', 'refs', 'tags')).catch(() => [] as string[]);
+  const looseTag = (await Promise.all(looseTags.sort().map(async tag =>
+    ((await readFile(join(source, '.git', 'refs', 'tags', tag), 'utf-8').catch(() => '')).trim() === head &&
+      `refs/tags/${tag}`) || undefined))).find(Boolean);
+  const packedTag = packedRefs
+    .map((line, index) => {
+      const [sha, ref] = line.split(' ');
+      const peeled = /^\^([0-9a-f]{40})$/.exec(packedRefs[index + 1] || '')?.[1];
+
+      return (ref?.startsWith('refs/tags/') && (sha === head || peeled === head) && ref) || undefined;
+    })
+    .find(Boolean);
+
+  return looseTag || packedTag || head;
+};
+
+/**
+ * List documentation pages in a source checkout, relative to the checkout: `examples/*.md` files and markdown files
+ * under `design-guidelines` and `accessibility` directories. Hidden, dependency and build directories are skipped.
+ *
+ * @param source
+ * @param dir
+ */
+const listSourceDocsFunction = async (source: string, dir = source): Promise<string[]> => {
+  const dirents = (await readdir(dir, { withFileTypes: true }))
+    .filter(dirent => !dirent.name.startsWith('.') && !GENERATE_SKIP_DIRS.includes(dirent.name))
+    .sort((first, second) => first.name.localeCompare(second.name));
+
+  const files = await Promise.all(dirents.map(async dirent => {
+    const path = join(dir, dirent.name);
+
+    if (dirent.isDirectory()) {
+      return listSourceDocsFunction(source, path);
+    }
+
+    const segments = relative(source, path).split(sep);
+    const isDoc = segments.at(-2) === 'examples' ||
+      segments.includes('design-guidelines') ||
+      segments.includes('accessibility');
+
+    return (dirent.isFile() && dirent.name.endsWith('.md') && isDoc && [segments.join('/')]) || [];
+  }));
+
+  return files.flat();
+};
+
+/**
+ * Package name for an examples page, from the closest `packages/<name>/package.json`, or the checkout
+ * `package.json`.
+ *
+ * @param source
+ * @param path - Path relative to the checkout
+ */
+const getSourcePackageFunction = async (source: string, path: string) => {
+  const packageDir = /^packages\/[^/]+\//.exec(path)?.[0] || '';
+  const readName = async (dir: string) =>
+    JSON.parse(await readFile(join(source, dir, 'package.json'), 'utf-8').catch(() => '{}'))?.name as string | undefined;
+
+  return (packageDir && await readName(packageDir)) || await readName('') || GENERATE_DEFAULT_PACKAGE;
+};
+
+/**
+ * Catalog entries for the documentation pages in a source checkout, URLs point at the checkout's ref, see
+ * `getSourceRefFunction`. Pages without a frontmatter `id` are skipped.
+ * Descriptions use the frontmatter `classification` or `description`, then the page summary. Design guidelines and
+ * accessibility pages are listed under the package of the matching examples page.
+ *
+ * @param sources - Source checkout directories
+ * @param version - Catalog version
+ */
+const getSourceDocEntriesFunction = async (sources: string[], version: string) => {
+  const pages = (await Promise.all(sources.map(async source => {
+    const repo = await getSourceRepoFunction(source);
+    const ref = await getSourceRefFunction(source);
+
+    return Promise.all((await listSourceDocsFunction(source)).map(async path => {
+      const content = await readFile(join(source, path), 'utf-8');
+      const frontmatter = parseFrontmatter(content);
+      const segments = path.split('/');
+      const docSection: DocSection = (segments.at(-2) === 'examples' && 'examples') ||
+        (segments.includes('accessibility') && 'accessibility') ||
+        'design-guidelines';
+      const category = GENERATE_CATEGORIES[frontmatter.section || ''] || 'guide';
+
+      if (!frontmatter.id) {
+        return undefined;
+      }
+
+      return {
+        group: frontmatter.section || 'guides',
+        source,
+        path,
+        entry: createDocEntry({
+          displayName: ((category === 'component' || category === 'layout') &&
+            frontmatter.id.replace(/(?:^|[\s-]+)(\w)/g, (_match, letter: string) => letter.toUpperCase())) ||
+            frontmatter.id,
+          category,
+          section: (category === 'guide' && 'guide') || docSection,
+          packageName: GENERATE_DEFAULT_PACKAGE,
+          version,
+          pathOrUrl: `https://raw.githubusercontent.com/${repo}/${ref}/${path}`,
+          description: frontmatter.classification || frontmatter.description || getDocSummary(content)
+        })
+      };
+    }));
+  }))).flat().filter(page => page !== undefined);
+
+  const examplePackages = new Map<string, string>();
+
+  await Promise.all(pages.filter(({ entry }) => entry.section === 'examples').map(async page => {
+    page.entry.packageName = await getSourcePackageFunction(page.source, page.path);
+    examplePackages.set(`${page.entry.category}:${normalizeDocName(page.entry.displayName)}`, page.entry.packageName);
+  }));
+
+  pages.filter(({ entry }) => entry.section !== 'examples').forEach(({ entry }) => {
+    entry.packageName = examplePackages.get(`${entry.category}:${normalizeDocName(entry.displayName)}`) ||
+      GENERATE_DEFAULT_PACKAGE;
+  });
+
+  return pages.map(({ group, entry }) => ({ group, entry }));
+};
+
+/**
+ * Render a package llms.txt, entries grouped in `##` sections by frontmatter section, sorted by name then section
+ * kind. Duplicate URLs are listed once.
+ *
+ * @param packageName
+ * @param version
+ * @param pages - Entries with their frontmatter section
+ */
+const renderSourceLlmsTxt = (packageName: string, version: string, pages: Array<{ group: string; entry: DocEntry }>) => {
+  const groups = new Map<string, DocEntry[]>();
+  const urls = new Set<string>();
+
+  [...pages]
+    .sort((first, second) =>
+      first.group.localeCompare(second.group) ||
+      first.entry.displayName.localeCompare(second.entry.displayName) ||
+      GENERATE_SECTION_ORDER.indexOf(first.entry.section) - GENERATE_SECTION_ORDER.indexOf(second.entry.section))
+    .forEach(({ group, entry }) => {
+      if (!urls.has(entry.pathOrUrl)) {
+        urls.add(entry.pathOrUrl);
+        groups.set(group, [...(groups.get(group) || []), entry]);
+      }
+    });
+
+  return `${renderLlmsTxt({
+    title: `${packageName} ${version}`,
+    sections: [...groups.entries()].map(([group, entries]) => ({
+      title: `${group.charAt(0).toUpperCase()}${group.slice(1).replace(/-/g, ' ')}`,
+      entries
+    }))
+  })}\n`;
+};
+
+/**
+ * `generate-catalog` command, generate an llms.txt per package from PatternFly source checkouts into
+ * `<out>/<package>/<version>/llms.txt`, `--out` defaults to the llms-files directory. Existing llms.txt files, e.g.
+ * the curated bundled catalogs, are only replaced with `--force`, nothing is written otherwise.
+ *
+ * @param options
+ * @throws {Error} When `--source` or `--version` is missing or invalid, or an llms.txt exists without `--force`
+ */
+const runGenerateCatalogFunction = async (options = OPTIONS) => {
+  if (!options.sources?.length) {
+    throw new Error('Missing required option for generate-catalog: --source <dir>');
+  }
+
+  if (!options.catalogVersion) {
+    throw new Error('Missing required option for generate-catalog: --version <version>');
+  }
+
+  const version = normalizeCatalogVersion(options.catalogVersion);
+  const sources = options.sources.map(source => resolve(options.contextPath, source));
+  const pages = await getSourceDocEntriesFunction(sources, version);
+  const packageNames = [...new Set(pages.map(({ entry }) => entry.packageName))].sort();
+  const catalogs = packageNames.map(packageName => ({
+    packageName,
+    dir: join(options.out || options.llmsFilesPath, packageName.split('/').pop() as string, version),
+    packagePages: pages.filter(({ entry }) => entry.packageName === packageName)
+  }));
+
+  if (!options.force) {
+    const existing = (await Promise.all(catalogs.map(async ({ dir }) =>
+      ((await stat(join(dir, 'llms.txt')).catch(() => undefined)) && join(dir, 'llms.txt')) || undefined)))
+      .filter(Boolean);
+
+    if (existing.length) {
+      throw new Error(`Refusing to replace existing catalogs, pass --force to replace them, or --out to write elsewhere:\n${
+        existing.map(path => `  - ${path}`).join('\n')}`);
+    }
+  }
+
+  return Promise.all(catalogs.map(async ({ packageName, dir, packagePages }) => {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, 'llms.txt'), renderSourceLlmsTxt(packageName, version, packagePages), 'utf-8');
+    console.info(`Generated ${packagePages.length} entries for ${packageName} ${version} in ${join(dir, 'llms.txt')}`);
+
+    return { packageName, path: join(dir, 'llms.txt'), entries: packagePages.length };
+  }));
+};
+
+export {
+  GENERATE_DEFAULT_PACKAGE,
+  getSourceDocEntriesFunction,
+  getSourceRefFunction,
+  getSourceRepoFunction,
+  listSourceDocsFunction,
+  normalizeCatalogVersion,
+  parseFrontmatter,
+  renderSourceLlmsTxt,
+  runGenerateCatalogFunction
+};
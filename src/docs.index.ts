@@ -0,0 +1,376 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { OPTIONS } from './options';
+
+/**
+ * Indexed passage, a markdown section under a single heading
+ *
+ * @property source - Local path or URL of the document
+ * @property heading - Nearest heading, or the source when the content precedes any heading
+ * @property anchor - GitHub style heading anchor, e.g. "quick-start"
+ * @property text - Section text, without the heading line
+ */
+interface DocsPassage {
+  source: string;
+  heading: string;
+  anchor: string;
+  text: string;
+}
+
+/**
+ * Passage search result
+ *
+ * @property score - BM25 score, higher is better
+ * @property snippet - Passage excerpt around the first query match
+ */
+interface DocsIndexResult extends DocsPassage {
+  score: number;
+  snippet: string;
+}
+
+/**
+ * Indexed passage, with its weighted term count and distinct terms
+ */
+type IndexedPassage = DocsPassage & { length: number; terms: string[] };
+
+/**
+ * BM25 ranking settings. Heading terms count `headingWeight` times.
+ */
+const BM25_OPTIONS = {
+  k1: 1.2,
+  b: 0.75,
+  headingWeight: 3
+};
+
+/**
+ * Maximum number of indexed documents, besides local documentation. The least recently indexed documents are evicted
+ * first.
+ */
+const MAX_INDEXED_DOCUMENTS = 500;
+
+/**
+ * Maximum snippet length
+ */
+const SNIPPET_LENGTH = 300;
+
+/**
+ * Words ignored when indexing and searching
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'of', 'on', 'or', 'that',
+  'the', 'this', 'to', 'was', 'with'
+]);
+
+/**
+ * Light English stemmer, strips common plural and verb suffixes so "styling", "styled" and "styles" share a term.
+ *
+ * @param word - Lowercase word
+ */
+const stem = (word: string) => {
+  let value = word;
+
+  if (value.length <= 3) {
+    return value;
+  }
+
+  if (value.endsWith('sses')) {
+    value = value.slice(0, -2);
+  } else if (value.endsWith('ies')) {
+    value = `${value.slice(0, -3)}y`;
+  } else if (value.endsWith('s') && !/(ss|us|is)$/.test(value)) {
+    value = value.slice(0, -1);
+  }
+
+  const suffix = ['ingly', 'edly', 'ing', 'ed', 'ly'].find(ending =>
+    value.endsWith(ending) && /[aeiouy]/.test(value.slice(0, -ending.length)) && value.length - ending.length >= 3);
+
+  if (suffix) {
+    value = value.slice(0, -suffix.length);
+
+    if (/([^aeiouslz])\1$/.test(value)) {
+      value = value.slice(0, -1);
+    }
+  }
+
+  if (value.length > 4 && value.endsWith('e')) {
+    value = value.slice(0, -1);
+  }
+
+  return value;
+};
+
+/**
+ * Split text into stemmed terms, skipping stop words.
+ *
+ * @param value
+ */
+const toTerms = (value: string) =>
+  value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !STOP_WORDS.has(token))
+    .map(stem);
+
+/**
+ * GitHub style heading anchor, e.g. "Quick Start!" becomes "quick-start".
+ *
+ * @param heading
+ */
+const toAnchor = (heading: string) =>
+  heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s/g, '-');
+
+/**
+ * Split markdown into passages by heading, ignoring headings inside fenced code blocks.
+ *
+ * @param source
+ * @param content
+ */
+const splitPassages = (source: string, content: string): DocsPassage[] => {
+  const passages: DocsPassage[] = [];
+  let current = { heading: '', lines: [] as string[] };
+  let isFenced = false;
+
+  const flush = () => {
+    const text = current.lines.join('\n').trim();
+
+    if (text || current.heading) {
+      passages.push({
+        source,
+        heading: current.heading || source,
+        anchor: (current.heading && toAnchor(current.heading)) || '',
+        text
+      });
+    }
+  };
+
+  content.split(/\r?\n/).forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      isFenced = !isFenced;
+    }
+
+    const heading = (!isFenced && /^#{1,6}\s+(.+?)\s*#*\s*$/.exec(line)?.[1]) || undefined;
+
+    if (heading) {
+      flush();
+      current = { heading, lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  });
+
+  flush();
+
+  return passages;
+};
+
+/**
+ * Passage excerpt around the first query match.
+ *
+ * @param text
+ * @param queryTerms
+ */
+const toSnippet = (text: string, queryTerms: string[]) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const matches = queryTerms.map(term => lower.indexOf(term)).filter(index => index >= 0);
+  const matchStart = Math.max(0, Math.min(...matches, flat.length) - 80);
+  const start = (matchStart > 0 && flat.indexOf(' ', matchStart) + 1) || 0;
+  const snippet = flat.slice(start, start + SNIPPET_LENGTH).trim();
+
+  return `${(start > 0 && '...') || ''}${snippet}${(start + SNIPPET_LENGTH < flat.length && '...') || ''}`;
+};
+
+/**
+ * Create an in-memory inverted index over markdown passages, ranked with BM25. Passages keep their terms, so removing
+ * a document only touches its own postings.
+ *
+ * @param settings
+ * @param maxDocuments - Maximum number of documents, pinned documents aren't counted or evicted
+ */
+const createDocsIndex = (settings = BM25_OPTIONS, maxDocuments = MAX_INDEXED_DOCUMENTS) => {
+  const passages = new Map<number, IndexedPassage>();
+  const postings = new Map<string, Map<number, number>>();
+  const sources = new Map<string, number[]>();
+  const pinned = new Set<string>();
+  let nextId = 0;
+  let totalLength = 0;
+
+  /**
+   * Remove a document's passages.
+   *
+   * @param source
+   */
+  const remove = (source: string) => {
+    (sources.get(source) || []).forEach(id => {
+      const passage = passages.get(id);
+
+      passage?.terms.forEach(term => {
+        const termPostings = postings.get(term);
+
+        termPostings?.delete(id);
+
+        if (!termPostings?.size) {
+          postings.delete(term);
+        }
+      });
+
+      totalLength -= passage?.length || 0;
+      passages.delete(id);
+    });
+
+    sources.delete(source);
+    pinned.delete(source);
+  };
+
+  /**
+   * Evict the least recently indexed documents, pinned documents excluded, past `maxDocuments`.
+   */
+  const evict = () => {
+    const evictable = [...sources.keys()].filter(source => !pinned.has(source));
+
+    evictable.slice(0, Math.max(0, evictable.length - maxDocuments)).forEach(remove);
+  };
+
+  /**
+   * Add, or replace, a document.
+   *
+   * @param source - Local path or URL
+   * @param content - Markdown content
+   * @param options
+   * @param options.isPinned - Keep the document regardless of `maxDocuments`, e.g. local documentation
+   */
+  const add = (source: string, content: string, { isPinned = false }: { isPinned?: boolean } = {}) => {
+    remove(source);
+
+    const ids = splitPassages(source, content).map(passage => {
+      const id = nextId++;
+      const frequencies = new Map<string, number>();
+      const headingTerms = toTerms(passage.heading);
+      const bodyTerms = toTerms(passage.text);
+
+      headingTerms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + settings.headingWeight));
+      bodyTerms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+
+      frequencies.forEach((frequency, term) => {
+        const termPostings = postings.get(term) || new Map<number, number>();
+
+        termPostings.set(id, frequency);
+        postings.set(term, termPostings);
+      });
+
+      const length = (headingTerms.length * settings.headingWeight) + bodyTerms.length;
+
+      passages.set(id, { ...passage, length, terms: [...frequencies.keys()] });
+      totalLength += length;
+
+      return id;
+    });
+
+    sources.set(source, ids);
+
+    if (isPinned) {
+      pinned.add(source);
+    } else {
+      evict();
+    }
+  };
+
+  /**
+   * Rank passages against a query.
+   *
+   * @param query
+   * @param options
+   * @param options.limit - Maximum number of results
+   */
+  const search = (query: string, { limit = 10 }: { limit?: number } = {}): DocsIndexResult[] => {
+    const queryTerms = [...new Set(toTerms(query))];
+    const averageLength = totalLength / (passages.size || 1);
+    const scores = new Map<number, number>();
+
+    queryTerms.forEach(term => {
+      const termPostings = postings.get(term);
+
+      if (!termPostings) {
+        return;
+      }
+
+      const idf = Math.log(1 + ((passages.size - termPostings.size + 0.5) / (termPostings.size + 0.5)));
+
+      termPostings.forEach((frequency, id) => {
+        const length = passages.get(id)?.length || 0;
+        const normalized = settings.k1 * (1 - settings.b + (settings.b * length / (averageLength || 1)));
+
+        scores.set(id, (scores.get(id) || 0) + (idf * frequency * (settings.k1 + 1) / (frequency + normalized)));
+      });
+    });
+
+    return [...scores.entries()]
+      .sort(([, first], [, second]) => second - first)
+      .slice(0, limit)
+      .map(([id, score]) => {
+        const { length: _length, terms: _terms, ...passage } = passages.get(id) as IndexedPassage;
+
+        return {
+          ...passage,
+          score: Math.round(score * 1000) / 1000,
+          snippet: toSnippet(passage.text, queryTerms)
+        };
+      });
+  };
+
+  return {
+    add,
+    remove,
+    search,
+    has: (source: string) => sources.has(source),
+    get size() {
+      return sources.size;
+    }
+  };
+};
+
+/**
+ * Shared documentation index, populated from local docs at startup and from fetched pages as they load. Fetched
+ * pages are capped at `MAX_INDEXED_DOCUMENTS`.
+ */
+const DOCS_INDEX = createDocsIndex();
+
+/**
+ * Index every markdown file under the documentation directory. Local files are pinned, they aren't evicted.
+ *
+ * @param index
+ * @param options
+ */
+const indexLocalDocsFunction = async (index = DOCS_INDEX, options = OPTIONS) => {
+  const files = (await readdir(options.docsPath, { recursive: true }).catch(() => []))
+    .filter(file => file.endsWith('.md'))
+    .map(file => join(options.docsPath, file))
+    .sort();
+
+  await Promise.all(files.map(async file => {
+    const content = await readFile(file, 'utf-8').catch(() => undefined);
+
+    if (content !== undefined) {
+      index.add(file, content, { isPinned: true });
+    }
+  }));
+
+  return files.length;
+};
+
+export {
+  DOCS_INDEX,
+  MAX_INDEXED_DOCUMENTS,
+  createDocsIndex,
+  indexLocalDocsFunction,
+  splitPassages,
+  stem,
+  toAnchor,
+  toTerms,
+  type DocsIndexResult,
+  type DocsPassage
+};
@@ -1,13 +1,83 @@
-import { PF_EXTERNAL_DESIGN_LAYOUTS } from './options';
-
-const LAYOUT_DOCS = [
-  `[@patternfly/Bullseye - Design Guidelines](${PF_EXTERNAL_DESIGN_LAYOUTS}/bullseye.md)`,
-  `[@patternfly/Flex - Design Guidelines](${PF_EXTERNAL_DESIGN_LAYOUTS}/flex.md)`,
-  `[@patternfly/Gallery - Design Guidelines](${PF_EXTERNAL_DESIGN_LAYOUTS}/gallery.md)`,
-  `[@patternfly/Grid - Design Guidelines](${PF_EXTERNAL_DESIGN_LAYOUTS}/grid.md)`,
-  `[@patternfly/Level - Design Guidelines](${PF_EXTERNAL_DESIGN_LAYOUTS}/level.md)`,
-  `[@patternfly/Split - Design Guidelines](${PF_EXTERNAL_DESIGN_LAYOUTS}/split.md)`,
-  `[@patternfly/Stack - Design Guidelines](${PF_EXTERNAL_DESIGN_LAYOUTS}/stack.md)`
+import { join } from 'node:path';
+import { OPTIONS, PF_EXTERNAL_DESIGN_LAYOUTS } from './options';
+import { createDocEntry, type DocEntry } from './docs.catalog';
+
+/**
+ * Bundled local copy in a docs directory, tried when a layout entry fails to load
+ *
+ * @param docsPath
+ */
+const createLayoutFallbacks = (docsPath = OPTIONS.docsPath) => [join(docsPath, 'components', 'layout', 'README.md')];
+
+/**
+ * Bundled local copy, shared by every layout entry, see `setLocalDocsPath`
+ */
+const LAYOUT_FALLBACKS = createLayoutFallbacks();
+
+const LAYOUT_DOCS: DocEntry[] = [
+  createDocEntry({
+    displayName: 'Bullseye',
+    category: 'layout',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: `${PF_EXTERNAL_DESIGN_LAYOUTS}/bullseye.md`,
+    description: 'Design guidelines for the Bullseye layout: when and how to use it',
+    fallbacks: LAYOUT_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Flex',
+    category: 'layout',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: `${PF_EXTERNAL_DESIGN_LAYOUTS}/flex.md`,
+    description: 'Design guidelines for the Flex layout: when and how to use it',
+    fallbacks: LAYOUT_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Gallery',
+    category: 'layout',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: `${PF_EXTERNAL_DESIGN_LAYOUTS}/gallery.md`,
+    description: 'Design guidelines for the Gallery layout: when and how to use it',
+    fallbacks: LAYOUT_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Grid',
+    category: 'layout',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: `${PF_EXTERNAL_DESIGN_LAYOUTS}/grid.md`,
+    description: 'Design guidelines for the Grid layout: when and how to use it',
+    fallbacks: LAYOUT_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Level',
+    category: 'layout',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: `${PF_EXTERNAL_DESIGN_LAYOUTS}/level.md`,
+    description: 'Design guidelines for the Level layout: when and how to use it',
+    fallbacks: LAYOUT_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Split',
+    category: 'layout',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: `${PF_EXTERNAL_DESIGN_LAYOUTS}/split.md`,
+    description: 'Design guidelines for the Split layout: when and how to use it',
+    fallbacks: LAYOUT_FALLBACKS
+  }),
+  createDocEntry({
+    displayName: 'Stack',
+    category: 'layout',
+    section: 'design-guidelines',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: `${PF_EXTERNAL_DESIGN_LAYOUTS}/stack.md`,
+    description: 'Design guidelines for the Stack layout: when and how to use it',
+    fallbacks: LAYOUT_FALLBACKS
+  })
 ];
 
-export { LAYOUT_DOCS };
+export { LAYOUT_DOCS, LAYOUT_FALLBACKS, createLayoutFallbacks };
@@ -0,0 +1,290 @@
+import { stat } from 'node:fs/promises';
+import { relative } from 'node:path';
+import { CHART_DOCS } from './docs.chart';
+import { COMPONENT_DOCS } from './docs.component';
+import { CUSTOM_DOCS } from './docs.custom';
+import { LAYOUT_DOCS } from './docs.layout';
+import { LOCAL_DOCS } from './docs.local';
+import { getDocLabel } from './docs.catalog';
+import { parseLlmsTxt } from './docs.llms';
+import { listLlmsTxtFilesFunction } from './docs.search';
+import { resolveSourcePathOrUrl } from './docs.sources';
+import { getVersionedPathOrUrl } from './docs.version';
+import { OPTIONS } from './options';
+import { readLocalFileFunction } from './server.getResources';
+import { limitHostFunction, retryRequestFunction } from './server.requestPolicy';
+import { assertUrlAllowedFunction, getUrlDispatcher } from './server.urlPolicy';
+
+/**
+ * Link check report formats, set with `--format`
+ */
+const LINK_CHECK_FORMATS = ['text', 'json'] as const;
+
+/**
+ * Link listed in a catalog or llms.txt file
+ *
+ * @property label - Link label, e.g. "@patternfly/AboutModal - Accessibility" or "Motion"
+ * @property pathOrUrl - Link target, empty when missing
+ * @property listedIn - Where the link is listed, e.g. "catalog" or "llms-files/patternfly/6.0.0/llms.txt:15"
+ * @property malformed - Parse error, for llms.txt lines that aren't a valid link
+ */
+interface DocLink {
+  label: string;
+  pathOrUrl: string;
+  listedIn: string;
+  malformed?: string;
+}
+
+/**
+ * Link check result. "malformed", "empty" and "broken" links are failures, "redirected" and "duplicate" links are
+ * warnings.
+ *
+ * @property status - "ok", "redirected", "duplicate", "malformed", "empty" or "broken"
+ * @property httpStatus - Response status, for URLs
+ * @property redirectedTo - Redirect location, for redirected URLs
+ * @property duplicateOf - Where the link is first listed, for duplicates in the same file
+ * @property error - Failure message, for broken links
+ */
+interface DocLinkResult extends DocLink {
+  status: 'ok' | 'redirected' | 'duplicate' | 'malformed' | 'empty' | 'broken';
+  httpStatus?: number;
+  redirectedTo?: string;
+  duplicateOf?: string;
+  error?: string;
+}
+
+/**
+ * Parse llms.txt links with their line number, see `parseLlmsTxt`. Empty links are kept, malformed lines are listed
+ * with their parse error.
+ *
+ * @param content
+ */
+const parseLlmsTxtLinks = (content: string): Array<{ label: string; url: string; line: number; malformed?: string }> => {
+  const lines = content.split(/\r?\n/);
+  const { sections, issues } = parseLlmsTxt(content);
+
+  return [
+    ...sections.flatMap(({ entries }) => entries.map(({ title, url, line }) => ({ label: title, url, line }))),
+    ...issues
+      .filter(({ type }) => type === 'malformed')
+      .map(({ line, message }) => ({ label: (lines[line - 1] || '').trim(), url: '', line, malformed: message }))
+  ].sort((first, second) => first.line - second.line);
+};
+
+/**
+ * Every link in the catalogs, custom documentation included, and llms-files. Catalog URLs are rewritten for the
+ * selected PatternFly version, relative llms.txt links are resolved against their file.
+ *
+ * @param options
+ */
+const getDocLinksFunction = async (options = OPTIONS): Promise<DocLink[]> => {
+  const catalogLinks = [...COMPONENT_DOCS, ...LAYOUT_DOCS, ...CHART_DOCS, ...LOCAL_DOCS, ...CUSTOM_DOCS].map(entry => ({
+    label: getDocLabel(entry),
+    pathOrUrl: (entry.pathOrUrl && getVersionedPathOrUrl(entry.pathOrUrl, options)) || '',
+    listedIn: 'catalog'
+  }));
+
+  const llmsLinks = await Promise.all((await listLlmsTxtFilesFunction(options)).map(async ({ path }) => {
+    const content = await readLocalFileFunction.memo(path).catch(() => '');
+
+    return parseLlmsTxtLinks(content).map(({ label, url, line, malformed }) => ({
+      label,
+      pathOrUrl: (url && resolveSourcePathOrUrl(url, path, options)) || '',
+      listedIn: `${relative(options.contextPath, path)}:${line}`,
+      ...(malformed && { malformed })
+    }));
+  }));
+
+  return [...catalogLinks, ...llmsLinks.flat()];
+};
+
+/**
+ * Check a URL without following redirects. `HEAD` is used, with a `GET` fallback for servers that don't support it.
+ * Requests go through the URL allowlist, public address check, per-host concurrency limit and retries.
+ *
+ * @param url
+ * @param options
+ */
+const checkUrlFunction = async (url: string, options = OPTIONS): Promise<Omit<DocLinkResult, keyof DocLink>> => {
+  try {
+    await assertUrlAllowedFunction(url, options);
+  } catch (error) {
+    return { status: 'broken', error: (error as Error).message };
+  }
+
+  const request = async () => {
+    const dispatcher = getUrlDispatcher(url, options);
+    const init = { redirect: 'manual', signal: AbortSignal.timeout(options.fetchTimeout), ...(dispatcher && { dispatcher }) } as const;
+    let response = await fetch(url, { ...init, method: 'HEAD' });
+
+    if (response.status === 405 || response.status === 501) {
+      response = await fetch(url, { ...init, method: 'GET' });
+      await response.body?.cancel();
+    }
+
+    return {
+      status: response.status,
+      location: response.headers?.get('location') || undefined,
+      retryAfter: response.headers?.get('retry-after') || undefined
+    };
+  };
+
+  try {
+    const { status, location } = await retryRequestFunction(() => limitHostFunction(url, request, options), options);
+
+    if (status >= 300 && status < 400 && location) {
+      return { status: 'redirected', httpStatus: status, redirectedTo: new URL(location, url).href };
+    }
+
+    if (status >= 200 && status < 300) {
+      return { status: 'ok', httpStatus: status };
+    }
+
+    return { status: 'broken', httpStatus: status, error: `${status} response` };
+  } catch (error) {
+    return { status: 'broken', error: (error as Error).message };
+  }
+};
+
+/**
+ * Check a local path exists and is a file.
+ *
+ * @param path
+ */
+const checkLocalPathFunction = async (path: string): Promise<Omit<DocLinkResult, keyof DocLink>> =>
+  ((await stat(path).catch(() => undefined))?.isFile() && { status: 'ok' }) ||
+  { status: 'broken', error: 'file not found' };
+
+/**
+ * Check links. Each unique target is checked once. Malformed lines and empty targets fail without a check, and a
+ * target listed twice in the same file, or the catalog, is reported as a duplicate of the first listing.
+ *
+ * @param links
+ * @param options
+ */
+const checkDocLinksFunction = async (links: DocLink[], options = OPTIONS): Promise<DocLinkResult[]> => {
+  const checks = new Map<string, Promise<Omit<DocLinkResult, keyof DocLink>>>();
+  const firstListings = new Map<string, string>();
+
+  links.forEach(({ pathOrUrl }) => {
+    if (pathOrUrl && !checks.has(pathOrUrl)) {
+      checks.set(pathOrUrl, (options.urlRegex.test(pathOrUrl) && checkUrlFunction(pathOrUrl, options)) ||
+        checkLocalPathFunction(pathOrUrl));
+    }
+  });
+
+  return Promise.all(links.map(async link => {
+    if (link.malformed) {
+      return { ...link, status: 'malformed', error: link.malformed } as DocLinkResult;
+    }
+
+    if (!link.pathOrUrl) {
+      return { ...link, status: 'empty', error: 'empty link target' } as DocLinkResult;
+    }
+
+    const file = link.listedIn.replace(/:\d+$/, '');
+    const duplicateOf = firstListings.get(`${file}\n${link.pathOrUrl}`);
+
+    if (duplicateOf) {
+      return { ...link, status: 'duplicate', duplicateOf } as DocLinkResult;
+    }
+
+    firstListings.set(`${file}\n${link.pathOrUrl}`, link.listedIn);
+
+    return { ...link, ...(await checks.get(link.pathOrUrl)) } as DocLinkResult;
+  }));
+};
+
+/**
+ * Link check summary, counts per status
+ *
+ * @param results
+ */
+const getLinkCheckSummary = (results: DocLinkResult[]) => ({
+  total: results.length,
+  ok: results.filter(({ status }) => status === 'ok').length,
+  redirected: results.filter(({ status }) => status === 'redirected').length,
+  duplicate: results.filter(({ status }) => status === 'duplicate').length,
+  malformed: results.filter(({ status }) => status === 'malformed').length,
+  empty: results.filter(({ status }) => status === 'empty').length,
+  broken: results.filter(({ status }) => status === 'broken').length
+});
+
+/**
+ * Render a link check report. Text reports list every link that isn't ok, one per line, then a summary. JSON reports
+ * include the summary and every result.
+ *
+ * @param results
+ * @param format
+ */
+const renderLinkCheckReport = (results: DocLinkResult[], format: typeof LINK_CHECK_FORMATS[number] = 'text') => {
+  const summary = getLinkCheckSummary(results);
+
+  if (format === 'json') {
+    return JSON.stringify({ summary, results }, null, 2);
+  }
+
+  const lines = results.filter(({ status }) => status !== 'ok').map(result => {
+    const target = `[${result.label}](${result.pathOrUrl}) in ${result.listedIn}`;
+
+    switch (result.status) {
+      case 'redirected':
+        return `↪ redirected ${target}: ${result.httpStatus} to ${result.redirectedTo}`;
+      case 'duplicate':
+        return `⚠ duplicate ${target}: first listed in ${result.duplicateOf}`;
+      case 'malformed':
+        return `❌ malformed "${result.label}" in ${result.listedIn}: ${result.error}`;
+      case 'empty':
+        return `❌ empty ${target}`;
+      default:
+        return `❌ broken ${target}: ${result.error}`;
+    }
+  });
+
+  return [
+    ...lines,
+    `Checked ${summary.total} links: ${summary.ok} ok, ${summary.redirected} redirected, ${summary.duplicate} duplicate, ${summary.malformed} malformed, ${summary.empty} empty, ${summary.broken} broken`
+  ].join('\n');
+};
+
+/**
+ * `check-links` command, check every catalog and llms-files link, or the URLs passed on the command line, and print a
+ * report. Sets a non-zero exit code when any link is malformed, empty or broken.
+ *
+ * @param options
+ * @throws {Error} When `--format` is invalid
+ */
+const runCheckLinksFunction = async (options = OPTIONS) => {
+  const format = options.format || 'text';
+
+  if (!LINK_CHECK_FORMATS.includes(format as typeof LINK_CHECK_FORMATS[number])) {
+    throw new Error(`Invalid value for --format: expected ${LINK_CHECK_FORMATS.join(' or ')}, received "${format}"`);
+  }
+
+  const links = (options.urls && options.urls.map(url => ({ label: url, pathOrUrl: url, listedIn: 'command line' }))) ||
+    await getDocLinksFunction(options);
+  const results = await checkDocLinksFunction(links, options);
+  const summary = getLinkCheckSummary(results);
+
+  console.log(renderLinkCheckReport(results, format as typeof LINK_CHECK_FORMATS[number]));
+
+  if (summary.malformed || summary.empty || summary.broken) {
+    process.exitCode = 1;
+  }
+
+  return results;
+};
+
+export {
+  LINK_CHECK_FORMATS,
+  checkDocLinksFunction,
+  checkLocalPathFunction,
+  checkUrlFunction,
+  getDocLinksFunction,
+  getLinkCheckSummary,
+  parseLlmsTxtLinks,
+  renderLinkCheckReport,
+  runCheckLinksFunction,
+  type DocLink,
+  type DocLinkResult
+};
@@ -0,0 +1,261 @@
+import { normalizeDocName, renderLlmsTxt } from './docs.catalog';
+import { isSectionMatch, parseHeadings, type DocsSelection } from './docs.sections';
+
+/**
+ * llms.txt link entry
+ *
+ * @property title - Link title, e.g. "@patternfly/AboutModal - Examples"
+ * @property url - Link target, empty when missing
+ * @property classification - `<classification>` guidance, or plain notes after the link
+ * @property line - Line number, 1-based
+ */
+interface LlmsTxtEntry {
+  title: string;
+  url: string;
+  classification: string;
+  line: number;
+}
+
+/**
+ * llms.txt `##` section
+ *
+ * @property title - Heading text, empty for links listed before the first section
+ * @property slug - GitHub style heading anchor
+ * @property line - Heading line number, 1-based
+ * @property entries - Links listed in the section
+ */
+interface LlmsTxtSection {
+  title: string;
+  slug: string;
+  line: number;
+  entries: LlmsTxtEntry[];
+}
+
+/**
+ * llms.txt validation issue
+ *
+ * @property type - "empty-url" for links without a target, "malformed" for lines that can't be parsed
+ * @property line - Line number, 1-based
+ * @property message - Issue description
+ */
+interface LlmsTxtIssue {
+  type: 'empty-url' | 'malformed';
+  line: number;
+  message: string;
+}
+
+/**
+ * Parsed llms.txt
+ *
+ * @property title - `#` title, e.g. "@patternfly/react-core 6.0.0"
+ * @property packageName - Package from the title, e.g. "@patternfly/react-core"
+ * @property version - Version from the title, e.g. "6.0.0"
+ * @property summary - Blockquote summary after the title
+ * @property sections - Sections in file order
+ * @property issues - Validation issues in line order
+ */
+interface LlmsTxtDocument {
+  title: string;
+  packageName: string;
+  version?: string;
+  summary: string;
+  sections: LlmsTxtSection[];
+  issues: LlmsTxtIssue[];
+}
+
+/**
+ * Check if a path or URL is an llms.txt file.
+ *
+ * @param pathOrUrl
+ */
+const isLlmsTxtPath = (pathOrUrl: string) => /(^|[\\/])llms\.txt$/i.test(new URL(pathOrUrl, 'file:///').pathname);
+
+/**
+ * Parse a link line, `[title](url)` with optional `: <classification>text</classification>` or `: notes`, list
+ * bullets allowed.
+ *
+ * @param line
+ * @param lineNumber
+ * @throws {Error} When the line isn't a valid link
+ */
+const parseLlmsTxtEntry = (line: string, lineNumber: number): LlmsTxtEntry => {
+  const match = /^\s*(?:[-*]\s+)?\[([^\]]*)\]\(([^)]*)\)\s*(?::\s*(.*?))?\s*$/.exec(line);
+
+  if (!match) {
+    throw new Error('expected a link, [title](url)');
+  }
+
+  const [, title = '', url = '', notes = ''] = match;
+  const classification = /^<classification>(.*)<\/classification>$/.exec(notes)?.[1];
+
+  if (!title.trim()) {
+    throw new Error('missing link title');
+  }
+
+  if (classification === undefined && notes.includes('<classification>')) {
+    throw new Error('unclosed <classification> tag');
+  }
+
+  return { title: title.trim(), url: url.trim(), classification: (classification ?? notes).trim(), line: lineNumber };
+};
+
+/**
+ * Parse llms.txt into a title, summary and sections of links, and validate it. Links without a target are kept and
+ * reported, lines starting like a link that can't be parsed are skipped and reported. Other prose is ignored.
+ *
+ * @param content
+ */
+const parseLlmsTxt = (content: string): LlmsTxtDocument => {
+  const lines = content.split(/\r?\n/);
+  const headings = parseHeadings(lines);
+  const titleHeading = headings.find(({ level }) => level === 1);
+  const titleMatch = /^(\S+)\s+v?(\d+(?:\.\d+)*)$/.exec(titleHeading?.title || '');
+  const sectionStarts = new Map(headings.filter(({ level }) => level > 1).map(heading => [heading.start, heading]));
+  const sections: LlmsTxtSection[] = [];
+  const issues: LlmsTxtIssue[] = [];
+  const summary: string[] = [];
+  let section: LlmsTxtSection | undefined;
+
+  lines.forEach((line, index) => {
+    const heading = sectionStarts.get(index);
+
+    if (heading) {
+      section = { title: heading.title, slug: heading.slug, line: index + 1, entries: [] };
+      sections.push(section);
+
+      return;
+    }
+
+    if (/^#\s/.test(line) && index !== titleHeading?.start) {
+      issues.push({ type: 'malformed', line: index + 1, message: 'more than one # title' });
+
+      return;
+    }
+
+    if (!section && /^>\s?/.test(line)) {
+      summary.push(line.replace(/^>\s?/, '').trim());
+
+      return;
+    }
+
+    if (!/^\s*(?:[-*]\s+)?\[/.test(line)) {
+      return;
+    }
+
+    try {
+      const entry = parseLlmsTxtEntry(line, index + 1);
+
+      if (!section) {
+        section = { title: '', slug: '', line: index + 1, entries: [] };
+        sections.push(section);
+      }
+
+      section.entries.push(entry);
+
+      if (!entry.url) {
+        issues.push({ type: 'empty-url', line: index + 1, message: `empty URL for "${entry.title}"` });
+      }
+    } catch (error) {
+      issues.push({ type: 'malformed', line: index + 1, message: (error as Error).message });
+    }
+  });
+
+  return {
+    title: titleHeading?.title || '',
+    packageName: titleMatch?.[1] || titleHeading?.title || '',
+    ...(titleMatch?.[2] && { version: titleMatch[2] }),
+    summary: summary.join(' ').trim(),
+    sections,
+    issues
+  };
+};
+
+/**
+ * Number of links with a target in a section, e.g. "12 links"
+ *
+ * @param section
+ */
+const renderLlmsTxtLinkCount = ({ entries }: LlmsTxtSection) => {
+  const count = entries.filter(({ url }) => url).length;
+
+  return `${count} ${(count === 1 && 'link') || 'links'}`;
+};
+
+/**
+ * Render sections as llms.txt links, see `renderLlmsTxt`.
+ *
+ * @param sections
+ */
+const renderLlmsTxtSections = (sections: LlmsTxtSection[]) => renderLlmsTxt({ sections });
+
+/**
+ * Render a parsed llms.txt, its title, summary and sections, see `renderLlmsTxt`.
+ *
+ * @param document
+ */
+const renderLlmsTxtDocument = ({ title, summary, sections }: LlmsTxtDocument) => renderLlmsTxt({ title, summary, sections });
+
+/**
+ * Render a section outline, one list item per section with its slug and number of links.
+ *
+ * @param sections
+ */
+const renderLlmsTxtOutline = (sections: LlmsTxtSection[]) =>
+  sections
+    .filter(({ title }) => title)
+    .map(section => `- ${section.title} (#${section.slug}), ${renderLlmsTxtLinkCount(section)}`)
+    .join('\n') || '(no sections)';
+
+/**
+ * Select llms.txt sections, or its outline, the llms.txt counterpart of `selectSections`. Requested values match
+ * section titles or slugs, values matching no section narrow sections to links with a matching title, e.g.
+ * "AboutModal". The parsed document is rendered without a selection.
+ *
+ * @param document
+ * @param selection
+ */
+const selectLlmsTxt = (document: LlmsTxtDocument, { sections, outline }: DocsSelection = {}) => {
+  const requested = (sections || []).filter(section => section.trim());
+
+  if (!requested.length && !outline) {
+    return renderLlmsTxtDocument(document);
+  }
+
+  let selected = document.sections;
+
+  if (requested.length) {
+    const entryQueries = requested
+      .filter(value => !document.sections.some(section => section.title && isSectionMatch(section, value)))
+      .map(normalizeDocName)
+      .filter(Boolean);
+
+    selected = document.sections
+      .map(section => ((requested.some(value => section.title && isSectionMatch(section, value)) && section) || {
+        ...section,
+        entries: section.entries.filter(({ title }) => entryQueries.some(query => normalizeDocName(title).includes(query)))
+      }))
+      .filter(({ entries }) => entries.some(({ url }) => url));
+
+    if (!selected.length) {
+      return `No sections or links matching ${requested.map(section => `"${section}"`).join(', ')}. Available sections:\n\n${
+        renderLlmsTxtOutline(document.sections)}`;
+    }
+  }
+
+  return (outline && renderLlmsTxtOutline(selected)) || renderLlmsTxtSections(selected);
+};
+
+export {
+  isLlmsTxtPath,
+  parseLlmsTxt,
+  parseLlmsTxtEntry,
+  renderLlmsTxtDocument,
+  renderLlmsTxtLinkCount,
+  renderLlmsTxtOutline,
+  renderLlmsTxtSections,
+  selectLlmsTxt,
+  type LlmsTxtDocument,
+  type LlmsTxtEntry,
+  type LlmsTxtIssue,
+  type LlmsTxtSection
+};
@@ -1,15 +1,100 @@
 import { join } from 'node:path';
 import { OPTIONS } from './options';
+import { createDocEntry, type DocEntry } from './docs.catalog';
+import { CHART_FALLBACKS, createChartFallbacks } from './docs.chart';
+import { TABLE_FALLBACKS, createTableFallbacks } from './docs.component';
+import { LAYOUT_FALLBACKS, createLayoutFallbacks } from './docs.layout';
 
-const LOCAL_DOCS = [
-  `[@patternfly/react-charts](${join(OPTIONS.docsPath, 'charts', 'README.md')})`,
-  `[@patternfly/react-chatbot](${join(OPTIONS.docsPath, 'chatbot', 'README.md')})`,
-  `[@patternfly/react-component-groups](${join(OPTIONS.docsPath, 'component-groups', 'README.md')})`,
-  `[@patternfly/react-components](${join(OPTIONS.docsPath, 'components', 'README.md')})`,
-  `[@patternfly/react-guidelines](${join(OPTIONS.docsPath, 'guidelines', 'README.md')})`,
-  `[@patternfly/react-resources](${join(OPTIONS.docsPath, 'resources', 'README.md')})`,
-  `[@patternfly/react-setup](${join(OPTIONS.docsPath, 'setup', 'README.md')})`,
-  `[@patternfly/react-troubleshooting](${join(OPTIONS.docsPath, 'troubleshooting', 'README.md')})`
+/**
+ * Local guides in a docs directory
+ *
+ * @param docsPath
+ */
+const createLocalDocs = (docsPath = OPTIONS.docsPath): DocEntry[] => [
+  createDocEntry({
+    displayName: 'react-charts',
+    category: 'guide',
+    section: 'guide',
+    packageName: '@patternfly/react-charts',
+    pathOrUrl: join(docsPath, 'charts', 'README.md'),
+    description: 'Essential rules for PatternFly Charts implementation using Victory.js and ECharts'
+  }),
+  createDocEntry({
+    displayName: 'react-chatbot',
+    category: 'guide',
+    section: 'guide',
+    packageName: '@patternfly/chatbot',
+    pathOrUrl: join(docsPath, 'chatbot', 'README.md'),
+    description: 'Essential rules for PatternFly Chatbot implementation and integration patterns'
+  }),
+  createDocEntry({
+    displayName: 'react-component-groups',
+    category: 'guide',
+    section: 'guide',
+    packageName: '@patternfly/react-component-groups',
+    pathOrUrl: join(docsPath, 'component-groups', 'README.md'),
+    description: 'Essential rules for using and contributing to PatternFly React Component Groups'
+  }),
+  createDocEntry({
+    displayName: 'react-components',
+    category: 'guide',
+    section: 'guide',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: join(docsPath, 'components', 'README.md'),
+    description: 'Index of PatternFly React components documentation'
+  }),
+  createDocEntry({
+    displayName: 'react-guidelines',
+    category: 'guide',
+    section: 'guide',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: join(docsPath, 'guidelines', 'README.md'),
+    description: 'Core development rules for building PatternFly React applications'
+  }),
+  createDocEntry({
+    displayName: 'react-resources',
+    category: 'guide',
+    section: 'guide',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: join(docsPath, 'resources', 'README.md'),
+    description: 'External links and local documentation references for PatternFly development'
+  }),
+  createDocEntry({
+    displayName: 'react-setup',
+    category: 'guide',
+    section: 'guide',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: join(docsPath, 'setup', 'README.md'),
+    description: 'Initial setup and configuration for PatternFly React development projects'
+  }),
+  createDocEntry({
+    displayName: 'react-troubleshooting',
+    category: 'guide',
+    section: 'guide',
+    packageName: '@patternfly/react-core',
+    pathOrUrl: join(docsPath, 'troubleshooting', 'README.md'),
+    description: 'Troubleshooting guides and solutions for common PatternFly development issues'
+  })
 ];
 
-export { LOCAL_DOCS };
+/**
+ * Local guides, built from the default docs directory when imported, see `setLocalDocsPath`
+ */
+const LOCAL_DOCS: DocEntry[] = createLocalDocs();
+
+/**
+ * Point the local guides and the bundled local fallback copies at a docs directory, e.g. `--docs-path`. Catalogs
+ * are built when imported, before options are frozen, so entries and fallbacks are updated in place.
+ *
+ * @param docsPath
+ */
+const setLocalDocsPath = (docsPath = OPTIONS.docsPath) => {
+  LOCAL_DOCS.splice(0, LOCAL_DOCS.length, ...createLocalDocs(docsPath));
+  LAYOUT_FALLBACKS.splice(0, LAYOUT_FALLBACKS.length, ...createLayoutFallbacks(docsPath));
+  CHART_FALLBACKS.splice(0, CHART_FALLBACKS.length, ...createChartFallbacks(docsPath));
+  TABLE_FALLBACKS.splice(0, TABLE_FALLBACKS.length, ...createTableFallbacks(docsPath));
+
+  return LOCAL_DOCS;
+};
+
+export { LOCAL_DOCS, createLocalDocs, setLocalDocsPath };
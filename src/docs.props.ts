@@ -0,0 +1,384 @@
+import { join } from 'node:path';
+import { COMPONENT_DOCS } from './docs.component';
+import { queryDocs } from './docs.catalog';
+import { OPTIONS } from './options';
+import { loadDocFunction } from './server.getResources';
+
+/**
+ * Component prop
+ *
+ * @property name - Prop name
+ * @property type - TypeScript type, as written in the source
+ * @property defaultValue - Default value, from the component's destructured parameters, `defaultProps` or a `@default` tag
+ * @property required - Prop is not optional
+ * @property description - JSDoc description
+ * @property deprecated - Prop is marked `@deprecated`
+ */
+interface ComponentProp {
+  name: string;
+  type: string;
+  defaultValue?: string;
+  required: boolean;
+  description: string;
+  deprecated: boolean;
+}
+
+/**
+ * Props for one of the interfaces listed in an examples page `propComponents`
+ *
+ * @property name - Prop component name, e.g. "DropdownItem"
+ * @property interfaceName - Interface the props were read from, e.g. "DropdownItemProps"
+ * @property source - Local path or URL of the source the interface was read from
+ * @property defaultsSource - TSX source prop defaults were read from, when the interface was read from declarations
+ * @property props - Parsed props
+ */
+interface ComponentPropsInterface {
+  name: string;
+  interfaceName: string;
+  source: string;
+  defaultsSource?: string;
+  props: ComponentProp[];
+}
+
+/**
+ * Props for a component
+ *
+ * @property component - Component display name, e.g. "Dropdown"
+ * @property examplesUrl - Examples page the prop components were listed in
+ * @property interfaces - Parsed interfaces
+ * @property missing - Prop components whose interface could not be found
+ */
+interface ComponentProps {
+  component: string;
+  examplesUrl: string;
+  interfaces: ComponentPropsInterface[];
+  missing: string[];
+}
+
+/**
+ * Prop component and interface names, names are matched in sources with regular expressions
+ */
+const PROP_NAME_REGEX = /^[A-Za-z0-9_]+$/;
+
+/**
+ * Matching closing characters for nesting depth
+ */
+const BRACKETS: Record<string, string> = { '{': '}', '(': ')', '[': ']', '<': '>' };
+
+/**
+ * Split a string on a separator, ignoring separators nested in brackets, strings and comments. Returns the segments and
+ * the JSDoc comment preceding each one.
+ *
+ * @param value
+ * @param separators - Top-level separator characters
+ */
+const splitTopLevel = (value: string, separators = ';,') => {
+  const segments: Array<{ text: string; doc: string }> = [];
+  const stack: string[] = [];
+  let text = '';
+  let doc = '';
+  let index = 0;
+
+  const push = () => {
+    if (text.trim()) {
+      segments.push({ text: text.trim(), doc });
+      doc = '';
+    }
+    text = '';
+  };
+
+  while (index < value.length) {
+    const char = value[index] as string;
+    const next = value[index + 1];
+
+    if (char === '/' && next === '*') {
+      const end = value.indexOf('*/', index + 2);
+      const comment = value.slice(index, (end < 0 && value.length) || end + 2);
+
+      if (comment.startsWith('/**') && !text.trim()) {
+        doc = comment;
+      }
+
+      index += comment.length;
+      continue;
+    }
+
+    if (char === '/' && next === '/') {
+      const end = value.indexOf('\n', index);
+
+      index = (end < 0 && value.length) || end;
+      continue;
+    }
+
+    if (char === '\'' || char === '"' || char === '`') {
+      let end = index + 1;
+
+      while (end < value.length && value[end] !== char) {
+        end += (value[end] === '\\' && 2) || 1;
+      }
+
+      text += value.slice(index, end + 1);
+      index = end + 1;
+      continue;
+    }
+
+    if (BRACKETS[char] && !(char === '<' && /\s/.test(value[index - 1] || '') && /[\s=]/.test(next || ''))) {
+      stack.push(BRACKETS[char] as string);
+    } else if (char === stack[stack.length - 1] && !(char === '>' && value[index - 1] === '=')) {
+      stack.pop();
+    } else if (!stack.length && separators.includes(char)) {
+      push();
+      index += 1;
+      continue;
+    }
+
+    text += char;
+    index += 1;
+  }
+
+  push();
+
+  return segments;
+};
+
+/**
+ * Parse a JSDoc comment into a description and tags.
+ *
+ * @param comment
+ */
+const parseJsDoc = (comment: string) => {
+  const lines = comment
+    .replace(/^\/\*\*|\*\/$/g, '')
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*\*\s?/, '').trim());
+  const tagIndex = lines.findIndex(line => line.startsWith('@'));
+  const description = lines.slice(0, (tagIndex < 0 && lines.length) || tagIndex).filter(Boolean).join(' ');
+  const tags = lines.slice((tagIndex < 0 && lines.length) || tagIndex).join('\n');
+  const defaultValue = /@default(?:Value)?\s+([^\n]+)/.exec(tags)?.[1]?.trim();
+  const deprecatedTag = /@deprecated\b([^@]*)/.exec(tags);
+
+  return {
+    description: description || deprecatedTag?.[1]?.replace(/\s+/g, ' ').trim() || '',
+    deprecated: Boolean(deprecatedTag) || /^deprecated\b/i.test(description),
+    ...(defaultValue && { defaultValue })
+  };
+};
+
+/**
+ * Find the body of a brace delimited block starting at, or after, an index.
+ *
+ * @param source
+ * @param openIndex - Index of the opening brace
+ */
+const getBlockBody = (source: string, openIndex: number) => {
+  let depth = 0;
+
+  for (let index = openIndex; index < source.length; index++) {
+    if (source[index] === '{') {
+      depth += 1;
+    } else if (source[index] === '}') {
+      depth -= 1;
+
+      if (!depth) {
+        return source.slice(openIndex + 1, index);
+      }
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Parse the members of an interface.
+ *
+ * @param source - TypeScript source or declarations
+ * @param interfaceName - Interface name, e.g. "ButtonProps"
+ */
+const parseInterfaceProps = (source: string, interfaceName: string): ComponentProp[] | undefined => {
+  if (!PROP_NAME_REGEX.test(interfaceName)) {
+    return undefined;
+  }
+
+  const match = new RegExp(`\\binterface\\s+${interfaceName}\\b[^{]*\\{`).exec(source);
+  const body = (match && getBlockBody(source, match.index + match[0].length - 1)) ?? undefined;
+
+  if (body === undefined) {
+    return undefined;
+  }
+
+  return splitTopLevel(body, ';').flatMap(({ text, doc }) => {
+    const member = /^(?:readonly\s+)?(['"]?[\w$-]+['"]?)(\?)?\s*(:|\()([\s\S]*)$/.exec(text);
+
+    if (!member) {
+      return [];
+    }
+
+    const [, name = '', optional, kind, rest = ''] = member;
+    const { description, deprecated, defaultValue } = parseJsDoc(doc);
+
+    return [{
+      name: name.replace(/['"]/g, ''),
+      type: ((kind === '(' && `(${rest}`) || rest).replace(/\s+/g, ' ').trim(),
+      ...(defaultValue && { defaultValue }),
+      required: !optional,
+      description,
+      deprecated
+    }];
+  });
+};
+
+/**
+ * Parse `key = value` and `key: value` pairs from an object pattern or literal.
+ *
+ * @param body
+ * @param assignment - Pair separator, "=" for destructured parameters, ":" for object literals
+ */
+const parseDefaultPairs = (body: string, assignment: '=' | ':') =>
+  Object.fromEntries(splitTopLevel(body, ',').flatMap(({ text }) => {
+    const pair = (assignment === '=' && /^([\w$]+)(?:\s*:\s*[\w$]+)?\s*=\s*([\s\S]+)$/.exec(text)) ||
+      (assignment === ':' && /^(['"]?[\w$-]+['"]?)\s*:\s*([\s\S]+)$/.exec(text));
+
+    return (pair && pair[2] !== 'undefined' &&
+      [[(pair[1] as string).replace(/['"]/g, ''), (pair[2] as string).replace(/\s+/g, ' ').trim()]]) || [];
+  }));
+
+/**
+ * Parse prop defaults for an interface, from destructured parameters, `({ variant = 'primary' }: ButtonProps)`, or
+ * a class `defaultProps` object.
+ *
+ * @param source - TypeScript source
+ * @param interfaceName - Interface name, e.g. "ButtonProps"
+ */
+const parsePropDefaults = (source: string, interfaceName: string): Record<string, string> => {
+  if (!PROP_NAME_REGEX.test(interfaceName)) {
+    return {};
+  }
+
+  const parameter = new RegExp(`\\}\\s*:\\s*${interfaceName}\\b`).exec(source);
+
+  if (parameter) {
+    let depth = 0;
+
+    for (let index = parameter.index; index >= 0; index--) {
+      depth += (source[index] === '}' && 1) || (source[index] === '{' && -1) || 0;
+
+      if (!depth) {
+        return parseDefaultPairs(source.slice(index + 1, parameter.index), '=');
+      }
+    }
+  }
+
+  const defaultProps = new RegExp(`defaultProps\\s*:\\s*[^=]*${interfaceName}[^=]*=\\s*\\{`).exec(source);
+  const body = defaultProps && getBlockBody(source, defaultProps.index + defaultProps[0].length - 1);
+
+  return (body && parseDefaultPairs(body, ':')) || {};
+};
+
+/**
+ * Parse the `propComponents` list from an examples page frontmatter. Names that aren't identifiers, see
+ * `PROP_NAME_REGEX`, are skipped.
+ *
+ * @param content - Examples markdown
+ */
+const parsePropComponents = (content: string) => {
+  const frontmatter = /^---\r?\n([\s\S]*?)\r?\n---/.exec(content)?.[1] || '';
+  const list = /^propComponents:\s*\[([\s\S]*?)\]/m.exec(frontmatter)?.[1] || '';
+
+  return [...list.matchAll(/['"]([^'"]+)['"]/g)].map(([, name]) => name as string).filter(name => PROP_NAME_REGEX.test(name));
+};
+
+/**
+ * Candidate sources for a prop component, local declarations first, then the remote TSX source.
+ *
+ * @param component - Component directory name, e.g. "Dropdown"
+ * @param propComponent - Prop component name, e.g. "DropdownItem"
+ * @param options
+ */
+const getPropSources = (component: string, propComponent: string, options = OPTIONS) => {
+  const localPath = join(options.contextPath, 'node_modules', '@patternfly', 'react-core', 'dist', 'esm', 'components', component);
+
+  return [...new Set([
+    join(localPath, `${propComponent}.d.ts`),
+    join(localPath, `${component}.d.ts`),
+    `${options.pfExternalExamplesComponents}/${component}/${propComponent}.tsx`,
+    `${options.pfExternalExamplesComponents}/${component}/${component}.tsx`
+  ])];
+};
+
+/**
+ * Load and parse the props of a component, from its examples page `propComponents` and component sources. Types are
+ * read from the first source declaring the interface, local declarations when installed. Declarations have no
+ * destructured defaults, so defaults are then read from the TSX source declaring the same interface.
+ *
+ * @param name - Component name, e.g. "Button" or "about-modal"
+ * @param options
+ */
+const getComponentPropsFunction = async (name: string, options = OPTIONS): Promise<ComponentProps | undefined> => {
+  const [examples] = queryDocs(COMPONENT_DOCS, { name, section: 'examples' });
+
+  if (!examples) {
+    return undefined;
+  }
+
+  const content = await loadDocFunction(examples.pathOrUrl, options);
+  const propComponents = parsePropComponents(content);
+  const interfaces: ComponentPropsInterface[] = [];
+  const missing: string[] = [];
+
+  for (const propComponent of (propComponents.length && propComponents) || [examples.displayName]) {
+    let found: ComponentPropsInterface | undefined;
+    let defaults: Record<string, string> = {};
+
+    for (const source of getPropSources(examples.displayName, propComponent, options)) {
+      if (found && source.endsWith('.d.ts')) {
+        continue;
+      }
+
+      const sourceContent = await loadDocFunction(source, options).catch(() => undefined);
+      const interfaceName = ((found && [found.interfaceName]) || [`${propComponent}Props`, propComponent]).find(candidate =>
+        sourceContent && new RegExp(`\\binterface\\s+${candidate}\\b`).test(sourceContent));
+
+      if (sourceContent && interfaceName) {
+        defaults = parsePropDefaults(sourceContent, interfaceName);
+
+        if (found) {
+          found.defaultsSource = source;
+        } else {
+          found = { name: propComponent, interfaceName, source, props: parseInterfaceProps(sourceContent, interfaceName) || [] };
+        }
+
+        if (!source.endsWith('.d.ts')) {
+          break;
+        }
+      }
+    }
+
+    if (found) {
+      interfaces.push({
+        ...found,
+        props: found.props.map(prop => ({
+          ...prop,
+          ...(defaults[prop.name] !== undefined && { defaultValue: defaults[prop.name] as string })
+        }))
+      });
+    } else {
+      missing.push(propComponent);
+    }
+  }
+
+  return { component: examples.displayName, examplesUrl: examples.pathOrUrl, interfaces, missing };
+};
+
+export {
+  PROP_NAME_REGEX,
+  getComponentPropsFunction,
+  getPropSources,
+  parseInterfaceProps,
+  parseJsDoc,
+  parsePropComponents,
+  parsePropDefaults,
+  splitTopLevel,
+  type ComponentProp,
+  type ComponentProps,
+  type ComponentPropsInterface
+};
@@ -0,0 +1,275 @@
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { COMPONENT_DOCS } from './docs.component';
+import { LAYOUT_DOCS } from './docs.layout';
+import { CHART_DOCS } from './docs.chart';
+import { LOCAL_DOCS } from './docs.local';
+import { CUSTOM_DOCS } from './docs.custom';
+import { createDocEntry, getDocLabel, type DocEntry } from './docs.catalog';
+import { parseLlmsTxt } from './docs.llms';
+import { OPTIONS } from './options';
+import { readLocalFileFunction } from './server.getResources';
+
+/**
+ * Ranked search result
+ *
+ * @property entry - Matched catalog entry
+ * @property label - Link label, e.g. "@patternfly/Select - Examples"
+ * @property url - External URL or local path
+ * @property section - Section kind, e.g. "examples"
+ * @property score - Relevance between 0 and 1
+ * @property snippet - Short description of the page
+ */
+interface DocSearchResult {
+  entry: DocEntry;
+  label: string;
+  url: string;
+  section: DocEntry['section'];
+  score: number;
+  snippet: string;
+}
+
+/**
+ * Words ignored when tokenizing a query
+ */
+const STOP_WORDS = new Set(['a', 'an', 'and', 'for', 'how', 'in', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+/**
+ * Score weights, name matches outrank description matches. Coverage is the share of the final score given to how
+ * much of the name the query matches.
+ */
+const SCORE_WEIGHTS = {
+  name: 3,
+  text: 1,
+  coverage: 0.1
+};
+
+/**
+ * Maximum snippet length
+ */
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Split a value into lowercase word tokens, splitting camel case, e.g. "EmptyState" becomes ["empty", "state"].
+ *
+ * @param value
+ */
+const tokenize = (value: string) =>
+  value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !STOP_WORDS.has(token));
+
+/**
+ * Levenshtein distance between two strings.
+ *
+ * @param first
+ * @param second
+ */
+const editDistance = (first: string, second: string) => {
+  let previous = Array.from({ length: second.length + 1 }, (_value, index) => index);
+
+  for (let i = 1; i <= first.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= second.length; j++) {
+      current[j] = Math.min(
+        (previous[j] as number) + 1,
+        (current[j - 1] as number) + 1,
+        (previous[j - 1] as number) + (first[i - 1] === second[j - 1] ? 0 : 1)
+      );
+    }
+
+    previous = current;
+  }
+
+  return previous[second.length] as number;
+};
+
+/**
+ * Score a query token against field tokens. Exact matches score 1, prefixes and plurals 0.8, close misspellings 0.6.
+ *
+ * @param queryToken
+ * @param fieldTokens
+ */
+const scoreToken = (queryToken: string, fieldTokens: string[]) => {
+  const maxDistance = (queryToken.length >= 7 && 2) || (queryToken.length >= 4 && 1) || 0;
+
+  return fieldTokens.reduce((best, token) => {
+    if (token === queryToken) {
+      return 1;
+    }
+
+    if ((queryToken.length >= 3 && token.startsWith(queryToken)) ||
+      (token.length >= 3 && queryToken.startsWith(token) && queryToken.length - token.length <= 2)) {
+      return Math.max(best, 0.8);
+    }
+
+    if (maxDistance && Math.abs(token.length - queryToken.length) <= maxDistance &&
+      editDistance(queryToken, token) <= maxDistance) {
+      return Math.max(best, 0.6);
+    }
+
+    return best;
+  }, 0);
+};
+
+/**
+ * Score an entry against query tokens, between 0 and 1. Names fully covered by the query rank first, e.g. "select"
+ * ranks "Select" above "FormSelect".
+ *
+ * @param queryTokens
+ * @param entry
+ */
+const scoreEntry = (queryTokens: string[], entry: DocEntry) => {
+  const nameTokens = tokenize(entry.displayName);
+  const textTokens = tokenize(`${entry.namespace || ''} ${entry.category} ${entry.section} ${entry.description}`);
+  const total = queryTokens.reduce((sum, token) =>
+    sum + Math.max(scoreToken(token, nameTokens) * SCORE_WEIGHTS.name, scoreToken(token, textTokens) * SCORE_WEIGHTS.text), 0);
+
+  if (!total) {
+    return 0;
+  }
+
+  const nameCoverage = nameTokens.filter(nameToken => scoreToken(nameToken, queryTokens)).length / (nameTokens.length || 1);
+
+  return ((total / (queryTokens.length * SCORE_WEIGHTS.name)) * (1 - SCORE_WEIGHTS.coverage)) +
+    (nameCoverage * SCORE_WEIGHTS.coverage);
+};
+
+/**
+ * Shorten a description to a snippet.
+ *
+ * @param description
+ */
+const toSnippet = (description: string) =>
+  (description.length > SNIPPET_LENGTH && `${description.slice(0, SNIPPET_LENGTH - 3).trimEnd()}...`) || description;
+
+/**
+ * Rank entries against a free-text query, using fuzzy matching over names and descriptions.
+ *
+ * @param entries
+ * @param query
+ * @param settings
+ * @param settings.limit - Maximum number of results
+ */
+const searchDocs = (entries: DocEntry[], query: string, { limit = 10 }: { limit?: number } = {}): DocSearchResult[] => {
+  const queryTokens = tokenize(query);
+
+  if (!queryTokens.length) {
+    return [];
+  }
+
+  return entries
+    .map(entry => ({ entry, score: scoreEntry(queryTokens, entry) }))
+    .filter(({ score }) => score > 0)
+    .sort((first, second) => second.score - first.score)
+    .slice(0, limit)
+    .map(({ entry, score }) => ({
+      entry,
+      label: getDocLabel(entry),
+      url: entry.pathOrUrl,
+      section: entry.section,
+      score: Math.round(score * 1000) / 1000,
+      snippet: toSnippet(entry.description)
+    }));
+};
+
+/**
+ * Parse llms.txt links with their classification, skipping empty links, see `parseLlmsTxt`.
+ *
+ * @param content
+ */
+const parseLlmsTxtClassifications = (content: string) =>
+  parseLlmsTxt(content).sections
+    .flatMap(({ entries }) => entries)
+    .filter(({ url }) => url)
+    .map(({ title, url, classification }) => ({ label: title, url, classification }));
+
+/**
+ * List llms.txt files in the `llms-files/<package>/<version>/llms.txt` directory layout, sorted by package and version.
+ *
+ * @param options
+ */
+const listLlmsTxtFilesFunction = async (options = OPTIONS) => {
+  const listDirs = async (path: string) =>
+    (await readdir(path, { withFileTypes: true }).catch(() => []))
+      .filter(dirent => dirent.isDirectory())
+      .map(dirent => dirent.name)
+      .sort();
+
+  const packages = await listDirs(options.llmsFilesPath);
+  const files = await Promise.all(packages.map(async packageName =>
+    (await listDirs(join(options.llmsFilesPath, packageName))).map(version => ({
+      packageName: `@patternfly/${packageName}`,
+      version,
+      path: join(options.llmsFilesPath, packageName, version, 'llms.txt')
+    }))));
+
+  return files.flat();
+};
+
+/**
+ * Load llms.txt links from the `llms-files/<package>/<version>/llms.txt` directory layout.
+ *
+ * @param options
+ */
+const loadLlmsTxtLinks = async (options = OPTIONS) => {
+  const links = await Promise.all((await listLlmsTxtFilesFunction(options)).map(async ({ packageName, version, path }) => {
+    const content = await readLocalFileFunction.memo(path).catch(() => '');
+
+    return parseLlmsTxtClassifications(content).map(link => ({ ...link, packageName, version }));
+  }));
+
+  return links.flat();
+};
+
+/**
+ * Searchable entries, the bundled catalogs and custom documentation merged with llms.txt classifications. llms.txt
+ * pages missing from the catalogs are included as guide entries.
+ *
+ * @param options
+ */
+const getSearchEntriesFunction = async (options = OPTIONS): Promise<DocEntry[]> => {
+  const catalog = [...COMPONENT_DOCS, ...LAYOUT_DOCS, ...CHART_DOCS, ...LOCAL_DOCS, ...CUSTOM_DOCS];
+  const classifications = new Map<string, string>();
+  const extraEntries = new Map<string, DocEntry>();
+
+  (await loadLlmsTxtLinks(options)).forEach(({ label, url, classification, packageName, version }) => {
+    if (classification && !classifications.has(url)) {
+      classifications.set(url, classification);
+    }
+
+    if (!catalog.some(({ pathOrUrl }) => pathOrUrl === url) && !extraEntries.has(url)) {
+      extraEntries.set(url, createDocEntry({
+        displayName: label.replace(/^@patternfly\//, ''),
+        category: 'guide',
+        section: 'guide',
+        packageName,
+        version,
+        pathOrUrl: url,
+        description: classification
+      }));
+    }
+  });
+
+  return [
+    ...catalog.map(entry => ({
+      ...entry,
+      description: [entry.description, classifications.get(entry.pathOrUrl)].filter(Boolean).join('. ')
+    })),
+    ...extraEntries.values()
+  ];
+};
+
+export {
+  editDistance,
+  getSearchEntriesFunction,
+  listLlmsTxtFilesFunction,
+  loadLlmsTxtLinks,
+  parseLlmsTxtClassifications,
+  searchDocs,
+  tokenize,
+  type DocSearchResult
+};
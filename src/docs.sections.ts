@@ -0,0 +1,137 @@
+import { toAnchor } from './docs.index';
+
+/**
+ * Markdown heading and the line range of its subtree
+ *
+ * @property level - Heading level, 1 to 6
+ * @property title - Heading text
+ * @property slug - GitHub style heading anchor, repeated headings get a "-1", "-2" suffix
+ * @property start - Line index of the heading
+ * @property end - Line index after the subtree, the next heading of the same or a higher level
+ */
+interface DocsHeading {
+  level: number;
+  title: string;
+  slug: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Section selection
+ *
+ * @property sections - Heading titles or slugs, matching subtrees are returned
+ * @property outline - Return the heading outline instead of the content
+ */
+interface DocsSelection {
+  sections?: string[] | undefined;
+  outline?: boolean | undefined;
+}
+
+/**
+ * Parse the markdown heading tree, ignoring headings inside fenced code blocks.
+ *
+ * @param lines - Markdown lines
+ */
+const parseHeadings = (lines: string[]): DocsHeading[] => {
+  const headings: DocsHeading[] = [];
+  const slugCounts = new Map<string, number>();
+  let isFenced = false;
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      isFenced = !isFenced;
+    }
+
+    const match = (!isFenced && /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line)) || undefined;
+
+    if (match?.[1] && match[2]) {
+      const anchor = toAnchor(match[2]);
+      const count = slugCounts.get(anchor) || 0;
+
+      slugCounts.set(anchor, count + 1);
+      headings.push({
+        level: match[1].length,
+        title: match[2],
+        slug: (count && `${anchor}-${count}`) || anchor,
+        start: index,
+        end: lines.length
+      });
+    }
+  });
+
+  headings.forEach((heading, index) => {
+    const next = headings.slice(index + 1).find(({ level }) => level <= heading.level);
+
+    heading.end = next?.start ?? lines.length;
+  });
+
+  return headings;
+};
+
+/**
+ * Check if a heading matches a requested title or slug, case-insensitive. A leading "#" is ignored.
+ *
+ * @param heading
+ * @param section
+ */
+const isSectionMatch = (heading: Pick<DocsHeading, 'title' | 'slug'> & Partial<DocsHeading>, section: string) => {
+  const value = section.trim().replace(/^#+\s*/, '');
+
+  return heading.slug === value.toLowerCase() || toAnchor(heading.title) === toAnchor(value);
+};
+
+/**
+ * Render a heading outline, one indented list item with its slug per heading.
+ *
+ * @param headings
+ */
+const renderOutline = (headings: DocsHeading[]) => {
+  const minLevel = Math.min(...headings.map(({ level }) => level));
+
+  return headings
+    .map(({ level, title, slug }) => `${'  '.repeat(level - minLevel)}- ${title} (#${slug})`)
+    .join('\n');
+};
+
+/**
+ * Select heading subtrees from markdown, or its outline. Nested matches are returned once, as part of their parent.
+ * Content is returned unchanged without a selection.
+ *
+ * @param content - Markdown content
+ * @param selection - Sections and outline mode
+ */
+const selectSections = (content: string, { sections, outline }: DocsSelection = {}) => {
+  const requested = (sections || []).filter(section => section.trim());
+
+  if (!requested.length && !outline) {
+    return content;
+  }
+
+  const lines = content.split(/\r?\n/);
+  const headings = parseHeadings(lines);
+  let selected = headings;
+  let selectedContent = content;
+
+  if (requested.length) {
+    const matches = headings.filter(heading => requested.some(section => isSectionMatch(heading, section)));
+    const roots = matches.filter(match =>
+      !matches.some(parent => parent !== match && parent.start < match.start && match.end <= parent.end));
+
+    if (!roots.length) {
+      return `No sections matching ${requested.map(section => `"${section}"`).join(', ')}. Available sections:\n\n${
+        (headings.length && renderOutline(headings)) || '(no headings)'}`;
+    }
+
+    selected = headings.filter(heading => roots.some(root => root.start <= heading.start && heading.end <= root.end));
+    selectedContent = roots.map(({ start, end }) => lines.slice(start, end).join('\n').trim()).join('\n\n');
+  }
+
+  if (outline) {
+    return (selected.length && renderOutline(selected)) || '(no headings)';
+  }
+
+  return selectedContent;
+};
+
+export { isSectionMatch, parseHeadings, renderOutline, selectSections, type DocsHeading, type DocsSelection };
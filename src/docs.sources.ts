@@ -0,0 +1,177 @@
+import { readdir } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { z } from 'zod';
+import { createDocEntry, getDocLabel, type DocEntry } from './docs.catalog';
+import { setCustomDocs } from './docs.custom';
+import { parseLlmsTxtClassifications } from './docs.search';
+import { OPTIONS } from './options';
+import { type DocSourceOptions } from './options.config';
+import { loadDocFunction } from './server.getResources';
+
+/**
+ * JSON catalog schema, an array of entries. Relative `pathOrUrl` and `fallbacks` values are resolved against the
+ * catalog location.
+ */
+const DOC_CATALOG_SCHEMA = z.array(z.object({
+  displayName: z.string().min(1),
+  pathOrUrl: z.string().min(1),
+  fallbacks: z.array(z.string().min(1)).optional(),
+  description: z.string().optional(),
+  name: z.string().min(1).optional(),
+  category: z.enum(['component', 'layout', 'chart', 'guide']).optional(),
+  section: z.enum(['design-guidelines', 'accessibility', 'examples', 'guide']).optional()
+}).strict());
+
+/**
+ * File names, without extension, named after their directory, e.g. "product-card/README.md"
+ */
+const INDEX_FILE_NAMES = ['readme', 'index'];
+
+/**
+ * Resolve a path or URL listed in a source against the source location, e.g. a relative llms.txt link.
+ *
+ * @param pathOrUrl
+ * @param sourcePathOrUrl
+ * @param options
+ */
+const resolveSourcePathOrUrl = (pathOrUrl: string, sourcePathOrUrl: string, options = OPTIONS) =>
+  (options.urlRegex.test(pathOrUrl) && pathOrUrl) ||
+  (options.urlRegex.test(sourcePathOrUrl) && new URL(pathOrUrl, sourcePathOrUrl).href) ||
+  resolve(dirname(sourcePathOrUrl), pathOrUrl);
+
+/**
+ * Summary of a markdown document, the first paragraph line outside the frontmatter and code blocks, or the first
+ * heading.
+ *
+ * @param content
+ */
+const getDocSummary = (content: string) => {
+  const lines = content
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .replace(/^(```|~~~)[\s\S]*?^\1/gm, '')
+    .split('\n')
+    .map(line => line.trim());
+
+  return lines.find(line => line && !/^(#|<|!\[|\||-{3,})/.test(line)) ||
+    lines.find(line => /^#+\s/.test(line))?.replace(/^#+\s+/, '') ||
+    '';
+};
+
+/**
+ * List readable files in a directory, recursively, skipping hidden files and directories.
+ *
+ * @param dir
+ * @param options
+ */
+const listDocFilesFunction = async (dir: string, options = OPTIONS): Promise<string[]> => {
+  const dirents = (await readdir(dir, { withFileTypes: true }))
+    .filter(dirent => !dirent.name.startsWith('.'))
+    .sort((first, second) => first.name.localeCompare(second.name));
+
+  const files = await Promise.all(dirents.map(async dirent => {
+    const path = join(dir, dirent.name);
+
+    if (dirent.isDirectory()) {
+      return listDocFilesFunction(path, options);
+    }
+
+    return (dirent.isFile() && options.localFileExtensions.includes(extname(dirent.name).toLowerCase()) && [path]) || [];
+  }));
+
+  return files.flat();
+};
+
+/**
+ * Load entries from a documentation source. Directory files are listed by file name, or directory name for README
+ * and index files, llms.txt links by label, and catalogs as listed.
+ *
+ * @param source
+ * @param options
+ * @throws {Error} When the source can't be read or a catalog is invalid
+ */
+const loadDocSourceFunction = async ({ namespace, type, pathOrUrl }: DocSourceOptions, options = OPTIONS): Promise<DocEntry[]> => {
+  const defaults = { category: 'guide', section: 'guide', packageName: namespace, namespace } as const;
+
+  switch (type) {
+    case 'directory': {
+      const files = await listDocFilesFunction(pathOrUrl, options);
+
+      return Promise.all(files.map(async file => {
+        const fileName = basename(file, extname(file));
+
+        return createDocEntry({
+          ...defaults,
+          displayName: (INDEX_FILE_NAMES.includes(fileName.toLowerCase()) && basename(dirname(file))) || fileName,
+          pathOrUrl: file,
+          description: getDocSummary(await loadDocFunction(file, options))
+        });
+      }));
+    }
+    case 'llms.txt':
+      return parseLlmsTxtClassifications(await loadDocFunction(pathOrUrl, options))
+        .filter(({ label }) => label)
+        .map(({ label, url, classification }) => createDocEntry({
+          ...defaults,
+          displayName: label.replace(/^@[^/\s]+\//, ''),
+          pathOrUrl: resolveSourcePathOrUrl(url, pathOrUrl, options),
+          description: classification
+        }));
+    case 'catalog': {
+      const result = DOC_CATALOG_SCHEMA.safeParse(JSON.parse(await loadDocFunction(pathOrUrl, options)));
+
+      if (!result.success) {
+        throw new Error(`Invalid catalog: ${result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`);
+      }
+
+      return result.data.map(({ name, description, category, section, fallbacks, ...entry }) => createDocEntry({
+        ...defaults,
+        ...entry,
+        ...(name && { name }),
+        ...(category && { category }),
+        ...(section && { section }),
+        ...(fallbacks && { fallbacks: fallbacks.map(fallback => resolveSourcePathOrUrl(fallback, pathOrUrl, options)) }),
+        description: description || '',
+        pathOrUrl: resolveSourcePathOrUrl(entry.pathOrUrl, pathOrUrl, options)
+      }));
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Load entries from every custom documentation source and register them, see `CUSTOM_DOCS`. Sources that fail to
+ * load are logged and skipped, duplicate labels keep the first entry.
+ *
+ * @param options
+ */
+const loadDocSourcesFunction = async (options = OPTIONS) => {
+  const sources = options.docsSources || [];
+  const settled = await Promise.allSettled(sources.map(source => loadDocSourceFunction(source, options)));
+  const entries = new Map<string, DocEntry>();
+
+  settled.forEach((res, index) => {
+    if (res.status === 'rejected') {
+      console.error(`Failed to load documentation source ${sources[index]?.pathOrUrl}: ${res.reason}`);
+
+      return;
+    }
+
+    res.value.forEach(entry => {
+      if (!entries.has(getDocLabel(entry))) {
+        entries.set(getDocLabel(entry), entry);
+      }
+    });
+  });
+
+  return setCustomDocs([...entries.values()]);
+};
+
+export {
+  DOC_CATALOG_SCHEMA,
+  getDocSummary,
+  listDocFilesFunction,
+  loadDocSourceFunction,
+  loadDocSourcesFunction,
+  resolveSourcePathOrUrl
+};
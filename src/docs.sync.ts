@@ -0,0 +1,111 @@
+import { CHART_DOCS } from './docs.chart';
+import { COMPONENT_DOCS } from './docs.component';
+import { LAYOUT_DOCS } from './docs.layout';
+import { loadLlmsTxtLinks } from './docs.search';
+import { getVersionedPathOrUrl } from './docs.version';
+import { OPTIONS } from './options';
+import { requestAllowedUrlFunction } from './server.getResources';
+import {
+  readMirrorManifestFunction,
+  writeMirrorContentFunction,
+  writeMirrorManifestFunction,
+  type MirrorEntry,
+  type MirrorManifest
+} from './server.mirror';
+
+/**
+ * Number of URLs downloaded in parallel
+ */
+const SYNC_CONCURRENCY = 6;
+
+/**
+ * Sync result
+ *
+ * @property manifest - Updated mirror manifest
+ * @property synced - URLs downloaded
+ * @property failed - URLs that failed to download, with the reason
+ */
+interface SyncResult {
+  manifest: MirrorManifest;
+  synced: string[];
+  failed: Array<{ url: string; reason: string }>;
+}
+
+/**
+ * Every external URL in the catalogs and llms-files, rewritten for the selected PatternFly version.
+ *
+ * @param options
+ */
+const getSyncUrlsFunction = async (options = OPTIONS) => {
+  const catalogUrls = [...COMPONENT_DOCS, ...LAYOUT_DOCS, ...CHART_DOCS].map(({ pathOrUrl }) => pathOrUrl);
+  const llmsUrls = (await loadLlmsTxtLinks(options)).map(({ url }) => url);
+
+  return [...new Set([...catalogUrls, ...llmsUrls]
+    .filter(url => options.urlRegex.test(url))
+    .map(url => getVersionedPathOrUrl(url, options)))];
+};
+
+/**
+ * Download URLs into a content-addressed mirror and update its manifest, sorted by URL so syncs diff cleanly.
+ * Downloads go through the URL policy like every other fetch, see `requestAllowedUrlFunction`. Previously mirrored
+ * URLs that fail to download keep their existing entry.
+ *
+ * @param outDir - Mirror directory
+ * @param urls - URLs to download
+ * @param options
+ */
+const syncMirrorFunction = async (outDir: string, urls: string[], options = OPTIONS): Promise<SyncResult> => {
+  const { entries } = await readMirrorManifestFunction(outDir);
+  const updatedEntries = new Map<string, MirrorEntry>(entries.map(entry => [entry.url, entry]));
+  const synced: string[] = [];
+  const failed: SyncResult['failed'] = [];
+
+  for (let index = 0; index < urls.length; index += SYNC_CONCURRENCY) {
+    await Promise.all(urls.slice(index, index + SYNC_CONCURRENCY).map(async url => {
+      try {
+        const hash = await writeMirrorContentFunction(outDir, await requestAllowedUrlFunction(url, options));
+
+        updatedEntries.set(url, { url, hash, fetchedAt: new Date().toISOString() });
+        synced.push(url);
+      } catch (error) {
+        failed.push({ url, reason: String((error as Error)?.message || error) });
+      }
+    }));
+  }
+
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    entries: [...updatedEntries.values()].sort((first, second) => first.url.localeCompare(second.url))
+  };
+
+  await writeMirrorManifestFunction(outDir, manifest);
+
+  return { manifest, synced, failed };
+};
+
+/**
+ * `sync` command, mirror every catalog and llms-files URL, or the URLs passed on the command line, into `--out`.
+ * Sets a non-zero exit code when any URL fails to download.
+ *
+ * @param options
+ * @throws {Error} When `--out` is missing
+ */
+const runSyncFunction = async (options = OPTIONS) => {
+  if (!options.out) {
+    throw new Error('Missing required option for sync: --out <dir>');
+  }
+
+  const urls = options.urls || await getSyncUrlsFunction(options);
+  const { synced, failed } = await syncMirrorFunction(options.out, urls, options);
+
+  failed.forEach(({ url, reason }) => console.error(`Failed to sync ${url}: ${reason}`));
+  console.info(`Synced ${synced.length} of ${urls.length} URLs to ${options.out}`);
+
+  if (failed.length) {
+    process.exitCode = 1;
+  }
+
+  return { synced, failed };
+};
+
+export { getSyncUrlsFunction, runSyncFunction, syncMirrorFunction, SYNC_CONCURRENCY, type SyncResult };
@@ -0,0 +1,137 @@
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DOCS_VERSION, type DocEntry } from './docs.catalog';
+import { OPTIONS, PF_EXTERNAL_REF } from './options';
+
+/**
+ * GitHub raw content URLs for PatternFly repositories, pinned to the default branch ref
+ */
+const PF_RAW_REF_REGEX = new RegExp(`^(https://raw\\.githubusercontent\\.com/patternfly/([\\w.-]+)/)${PF_EXTERNAL_REF}/`);
+
+/**
+ * Release tag refs of PatternFly repositories with a known tag format. URLs of other repositories, e.g.
+ * patternfly-org, stay on the default branch.
+ */
+const PF_RELEASE_REFS: Record<string, (version: string) => string> = {
+  'patternfly-react': version => `refs/tags/v${version}`
+};
+
+/**
+ * llms.txt path version segment, e.g. `react-core/6.0.0/llms.txt`
+ */
+const LLMS_VERSION_REGEX = /(^|[\\/])\d+\.\d+\.\d+([\\/]llms\.txt)$/;
+
+/**
+ * Release tag ref for a PatternFly version, e.g. "refs/tags/v6.0.0" for patternfly-react. Undefined when the
+ * repository's tag format is unknown.
+ *
+ * @param version
+ * @param repo - PatternFly repository name, e.g. "patternfly-react"
+ */
+const toReleaseRef = (version: string, repo: string) => PF_RELEASE_REFS[repo]?.(version);
+
+/**
+ * PatternFly versions with an llms-files catalog, sorted newest first.
+ *
+ * @param options
+ */
+const getAvailableVersionsFunction = async (options = OPTIONS) => {
+  const packages = (await readdir(options.llmsFilesPath, { withFileTypes: true }).catch(() => []))
+    .filter(dirent => dirent.isDirectory());
+  const versions = await Promise.all(packages.map(async dirent =>
+    (await readdir(join(options.llmsFilesPath, dirent.name), { withFileTypes: true }).catch(() => []))
+      .filter(versionDirent => versionDirent.isDirectory())
+      .map(versionDirent => versionDirent.name)));
+
+  return [...new Set(versions.flat())]
+    .filter(version => /^\d+\.\d+\.\d+$/.test(version))
+    .sort((first, second) => second.localeCompare(first, undefined, { numeric: true }));
+};
+
+/**
+ * Resolve a requested PatternFly version, e.g. "6", "v6.0" or "6.0.0", to a version with an llms-files catalog.
+ * Partial versions resolve to the newest matching version.
+ *
+ * @param version
+ * @param options
+ * @throws {Error} When no catalog exists for the version, or for its major version
+ */
+const resolvePfVersionFunction = async (version: string, options = OPTIONS) => {
+  const available = await getAvailableVersionsFunction(options);
+  const requested = String(version).trim().replace(/^v/i, '');
+  const resolved = available.find(availableVersion =>
+    availableVersion === requested || availableVersion.startsWith(`${requested}.`));
+
+  if (!resolved) {
+    const [major] = requested.split('.');
+    const majors = [...new Set(available.map(availableVersion => availableVersion.split('.')[0]))];
+    const isSupported = majors.includes(major);
+
+    throw new Error([
+      `No documentation catalog for PatternFly version "${version}".`,
+      ...((!isSupported && majors.length &&
+        [`PatternFly ${major} is not supported, catalogs are only available for PatternFly ${majors.join(', ')}.`]) || []),
+      `Available versions: ${available.join(', ') || 'none'}`
+    ].join(' '));
+  }
+
+  return resolved;
+};
+
+/**
+ * Rewrite a path or URL for a PatternFly version. GitHub raw URLs of repositories with a known tag format, see
+ * `PF_RELEASE_REFS`, move from the default branch to the release tag, local llms.txt paths, e.g.
+ * `react-core/6.0.0/llms.txt`, move to the version directory. Other values are returned unchanged.
+ *
+ * @param pathOrUrl
+ * @param options
+ */
+const getVersionedPathOrUrl = (pathOrUrl: string, options = OPTIONS) => {
+  const { pfVersion } = options;
+
+  if (!pfVersion) {
+    return pathOrUrl;
+  }
+
+  const [, repoUrl, repo = ''] = PF_RAW_REF_REGEX.exec(pathOrUrl) || [];
+
+  if (repoUrl) {
+    const releaseRef = toReleaseRef(pfVersion, repo);
+
+    return (releaseRef && pathOrUrl.replace(PF_RAW_REF_REGEX, `$1${releaseRef}/`)) || pathOrUrl;
+  }
+
+  return (!options.urlRegex.test(pathOrUrl) && pathOrUrl.replace(LLMS_VERSION_REGEX, `$1${pfVersion}$2`)) || pathOrUrl;
+};
+
+/**
+ * Catalog entries rewritten for the selected PatternFly version.
+ *
+ * @param entries
+ * @param options
+ */
+const getVersionedDocs = (entries: DocEntry[], options = OPTIONS): DocEntry[] =>
+  (options.pfVersion &&
+    entries.map(entry => ({
+      ...entry,
+      version: options.pfVersion as string,
+      pathOrUrl: getVersionedPathOrUrl(entry.pathOrUrl, options)
+    }))) ||
+  entries;
+
+/**
+ * Selected PatternFly version, or the bundled catalogs' version.
+ *
+ * @param options
+ */
+const getPfVersion = (options = OPTIONS) => options.pfVersion || DOCS_VERSION;
+
+export {
+  PF_RELEASE_REFS,
+  getAvailableVersionsFunction,
+  getPfVersion,
+  getVersionedDocs,
+  getVersionedPathOrUrl,
+  resolvePfVersionFunction,
+  toReleaseRef
+};
@@ -1,7 +1,15 @@
 #!/usr/bin/env node
 
-import { freezeOptions, parseCliOptions, type CliOptions } from './options';
-import { runServer } from './server';
+import { OPTIONS, freezeOptions, mergeOptions, parseCliOptions, type CliOptions, type GlobalOptions } from './options';
+import { getEnvOptions, loadConfigFileFunction, type ConfigOptions } from './options.config';
+import { runServer, type McpPrompt, type McpResource, type McpTool } from './server';
+import { loadPluginsFunction, type McpPlugin, type McpPluginContext } from './server.plugins';
+import { resolvePfVersionFunction } from './docs.version';
+import { runSyncFunction } from './docs.sync';
+import { runCheckLinksFunction } from './docs.links';
+import { runGenerateCatalogFunction } from './docs.generate';
+import { loadDocSourcesFunction } from './docs.sources';
+import { setLocalDocsPath } from './docs.local';
 
 /**
  * Main function - CLI entry point with optional programmatic overrides
@@ -13,14 +21,54 @@ const main = async (programmaticOptions?: Partial<CliOptions>): Promise<void> =>
     // Parse CLI options
     const cliOptions = parseCliOptions();
 
-    // Merge programmatic options with CLI options (programmatic takes precedence)
-    const finalOptions = { ...cliOptions, ...programmaticOptions };
+    // Load the config file, set with --config or discovered, and environment variables
+    const configOptions = await loadConfigFileFunction(programmaticOptions?.config || cliOptions.config);
+    const envOptions = getEnvOptions();
+
+    // Merge options, defaults < config file < environment < CLI < programmatic
+    const finalOptions = mergeOptions<CliOptions & ConfigOptions>(configOptions, envOptions, cliOptions, programmaticOptions);
+
+    // Resolve the PatternFly version against the final llms-files directory, fails when the version has no catalog
+    if (finalOptions.pfVersion) {
+      finalOptions.pfVersion = await resolvePfVersionFunction(
+        finalOptions.pfVersion,
+        mergeOptions<GlobalOptions>(OPTIONS, finalOptions)
+      );
+    }
 
     // Freeze options to prevent further changes
-    freezeOptions(finalOptions);
+    const options = freezeOptions(finalOptions);
+
+    // Point local guides and fallback copies at the final docs directory
+    setLocalDocsPath(options.docsPath);
+
+    // Run a CLI command instead of the server
+    if (finalOptions.command === 'sync') {
+      await runSyncFunction();
+
+      return;
+    }
+
+    if (finalOptions.command === 'generate-catalog') {
+      await runGenerateCatalogFunction();
+
+      return;
+    }
+
+    // Load custom documentation sources, listed with the bundled catalogs
+    await loadDocSourcesFunction();
+
+    if (finalOptions.command === 'check-links') {
+      await runCheckLinksFunction();
+
+      return;
+    }
+
+    // Load plugins, passed programmatically or set by module path in a config file
+    const plugins = await loadPluginsFunction(options.plugins);
 
     // Create and run the server
-    await runServer();
+    await runServer(options, { plugins });
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -35,4 +83,13 @@ if (process.env.NODE_ENV !== 'local') {
   });
 }
 
-export { main, main as start, type CliOptions };
+export {
+  main,
+  main as start,
+  type CliOptions,
+  type McpPlugin,
+  type McpPluginContext,
+  type McpPrompt,
+  type McpResource,
+  type McpTool
+};
@@ -0,0 +1,300 @@
+import { readFile, stat } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, resolve } from 'node:path';
+import { z, type ZodError } from 'zod';
+import { OPTIONS } from './options';
+
+/**
+ * Config file names, in discovery order. Both are JSON.
+ */
+const CONFIG_FILE_NAMES = ['patternfly-mcp.config.json', '.patternflymcprc'];
+
+/**
+ * Environment variables and the options they set
+ */
+const ENV_OPTIONS = {
+  DOC_MCP_FETCH_TIMEOUT_MS: 'fetchTimeout'
+} as const;
+
+/**
+ * Memoization options schema
+ */
+const memoOptionsSchema = z.object({
+  cacheLimit: z.number().int().min(1),
+  expire: z.number().int().min(0),
+  cacheErrors: z.boolean()
+}).partial().strict();
+
+/**
+ * Custom documentation source schema, a local directory, an llms.txt file or a JSON catalog. Entries are listed
+ * under the namespace, e.g. `@acme/ProductCard`.
+ */
+const DOC_SOURCE_SCHEMA = z.object({
+  namespace: z.string()
+    .regex(/^@[a-z0-9][a-z0-9._-]*$/, 'Expected a namespace, e.g. "@acme"')
+    .refine(namespace => namespace !== '@patternfly', 'The @patternfly namespace is reserved'),
+  type: z.enum(['directory', 'llms.txt', 'catalog']),
+  pathOrUrl: z.string().min(1)
+}).strict();
+
+/**
+ * Custom documentation source
+ */
+type DocSourceOptions = z.infer<typeof DOC_SOURCE_SCHEMA>;
+
+/**
+ * Configurable options, a subset of `GlobalOptions`. Nested objects are merged with the defaults, unknown keys are
+ * rejected.
+ */
+const CONFIG_SCHEMA = z.object({
+  docsHost: z.boolean(),
+  pfVersion: z.string().min(1),
+  mirror: z.string().min(1),
+  docsFallbackUrl: z.string().url(),
+  cacheDir: z.string().min(1),
+  allowUrls: z.array(z.string().min(1)),
+  allowPaths: z.array(z.string().min(1)),
+  docsSources: z.array(DOC_SOURCE_SCHEMA),
+  plugins: z.array(z.string().min(1)),
+  http: z.boolean(),
+  port: z.number().int().min(0).max(65535),
+  host: z.string().min(1),
+  fetchTimeout: z.number().int().min(1),
+  fetchOptions: z.object({
+    retries: z.number().int().min(0),
+    baseDelay: z.number().int().min(0),
+    maxDelay: z.number().int().min(0),
+    maxConcurrencyPerHost: z.number().int().min(1),
+    maxUrlsPerCall: z.number().int().min(1)
+  }).partial().strict(),
+  toolMemoOptions: z.object({
+    usePatternFlyDocs: memoOptionsSchema,
+    fetchDocs: memoOptionsSchema,
+    searchPatternFlyDocs: memoOptionsSchema,
+    getComponentProps: memoOptionsSchema
+  }).partial().strict(),
+  httpCacheOptions: z.object({
+    maxSize: z.number().int().min(0)
+  }).partial().strict(),
+  httpOptions: z.object({
+    port: z.number().int().min(0).max(65535),
+    host: z.string().min(1),
+    path: z.string().startsWith('/'),
+    allowedHosts: z.array(z.string().min(1))
+  }).partial().strict(),
+  separator: z.string(),
+  urlAllowlist: z.array(z.string().min(1)),
+  localFileExtensions: z.array(z.string().regex(/^\.\w+$/, 'Expected an extension, e.g. ".md"')),
+  docsPath: z.string().min(1),
+  llmsFilesPath: z.string().min(1)
+}).partial().strict();
+
+/**
+ * Options set by a config file or environment variables
+ */
+type ConfigOptions = z.infer<typeof CONFIG_SCHEMA>;
+
+/**
+ * Options that widen local file access, e.g. `docsPath` as a sandbox root, URL access, e.g. `docsFallbackUrl`, or
+ * network exposure, e.g. `host`. Nested options are dotted. Only read from a config file passed with `--config` or
+ * discovered in a trusted directory, the home directory, never from the working directory.
+ */
+const CONFIG_TRUSTED_KEYS = [
+  'allowPaths',
+  'allowUrls',
+  'cacheDir',
+  'docsFallbackUrl',
+  'docsPath',
+  'docsSources',
+  'host',
+  'http',
+  'httpOptions.allowedHosts',
+  'httpOptions.host',
+  'httpOptions.port',
+  'llmsFilesPath',
+  'localFileExtensions',
+  'mirror',
+  'port',
+  'urlAllowlist'
+] as const;
+
+/**
+ * Options that run code. Only read from a config file passed with `--config`, never from a discovered file.
+ */
+const CONFIG_EXPLICIT_KEYS = ['plugins'] as const;
+
+/**
+ * Path options, relative values in a config file are resolved against the file's directory
+ */
+const CONFIG_PATH_KEYS = ['mirror', 'cacheDir', 'docsPath', 'llmsFilesPath'] as const;
+
+/**
+ * Format schema issues, one line per issue with the option path, e.g. `toolMemoOptions.fetchDocs.expire: ...`.
+ * Unknown keys are listed one per line.
+ *
+ * @param error
+ */
+const formatConfigIssues = (error: ZodError) =>
+  error.issues
+    .flatMap(issue => ((issue.code === 'unrecognized_keys' &&
+      issue.keys.map(key => `${[...issue.path, key].join('.')}: unknown option`)) ||
+      [`${issue.path.join('.') || '(root)'}: ${issue.message}`]))
+    .map(line => `  - ${line}`)
+    .join('\n');
+
+/**
+ * Validate options against the config schema.
+ *
+ * @param value
+ * @param source - Config file path or environment, used in error messages
+ * @throws {Error} When an option is unknown or invalid
+ */
+const parseConfigOptions = (value: unknown, source: string): ConfigOptions => {
+  const result = CONFIG_SCHEMA.safeParse(value);
+
+  if (!result.success) {
+    throw new Error(`Invalid config in ${source}:\n${formatConfigIssues(result.error)}`);
+  }
+
+  return result.data;
+};
+
+/**
+ * Get a config option by key, nested options are dotted, e.g. `httpOptions.host`.
+ *
+ * @param config
+ * @param key
+ */
+const getConfigValue = (config: ConfigOptions, key: string) =>
+  key.split('.').reduce<unknown>((value, part) => (value as Record<string, unknown> | undefined)?.[part], config);
+
+/**
+ * Find the first config file in a list of directories, by default the working directory then the home directory.
+ *
+ * @param dirs
+ */
+const findConfigFileFunction = async (dirs = [OPTIONS.contextPath, homedir()]) => {
+  for (const dir of dirs) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const filePath = resolve(dir, fileName);
+
+      if ((await stat(filePath).catch(() => undefined))?.isFile()) {
+        return filePath;
+      }
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Load and validate a config file. Uses the file passed with `--config`, otherwise the first discovered file.
+ * Relative paths in the file, documentation sources and plugins included, are resolved against its directory.
+ * `CONFIG_EXPLICIT_KEYS` in a discovered file, and `CONFIG_TRUSTED_KEYS` in a file discovered outside the trusted
+ * directories, e.g. in an untrusted checkout, are ignored with a warning.
+ *
+ * @param configPath - Config file set with `--config`
+ * @param dirs - Directories searched when no config file is set
+ * @param trustedDirs - Directories a discovered config file can set `CONFIG_TRUSTED_KEYS` from
+ * @throws {Error} When the file can't be read or parsed, or has unknown or invalid options
+ */
+const loadConfigFileFunction = async (
+  configPath?: string,
+  dirs?: string[],
+  trustedDirs = [homedir()]
+): Promise<ConfigOptions> => {
+  const filePath = (configPath && resolve(OPTIONS.contextPath, configPath)) || await findConfigFileFunction(dirs);
+
+  if (!filePath) {
+    return {};
+  }
+
+  let value: unknown;
+
+  try {
+    value = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read config file ${filePath}: ${(error as Error).message}`);
+  }
+
+  const config = parseConfigOptions(value, filePath);
+  const configDir = dirname(filePath);
+  const isTrusted = Boolean(configPath) || trustedDirs.some(dir => resolve(dir) === configDir);
+  const ignoredKeys = [
+    ...((!configPath && CONFIG_EXPLICIT_KEYS) || []),
+    ...((!isTrusted && CONFIG_TRUSTED_KEYS) || [])
+  ].filter(key => getConfigValue(config, key) !== undefined);
+
+  if (ignoredKeys.length) {
+    console.error(`Ignoring ${ignoredKeys.join(', ')} in ${filePath}, set them in a config file passed with --config`);
+
+    ignoredKeys.forEach(key => {
+      const [parent, child] = key.split('.') as [keyof ConfigOptions, string | undefined];
+
+      if (child) {
+        delete (config[parent] as Record<string, unknown>)[child];
+      } else {
+        delete config[parent];
+      }
+    });
+  }
+
+  CONFIG_PATH_KEYS.forEach(key => {
+    if (config[key]) {
+      config[key] = resolve(configDir, config[key]);
+    }
+  });
+
+  if (config.allowPaths) {
+    config.allowPaths = config.allowPaths.map(path => resolve(configDir, path));
+  }
+
+  if (config.plugins) {
+    config.plugins = config.plugins.map(plugin => (plugin.startsWith('.') && resolve(configDir, plugin)) || plugin);
+  }
+
+  if (config.docsSources) {
+    config.docsSources = config.docsSources.map(source => ({
+      ...source,
+      pathOrUrl: (OPTIONS.urlRegex.test(source.pathOrUrl) && source.pathOrUrl) || resolve(configDir, source.pathOrUrl)
+    }));
+  }
+
+  return config;
+};
+
+/**
+ * Options set by environment variables, see `ENV_OPTIONS`.
+ *
+ * @param env
+ * @throws {Error} When a value is invalid
+ */
+const getEnvOptions = (env = process.env): ConfigOptions => {
+  const value = Object.fromEntries(Object.entries(ENV_OPTIONS)
+    .filter(([name]) => env[name] !== undefined && env[name] !== '')
+    .map(([name, key]) => [key, Number(env[name])]));
+
+  try {
+    return parseConfigOptions(value, 'environment');
+  } catch (error) {
+    throw new Error(Object.entries(ENV_OPTIONS).reduce(
+      (message, [name, key]) => message.replace(`  - ${key}:`, `  - ${name}:`),
+      (error as Error).message
+    ));
+  }
+};
+
+export {
+  CONFIG_EXPLICIT_KEYS,
+  CONFIG_FILE_NAMES,
+  CONFIG_SCHEMA,
+  CONFIG_TRUSTED_KEYS,
+  DOC_SOURCE_SCHEMA,
+  ENV_OPTIONS,
+  findConfigFileFunction,
+  getEnvOptions,
+  loadConfigFileFunction,
+  parseConfigOptions,
+  type ConfigOptions,
+  type DocSourceOptions
+};
@@ -1,20 +1,69 @@
-import { join } from 'node:path';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
 import packageJson from '../package.json';
+import { type ConfigOptions, type DocSourceOptions } from './options.config';
+import { type McpPlugin } from './server.plugins';
+
+/**
+ * CLI commands, run instead of the server, e.g. `patternfly-mcp sync --out <dir>`
+ */
+type CliCommand = typeof CLI_COMMANDS[number];
 
 /**
  * CLI options that users can set via command line arguments
  */
 interface CliOptions {
+  command?: CliCommand;
+  config?: string;
+  out?: string;
+  format?: string;
+  sources?: string[];
+  catalogVersion?: string;
+  force?: boolean;
+  urls?: string[];
   docsHost?: boolean;
+  pfVersion?: string;
+  mirror?: string;
+  docsFallbackUrl?: string;
+  cacheDir?: string;
+  allowUrls?: string[];
+  allowPaths?: string[];
+  http?: boolean;
+  port?: number;
+  host?: string;
+  plugins?: Array<McpPlugin | string>;
   // Future CLI options can be added here
 }
 
 /**
- * Application defaults (not user-configurable)
+ * CLI flag, `value` is the value placeholder shown in the usage message. Flags with a `command` only apply to that
+ * command, and take precedence over a flag with the same name.
+ */
+interface CliFlag {
+  name: string;
+  key: string;
+  type: 'boolean' | 'string' | 'number' | 'list' | 'path';
+  value?: string;
+  command?: CliCommand;
+  description: string;
+}
+
+/**
+ * Parsed CLI arguments, options and the `--help` and `--version` flags
+ */
+type CliArgs = CliOptions & ConfigOptions & { help?: boolean; version?: boolean };
+
+/**
+ * Application defaults, some can be set in a config file, see `CONFIG_SCHEMA`
  */
 interface AppDefaults {
   resourceMemoOptions: typeof RESOURCE_MEMO_OPTIONS;
   toolMemoOptions: typeof TOOL_MEMO_OPTIONS;
+  httpCacheOptions: typeof HTTP_CACHE_OPTIONS;
+  httpOptions: typeof HTTP_OPTIONS;
+  fetchOptions: typeof FETCH_OPTIONS;
+  docsSources: DocSourceOptions[];
+  fetchTimeout: number;
   pfExternal: string;
   pfExternalCharts: string;
   pfExternalChartsComponents: string;
@@ -23,8 +72,12 @@ interface AppDefaults {
   pfExternalDesignComponents: string;
   pfExternalDesignLayouts: string;
   pfExternalAccessibility: string;
+  pfExternalExamples: string;
+  pfExternalExamplesComponents: string;
   separator: string;
   urlRegex: RegExp;
+  urlAllowlist: string[];
+  localFileExtensions: string[];
   name: string;
   version: string;
   repoName: string | undefined;
@@ -40,6 +93,58 @@ interface GlobalOptions extends CliOptions, AppDefaults {
   // This will be frozen and immutable
 }
 
+/**
+ * Available CLI commands
+ */
+const CLI_COMMANDS = ['sync', 'check-links', 'generate-catalog'] as const;
+
+/**
+ * CLI commands' usage and description, shown in the usage message
+ */
+const CLI_COMMAND_OPTIONS: Record<CliCommand, { usage: string; description: string }> = {
+  sync: {
+    usage: 'sync --out <dir> [urls...]',
+    description: 'Download catalog and llms-files URLs, or the URLs passed, into an offline mirror'
+  },
+  'check-links': {
+    usage: 'check-links [--format text|json] [urls...]',
+    description: 'Check catalog and llms-files links, or the URLs passed, for empty targets, errors, redirects and duplicates'
+  },
+  'generate-catalog': {
+    usage: 'generate-catalog --source <dir> --version <version>',
+    description: 'Generate llms-files catalogs from PatternFly source checkouts'
+  }
+};
+
+/**
+ * Available CLI flags, in usage message order
+ */
+const CLI_FLAGS: CliFlag[] = [
+  { name: '--config', key: 'config', type: 'string', value: '<file>', description: 'Config file, defaults to a discovered patternfly-mcp.config.json or .patternflymcprc' },
+  { name: '--docs-host', key: 'docsHost', type: 'boolean', description: 'Serve llms.txt files from the llms-files directory' },
+  { name: '--pf-version', key: 'pfVersion', type: 'string', value: '<version>', description: 'PatternFly version to serve documentation for, e.g. 6 or 6.0.0' },
+  { name: '--docs-path', key: 'docsPath', type: 'path', value: '<dir>', description: 'Documentation directory' },
+  { name: '--llms-files-path', key: 'llmsFilesPath', type: 'path', value: '<dir>', description: 'llms-files directory, used with --docs-host' },
+  { name: '--allow-path', key: 'allowPaths', type: 'list', value: '<dir>', description: 'Additional local directory documentation can be read from, repeatable' },
+  { name: '--allow-url', key: 'allowUrls', type: 'list', value: '<url>', description: 'Additional URL prefix or host documentation can be fetched from, repeatable' },
+  { name: '--plugin', key: 'plugins', type: 'list', value: '<module>', description: 'Plugin module path or package name adding tools, resources and prompts, repeatable' },
+  { name: '--mirror', key: 'mirror', type: 'string', value: '<dir>', description: 'Serve external URLs from a mirror created by the sync command' },
+  { name: '--docs-fallback-url', key: 'docsFallbackUrl', type: 'string', value: '<url>', description: 'Base URL mirroring raw.githubusercontent.com, tried when PatternFly documentation fails to load' },
+  { name: '--cache-dir', key: 'cacheDir', type: 'string', value: '<dir>', description: 'Persistent HTTP cache directory' },
+  { name: '--cache-limit', key: 'cacheLimit', type: 'number', value: '<number>', description: 'Max cached results per tool' },
+  { name: '--fetch-timeout', key: 'fetchTimeout', type: 'number', value: '<ms>', description: 'Milliseconds to wait before aborting an HTTP fetch (default: 15000)' },
+  { name: '--http', key: 'http', type: 'boolean', description: 'Serve over Streamable HTTP instead of stdio' },
+  { name: '--port', key: 'port', type: 'number', value: '<number>', description: 'Port the HTTP transport listens on (default: 3333)' },
+  { name: '--host', key: 'host', type: 'string', value: '<host>', description: 'Host the HTTP transport binds to (default: 127.0.0.1)' },
+  { name: '--out', key: 'out', type: 'string', value: '<dir>', description: 'Output directory for the sync and generate-catalog commands' },
+  { name: '--format', key: 'format', type: 'string', value: '<format>', description: 'Report format for the check-links command, text or json (default: text)' },
+  { name: '--source', key: 'sources', type: 'list', value: '<dir>', description: 'PatternFly source checkout for the generate-catalog command, repeatable' },
+  { name: '--version', key: 'catalogVersion', type: 'string', value: '<version>', command: 'generate-catalog', description: 'Catalog version for the generate-catalog command, e.g. 6.x' },
+  { name: '--force', key: 'force', type: 'boolean', command: 'generate-catalog', description: 'Replace existing llms.txt files with the generate-catalog command' },
+  { name: '--help', key: 'help', type: 'boolean', description: 'Show this message' },
+  { name: '--version', key: 'version', type: 'boolean', description: 'Show the version' }
+];
+
 /**
  * Default separator for joining multiple document contents
  */
@@ -74,18 +179,67 @@ const TOOL_MEMO_OPTIONS = {
     cacheLimit: 15,
     expire: 1 * 60 * 1000, // 1 minute sliding cache
     cacheErrors: false
+  },
+  searchPatternFlyDocs: {
+    cacheLimit: 25,
+    expire: 1 * 60 * 1000, // 1 minute sliding cache
+    cacheErrors: false
+  },
+  getComponentProps: {
+    cacheLimit: 25,
+    expire: 3 * 60 * 1000, // 3 minute sliding cache
+    cacheErrors: false
   }
 };
 
+/**
+ * Persistent HTTP cache options, the cache directory is set with `--cache-dir`
+ */
+const HTTP_CACHE_OPTIONS = {
+  maxSize: 50 * 1024 * 1024 // 50 MB, least recently used entries are evicted first
+};
+
+/**
+ * Streamable HTTP transport defaults, used when the server runs with `--http`
+ */
+const HTTP_OPTIONS = {
+  port: 3333,
+  host: '127.0.0.1',
+  path: '/mcp',
+  allowedHosts: [] as string[] // Additional `Host` header values accepted, e.g. "mcp.example.com:3333"
+};
+
+/**
+ * Milliseconds to wait before aborting an HTTP fetch
+ */
+const FETCH_TIMEOUT = 15_000;
+
+/**
+ * HTTP fetch retry and rate limit options. Network errors, 429 and 5xx responses are retried with exponential
+ * backoff and jitter, a `Retry-After` longer than `maxDelay` isn't waited for.
+ */
+const FETCH_OPTIONS = {
+  retries: 2,
+  baseDelay: 500, // milliseconds, doubled per retry
+  maxDelay: 10_000, // milliseconds
+  maxConcurrencyPerHost: 4,
+  maxUrlsPerCall: 15 // URLs loaded per tool call, the rest are reported as failed
+};
+
 /**
  * URL regex pattern for detecting external URLs
  */
 const URL_REGEX = /^(https?:)\/\//i;
 
+/**
+ * Git ref the PatternFly external URLs point at. Rewritten to a release tag when a PatternFly version is selected.
+ */
+const PF_EXTERNAL_REF = 'refs/heads/main';
+
 /**
  * PatternFly docs root URL
  */
-const PF_EXTERNAL = 'https://raw.githubusercontent.com/patternfly/patternfly-org/refs/heads/main/packages/documentation-site/patternfly-docs/content';
+const PF_EXTERNAL = `https://raw.githubusercontent.com/patternfly/patternfly-org/${PF_EXTERNAL_REF}/packages/documentation-site/patternfly-docs/content`;
 
 /**
  * PatternFly design guidelines URL
@@ -107,10 +261,20 @@ const PF_EXTERNAL_DESIGN_LAYOUTS = `${PF_EXTERNAL_DESIGN}/layouts`;
  */
 const PF_EXTERNAL_ACCESSIBILITY = `${PF_EXTERNAL}/accessibility`;
 
+/**
+ * PatternFly React core examples root URL
+ */
+const PF_EXTERNAL_EXAMPLES = `https://raw.githubusercontent.com/patternfly/patternfly-react/${PF_EXTERNAL_REF}/packages/react-core/src`;
+
+/**
+ * PatternFly React core components' examples URL
+ */
+const PF_EXTERNAL_EXAMPLES_COMPONENTS = `${PF_EXTERNAL_EXAMPLES}/components`;
+
 /**
  * PatternFly charts root URL
  */
-const PF_EXTERNAL_CHARTS = 'https://raw.githubusercontent.com/patternfly/patternfly-react/refs/heads/main/packages/react-charts/src';
+const PF_EXTERNAL_CHARTS = `https://raw.githubusercontent.com/patternfly/patternfly-react/${PF_EXTERNAL_REF}/packages/react-charts/src`;
 
 /**
  * PatternFly charts' components' URL
@@ -122,11 +286,52 @@ const PF_EXTERNAL_CHARTS_COMPONENTS = `${PF_EXTERNAL_CHARTS}/victory/components`
  */
 const PF_EXTERNAL_CHARTS_DESIGN = `${PF_EXTERNAL_CHARTS}/charts`;
 
+/**
+ * User cache path, e.g. `~/.cache` on Linux
+ *
+ * @param platform
+ * @param env
+ */
+const getUserCachePath = (platform = process.platform, env = process.env) =>
+  env.XDG_CACHE_HOME ||
+  (platform === 'darwin' && join(homedir(), 'Library', 'Caches')) ||
+  (platform === 'win32' && env.LOCALAPPDATA) ||
+  join(homedir(), '.cache');
+
+/**
+ * URL prefixes external documentation can be fetched from, the PatternFly GitHub raw origins
+ */
+const URL_ALLOWLIST = [...new Set([PF_EXTERNAL, PF_EXTERNAL_EXAMPLES, PF_EXTERNAL_CHARTS]
+  .map(url => `${url.split('/').slice(0, 4).join('/')}/`))];
+
+/**
+ * Extensions of local files that can be read
+ */
+const LOCAL_FILE_EXTENSIONS = ['.md', '.mdx', '.txt'];
+
 /**
  * Global configuration options object.
  *
  * @type {GlobalOptions}
+ * @property {CliOptions.command} [command] - CLI command to run instead of the server, e.g. "sync".
+ * @property {CliOptions.config} [config] - Config file path, defaults to a discovered `patternfly-mcp.config.json` or `.patternflymcprc`.
+ * @property {CliOptions.out} [out] - Output directory for the sync and generate-catalog commands.
+ * @property {CliOptions.format} [format] - Report format for the check-links command, "text" or "json".
+ * @property {CliOptions.sources} [sources] - PatternFly source checkouts the generate-catalog command reads.
+ * @property {CliOptions.catalogVersion} [catalogVersion] - Catalog version the generate-catalog command writes, e.g. "6.x".
+ * @property {CliOptions.force} [force] - Flag indicating whether the generate-catalog command replaces existing llms.txt files.
+ * @property {CliOptions.urls} [urls] - URLs the sync and check-links commands are limited to, defaults to every catalog and llms-files URL.
  * @property {CliOptions.docsHost} [docsHost] - Flag indicating whether to use the docs-host.
+ * @property {CliOptions.pfVersion} [pfVersion] - PatternFly version the documentation is served for, e.g. "6.0.0".
+ * @property {CliOptions.mirror} [mirror] - Mirror directory, created by the sync command, external URLs are served from.
+ * @property {CliOptions.docsFallbackUrl} [docsFallbackUrl] - Base URL mirroring raw.githubusercontent.com, tried when PatternFly documentation fails to load.
+ * @property {CliOptions.cacheDir} [cacheDir] - Persistent HTTP cache directory, defaults to a directory under the user cache path.
+ * @property {CliOptions.allowUrls} [allowUrls] - Additional URL prefixes or hosts external documentation can be fetched from, private addresses included.
+ * @property {CliOptions.allowPaths} [allowPaths] - Additional local directories documentation can be read from.
+ * @property {CliOptions.http} [http] - Flag indicating whether to serve over Streamable HTTP instead of stdio.
+ * @property {CliOptions.port} [port] - Port the HTTP transport listens on.
+ * @property {CliOptions.host} [host] - Host the HTTP transport binds to.
+ * @property {CliOptions.plugins} [plugins] - Plugins, or plugin module paths, registering additional tools, resources and prompts.
  * @property {string} pfExternal - PatternFly external docs URL.
  * @property {string} pfExternalCharts - PatternFly external charts URL.
  * @property {string} pfExternalChartsComponents - PatternFly external charts components URL.
@@ -135,10 +340,19 @@ const PF_EXTERNAL_CHARTS_DESIGN = `${PF_EXTERNAL_CHARTS}/charts`;
  * @property {string} pfExternalDesignComponents - PatternFly external design guidelines components URL.
  * @property {string} pfExternalDesignLayouts - PatternFly external design guidelines layouts URL.
  * @property {string} pfExternalAccessibility - PatternFly external accessibility URL.
+ * @property {string} pfExternalExamples - PatternFly external React core examples URL.
+ * @property {string} pfExternalExamplesComponents - PatternFly external React core components' examples URL.
  * @property {typeof RESOURCE_MEMO_OPTIONS} resourceMemoOptions - Resource-level memoization options.
  * @property {typeof TOOL_MEMO_OPTIONS} toolMemoOptions - Tool-specific memoization options.
+ * @property {typeof HTTP_CACHE_OPTIONS} httpCacheOptions - Persistent HTTP cache options.
+ * @property {typeof HTTP_OPTIONS} httpOptions - Streamable HTTP transport defaults.
+ * @property {typeof FETCH_OPTIONS} fetchOptions - HTTP fetch retry and rate limit options.
+ * @property {DocSourceOptions[]} docsSources - Custom documentation sources, listed under their namespace, set in a config file.
+ * @property {number} fetchTimeout - Milliseconds to wait before aborting an HTTP fetch.
  * @property {string} separator - Default string delimiter.
  * @property {RegExp} urlRegex - Regular expression pattern for URL matching.
+ * @property {string[]} urlAllowlist - URL prefixes external documentation can be fetched from by default.
+ * @property {string[]} localFileExtensions - Extensions of local files that can be read.
  * @property {string} name - Name of the package.
  * @property {string} version - Version of the package.
  * @property {string} repoName - Name of the repository.
@@ -155,44 +369,238 @@ const OPTIONS: GlobalOptions = {
   pfExternalDesignComponents: PF_EXTERNAL_DESIGN_COMPONENTS,
   pfExternalDesignLayouts: PF_EXTERNAL_DESIGN_LAYOUTS,
   pfExternalAccessibility: PF_EXTERNAL_ACCESSIBILITY,
+  pfExternalExamples: PF_EXTERNAL_EXAMPLES,
+  pfExternalExamplesComponents: PF_EXTERNAL_EXAMPLES_COMPONENTS,
   resourceMemoOptions: RESOURCE_MEMO_OPTIONS,
   toolMemoOptions: TOOL_MEMO_OPTIONS,
+  httpCacheOptions: HTTP_CACHE_OPTIONS,
+  httpOptions: HTTP_OPTIONS,
+  fetchOptions: FETCH_OPTIONS,
+  docsSources: [],
+  fetchTimeout: FETCH_TIMEOUT,
   separator: DEFAULT_SEPARATOR,
   urlRegex: URL_REGEX,
+  urlAllowlist: URL_ALLOWLIST,
+  localFileExtensions: LOCAL_FILE_EXTENSIONS,
   name: packageJson.name,
   version: (process.env.NODE_ENV === 'local' && '0.0.0') || packageJson.version,
   repoName: process.cwd()?.split?.('/')?.pop?.()?.trim?.(),
   contextPath: (process.env.NODE_ENV === 'local' && '/') || process.cwd(),
   docsPath: (process.env.NODE_ENV === 'local' && '/documentation') || join(process.cwd(), 'documentation'),
-  llmsFilesPath: (process.env.NODE_ENV === 'local' && '/llms-files') || join(process.cwd(), 'llms-files')
+  llmsFilesPath: (process.env.NODE_ENV === 'local' && '/llms-files') || join(process.cwd(), 'llms-files'),
+  cacheDir: (process.env.NODE_ENV === 'local' && '/.cache/patternfly-mcp') || join(getUserCachePath(), 'patternfly-mcp')
 };
 
 /**
- * Parse CLI arguments and return CLI options
+ * Parse a CLI flag value by type. Number values are whole numbers, list values are comma separated and accumulate
+ * across repeated flags, path values are resolved against the working directory.
+ *
+ * @param flag
+ * @param value
+ * @param previous - Value set by a previous, repeated, flag
+ * @throws {Error} When a number value is invalid
  */
-const parseCliOptions = (): CliOptions => ({
-  docsHost: process.argv.includes('--docs-host')
-  // Future CLI options can be added here
-});
+const parseCliValue = (flag: CliFlag, value: string, previous?: unknown) => {
+  switch (flag.type) {
+    case 'number':
+      if (!/^\d+$/.test(value)) {
+        throw new Error(`Invalid value for ${flag.name}: expected a whole number, received "${value}"`);
+      }
+
+      return Number.parseInt(value, 10);
+    case 'list':
+      return [...((Array.isArray(previous) && previous) || []), ...value.split(',').map(item => item.trim()).filter(Boolean)];
+    case 'path':
+      return resolve(OPTIONS.contextPath, value);
+    default:
+      return value;
+  }
+};
+
+/**
+ * Parse CLI arguments, without the node and script paths. Supports `--flag value` and `--flag=value`, boolean flags
+ * accept `--flag=true` and `--flag=false`.
+ *
+ * @param args
+ * @throws {Error} When a flag is unknown, a value is missing or invalid, or an argument is unexpected
+ */
+const parseCliArgs = (args: string[]): CliArgs => {
+  const values: Record<string, unknown> = {};
+  const positionals: string[] = [];
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index] as string;
+
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const separatorIndex = arg.indexOf('=');
+    const name = (separatorIndex > 0 && arg.slice(0, separatorIndex)) || arg;
+    const inlineValue = (separatorIndex > 0 && arg.slice(separatorIndex + 1)) || undefined;
+    const flag = CLI_FLAGS.find(cliFlag =>
+      cliFlag.name === name && (!cliFlag.command || args.includes(cliFlag.command)));
+
+    if (!flag) {
+      throw new Error(`Unknown option: ${name}`);
+    }
+
+    if (flag.type === 'boolean') {
+      if (separatorIndex > 0 && inlineValue !== 'true' && inlineValue !== 'false') {
+        throw new Error(`Invalid value for ${name}: expected true or false, received "${inlineValue || ''}"`);
+      }
+
+      values[flag.key] = inlineValue !== 'false';
+      continue;
+    }
+
+    const nextArg = (separatorIndex < 0 && args[index + 1]) || undefined;
+    const value = inlineValue || (nextArg && !nextArg.startsWith('--') && nextArg) || undefined;
+
+    if (!value) {
+      throw new Error(`Missing value for ${name}`);
+    }
+
+    if (value === nextArg) {
+      index += 1;
+    }
+
+    values[flag.key] = parseCliValue(flag, value, values[flag.key]);
+  }
+
+  const [commandArg, ...commandArgs] = positionals;
+  const command = CLI_COMMANDS.find(cliCommand => cliCommand === commandArg);
+
+  if (commandArg !== undefined && !command) {
+    throw new Error(`Unknown command: ${commandArg}`);
+  }
+
+  const unexpectedArg = commandArgs.find(arg => !URL_REGEX.test(arg));
+
+  if (unexpectedArg !== undefined) {
+    throw new Error(`Unexpected argument: ${unexpectedArg}, expected a URL`);
+  }
+
+  const { cacheLimit, ...options } = values;
+
+  return {
+    ...(command && { command }),
+    ...(commandArgs.length && { urls: commandArgs }),
+    ...options,
+    ...(typeof cacheLimit === 'number' && {
+      toolMemoOptions: Object.fromEntries(Object.keys(TOOL_MEMO_OPTIONS).map(tool => [tool, { cacheLimit }]))
+    })
+    // Future CLI options can be added here
+  };
+};
+
+/**
+ * CLI usage message, listing commands and flags
+ */
+const getCliUsage = () => {
+  const commands = Object.values(CLI_COMMAND_OPTIONS).map(({ usage, description }) => [usage, description]);
+  const flags = CLI_FLAGS.map(({ name, value, description }) => [(value && `${name} ${value}`) || name, description]);
+  const width = Math.max(...[...commands, ...flags].map(([label = '']) => label.length)) + 2;
+  const format = (rows: string[][]) => rows.map(([label = '', description]) => `  ${label.padEnd(width)}${description}`).join('\n');
+
+  return [
+    'Usage: patternfly-mcp [command] [options]',
+    '',
+    'Commands:',
+    format(commands),
+    '',
+    'Options:',
+    format(flags)
+  ].join('\n');
+};
+
+/**
+ * Parse CLI arguments and return CLI options. Prints the usage message with `--help`, the package version with
+ * `--version`, and exits. Unknown flags and invalid values print the error and usage message, and exit non-zero.
+ *
+ * @param argv
+ */
+const parseCliOptions = (argv = process.argv): CliOptions & ConfigOptions => {
+  let cliArgs: CliArgs;
+
+  try {
+    cliArgs = parseCliArgs(argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${getCliUsage()}`);
+
+    return process.exit(1);
+  }
+
+  const { help, version, ...cliOptions } = cliArgs;
+
+  if (help) {
+    console.log(getCliUsage());
+
+    return process.exit(0);
+  }
+
+  if (version) {
+    console.log(OPTIONS.version);
+
+    return process.exit(0);
+  }
+
+  return cliOptions;
+};
+
+/**
+ * Check if a value is a plain object, e.g. nested memo options, not an array or RegExp.
+ *
+ * @param value
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Object.prototype.toString.call(value) === '[object Object]';
+
+/**
+ * Deep merge options, later sources take precedence. Plain objects are merged, other values, arrays included,
+ * are replaced. Undefined values are skipped.
+ *
+ * @param sources
+ */
+const mergeOptions = <T extends object>(...sources: Array<object | undefined>): T =>
+  sources.reduce<Record<string, unknown>>((merged, source) => {
+    Object.entries(source || {}).forEach(([key, value]) => {
+      if (value === undefined) {
+        return;
+      }
+
+      merged[key] = (isPlainObject(value) && isPlainObject(merged[key]) && mergeOptions(merged[key], value)) || value;
+    });
+
+    return merged;
+  }, {}) as T;
 
 /**
- * Make global options immutable after combining CLI options with app defaults.
+ * Make global options immutable after combining CLI and config options with app defaults. Nested options are
+ * merged with their defaults.
  *
  * @param cliOptions
  */
-const freezeOptions = (cliOptions: CliOptions) => {
-  Object.assign(OPTIONS, {
-    ...cliOptions
-  });
+const freezeOptions = (cliOptions: CliOptions & ConfigOptions) => {
+  Object.assign(OPTIONS, mergeOptions<GlobalOptions>(OPTIONS, cliOptions));
 
   return Object.freeze(OPTIONS);
 };
 
 export {
+  getUserCachePath,
+  getCliUsage,
+  parseCliArgs,
   parseCliOptions,
+  mergeOptions,
   freezeOptions,
   OPTIONS,
+  CLI_COMMANDS,
+  CLI_COMMAND_OPTIONS,
+  CLI_FLAGS,
   PF_EXTERNAL,
+  PF_EXTERNAL_REF,
   PF_EXTERNAL_CHARTS,
   PF_EXTERNAL_CHARTS_COMPONENTS,
   PF_EXTERNAL_CHARTS_DESIGN,
@@ -200,10 +608,21 @@ export {
   PF_EXTERNAL_DESIGN_COMPONENTS,
   PF_EXTERNAL_DESIGN_LAYOUTS,
   PF_EXTERNAL_ACCESSIBILITY,
+  PF_EXTERNAL_EXAMPLES,
+  PF_EXTERNAL_EXAMPLES_COMPONENTS,
   RESOURCE_MEMO_OPTIONS,
   TOOL_MEMO_OPTIONS,
+  HTTP_CACHE_OPTIONS,
+  HTTP_OPTIONS,
+  FETCH_TIMEOUT,
+  FETCH_OPTIONS,
   DEFAULT_SEPARATOR,
   URL_REGEX,
+  URL_ALLOWLIST,
+  LOCAL_FILE_EXTENSIONS,
+  type CliArgs,
+  type CliCommand,
+  type CliFlag,
   type CliOptions,
   type AppDefaults,
   type GlobalOptions
@@ -0,0 +1,196 @@
+import { join } from 'node:path';
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type McpPrompt } from './server';
+import { COMPONENT_DOCS } from './docs.component';
+import { LAYOUT_DOCS } from './docs.layout';
+import { LOCAL_DOCS } from './docs.local';
+import { getDocLabel, queryDocs, renderDocLinks } from './docs.catalog';
+import { parseLlmsTxt } from './docs.llms';
+import { getPfVersion } from './docs.version';
+import { OPTIONS, type GlobalOptions } from './options';
+import { loadDocFunction, readLocalFileFunction } from './server.getResources';
+
+/**
+ * Split a comma or whitespace separated list of component names.
+ *
+ * @param value
+ */
+const parseNameList = (value: unknown) =>
+  String(value || '')
+    .split(/[,\s]+/)
+    .map(name => name.trim())
+    .filter(Boolean);
+
+/**
+ * Catalog links for a list of component names, grouped by component. Unknown names are returned separately.
+ *
+ * @param names
+ */
+const getComponentLinks = (names: string[]) => {
+  const unknown = names.filter(name => !queryDocs(COMPONENT_DOCS, { name }).length);
+  const links = renderDocLinks(names.flatMap(name => queryDocs(COMPONENT_DOCS, { name })));
+
+  return { links, unknown };
+};
+
+/**
+ * Load document content for a prompt, falling back to the link when the content is unavailable.
+ *
+ * @param label
+ * @param pathOrUrl
+ * @param options
+ */
+const embedDoc = async (label: string, pathOrUrl: string, options: GlobalOptions) => {
+  try {
+    const content = await loadDocFunction(pathOrUrl, options);
+
+    return `# Documentation from ${pathOrUrl}\n\n${content}`;
+  } catch {
+    return `[${label}](${pathOrUrl}) could not be loaded. Use the fetchDocs tool to retrieve it.`;
+  }
+};
+
+/**
+ * Create a prompt result with a single user message.
+ *
+ * @param text
+ */
+const userMessage = (text: string) => ({
+  messages: [
+    {
+      role: 'user' as const,
+      content: {
+        type: 'text' as const,
+        text
+      }
+    }
+  ]
+});
+
+/**
+ * build-patternfly-view prompt (tuple pattern)
+ *
+ * @param options
+ */
+const buildPatternFlyViewPrompt = (options = OPTIONS): McpPrompt => {
+  const callback = async (args: any = {}) => {
+    const { description, components } = args;
+
+    if (!description || typeof description !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument: description: ${description}`);
+    }
+
+    const { links, unknown } = getComponentLinks(parseNameList(components));
+
+    return userMessage(`Build a PatternFly 6 React view: ${description}
+
+Use only @patternfly/react-core 6 components, PatternFly layouts and design tokens. Do not invent props, check the component examples before using a component.
+
+${(links.length && `Relevant component documentation, use the fetchDocs tool to read these before writing code:
+${links}`) || 'Use the usePatternFlyDocs tool to pick the relevant component documentation before writing code.'}
+${(unknown.length && `\nThese names were not found in the PatternFly catalog, find the closest PatternFly component instead: ${unknown.join(', ')}\n`) || ''}
+Layout documentation:
+${renderDocLinks(LAYOUT_DOCS)}
+
+Development guidelines:
+${renderDocLinks(LOCAL_DOCS)}
+
+Check the accessibility documentation for every component you use, and explain any accessibility considerations in your answer.`);
+  };
+
+  return [
+    'build-patternfly-view',
+    {
+      title: 'Build a PatternFly view',
+      description: 'Build a PatternFly 6 React page or view, with links to the documentation for the components it uses',
+      argsSchema: {
+        description: z.string().describe('What the view should do, e.g. "a user list with filtering and bulk actions"'),
+        components: z.string().optional().describe('Comma separated PatternFly component names to use, e.g. "Table, Toolbar, Pagination"')
+      }
+    },
+    callback
+  ];
+};
+
+/**
+ * audit-component-accessibility prompt (tuple pattern)
+ *
+ * @param options
+ */
+const auditComponentAccessibilityPrompt = (options = OPTIONS): McpPrompt => {
+  const callback = async (args: any = {}) => {
+    const { component, code } = args;
+
+    if (!component || typeof component !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument: component: ${component}`);
+    }
+
+    const [entry] = queryDocs(COMPONENT_DOCS, { name: component, section: 'accessibility' });
+
+    if (!entry) {
+      throw new McpError(ErrorCode.InvalidParams, `No accessibility documentation found for component: ${component}`);
+    }
+
+    const doc = await embedDoc(getDocLabel(entry), entry.pathOrUrl, options);
+
+    return userMessage(`Audit the accessibility of the PatternFly ${entry.displayName} component usage${(code && ' below') || ' in this project'}.
+
+Compare the usage against the PatternFly accessibility guidance, list every issue with the affected prop, attribute or markup, and propose a fix for each. Call out keyboard interaction, focus management, labels and ARIA attributes explicitly.
+${(code && `\n\`\`\`tsx\n${code}\n\`\`\`\n`) || ''}
+${doc}`);
+  };
+
+  return [
+    'audit-component-accessibility',
+    {
+      title: 'Audit component accessibility',
+      description: 'Audit a PatternFly component usage against its accessibility documentation',
+      argsSchema: {
+        component: z.string().describe('PatternFly component name, e.g. "Button" or "Modal"'),
+        code: z.string().optional().describe('Optional code snippet using the component')
+      }
+    },
+    callback
+  ];
+};
+
+/**
+ * migrate-to-v6 prompt (tuple pattern). The upgrade guide is read from the `patternfly` llms.txt of the selected
+ * PatternFly version.
+ *
+ * @param options
+ */
+const migrateToV6Prompt = (options = OPTIONS): McpPrompt => {
+  const callback = async (args: any = {}) => {
+    const { code } = args;
+    const llmsContent = await readLocalFileFunction
+      .memo(join(options.llmsFilesPath, 'patternfly', getPfVersion(options), 'llms.txt'))
+      .catch(() => '');
+    const upgradeGuide = parseLlmsTxt(llmsContent).sections
+      .flatMap(({ entries }) => entries)
+      .find(({ title }) => /^Migrating to v6/i.test(title));
+    const doc = (upgradeGuide?.url && await embedDoc(upgradeGuide.title, upgradeGuide.url, options)) ||
+      'Use the usePatternFlyDocs tool to find the PatternFly 6 upgrade guide.';
+
+    return userMessage(`Migrate ${(code && 'the code below') || 'this project'} from PatternFly 5 to PatternFly 6.
+
+Follow the upgrade guide: update dependencies and package names, run the PatternFly codemods, then address the remaining breaking changes by hand. List each change you make and anything that needs manual review.
+${(code && `\n\`\`\`tsx\n${code}\n\`\`\`\n`) || ''}
+${doc}`);
+  };
+
+  return [
+    'migrate-to-v6',
+    {
+      title: 'Migrate to PatternFly 6',
+      description: 'Migrate a project or code snippet from PatternFly 5 to PatternFly 6 using the upgrade guide',
+      argsSchema: {
+        code: z.string().optional().describe('Optional code snippet to migrate')
+      }
+    },
+    callback
+  ];
+};
+
+export { buildPatternFlyViewPrompt, auditComponentAccessibilityPrompt, migrateToV6Prompt };
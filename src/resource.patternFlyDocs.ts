@@ -0,0 +1,280 @@
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type McpResource } from './server';
+import { COMPONENT_DOCS } from './docs.component';
+import { LAYOUT_DOCS } from './docs.layout';
+import { CHART_DOCS } from './docs.chart';
+import { LOCAL_DOCS } from './docs.local';
+import { getDocLabel, normalizeDocName, type DocEntry } from './docs.catalog';
+import { parseLlmsTxt, renderLlmsTxtLinkCount, selectLlmsTxt } from './docs.llms';
+import { OPTIONS, type GlobalOptions } from './options';
+import { loadDocFunction } from './server.getResources';
+
+/**
+ * A catalog entry addressable by a resource URI
+ */
+interface DocsResourceEntry {
+  uri: string;
+  name: string;
+  title: string;
+  description?: string;
+  pathOrUrl: string;
+  variables: Record<string, string>;
+}
+
+/**
+ * Settings for a catalog backed resource template
+ */
+interface DocsResourceSettings {
+  name: string;
+  title: string;
+  description: string;
+  uriTemplate: string;
+  mimeType?: string;
+  getEntries: (options: GlobalOptions) => DocsResourceEntry[] | Promise<DocsResourceEntry[]>;
+  render?: (content: string, entry: DocsResourceEntry) => string;
+}
+
+/**
+ * Map catalog entries to resource entries.
+ *
+ * @param catalog - Typed catalog entries
+ * @param getVariables - URI variables for an entry, in template order
+ * @param uriBase - URI prefix, e.g. "patternfly://components"
+ */
+const getCatalogEntries = (
+  catalog: DocEntry[],
+  getVariables: (entry: DocEntry) => Record<string, string>,
+  uriBase: string
+) =>
+  catalog.map((entry): DocsResourceEntry => {
+    const variables = getVariables(entry);
+
+    return {
+      uri: `${uriBase}/${Object.values(variables).join('/')}`,
+      name: getDocLabel(entry).replace(/^@patternfly\//, ''),
+      title: getDocLabel(entry),
+      description: entry.description,
+      pathOrUrl: entry.pathOrUrl,
+      variables
+    };
+  });
+
+/**
+ * llms.txt entries discovered from the `llms-files/<package>/<version>/llms.txt` directory layout.
+ *
+ * @param options
+ */
+const getLlmsFilesEntries = async (options: GlobalOptions) => {
+  const listDirs = async (path: string) =>
+    (await readdir(path, { withFileTypes: true }).catch(() => []))
+      .filter(dirent => dirent.isDirectory())
+      .map(dirent => dirent.name)
+      .sort();
+
+  const packages = await listDirs(options.llmsFilesPath);
+  const entries = await Promise.all(packages.map(async packageName =>
+    (await listDirs(join(options.llmsFilesPath, packageName))).map((version): DocsResourceEntry => ({
+      uri: `patternfly://llms/${packageName}/${version}`,
+      name: `${packageName}@${version}`,
+      title: `@patternfly/${packageName}@${version} llms.txt`,
+      pathOrUrl: join(options.llmsFilesPath, packageName, version, 'llms.txt'),
+      variables: { package: packageName, version }
+    }))));
+
+  return entries.flat();
+};
+
+/**
+ * llms.txt `##` sections, one entry per section of each discovered llms.txt, addressed by section slug.
+ *
+ * @param options
+ */
+const getLlmsSectionEntries = async (options: GlobalOptions) => {
+  const entries = await Promise.all((await getLlmsFilesEntries(options)).map(async entry => {
+    const { sections } = parseLlmsTxt(await loadDocFunction(entry.pathOrUrl, options).catch(() => ''));
+
+    return sections
+      .filter(({ title, entries: links }) => title && links.some(({ url }) => url))
+      .map((section): DocsResourceEntry => ({
+        uri: `${entry.uri}/${section.slug}`,
+        name: `${entry.name} ${section.title}`,
+        title: `${entry.title}, ${section.title}`,
+        description: renderLlmsTxtLinkCount(section),
+        pathOrUrl: entry.pathOrUrl,
+        variables: { ...entry.variables, section: section.slug }
+      }));
+  }));
+
+  return entries.flat();
+};
+
+/**
+ * Create a resource template backed by a documentation catalog. Content is served through the same memoized
+ * loaders used by `processDocsFunction`.
+ *
+ * @param settings
+ * @param settings.name
+ * @param settings.title
+ * @param settings.description
+ * @param settings.uriTemplate
+ * @param settings.mimeType
+ * @param settings.getEntries
+ * @param settings.render - Transform loaded content for an entry, e.g. select a section
+ */
+const createDocsResource = ({
+  name,
+  title,
+  description,
+  uriTemplate,
+  mimeType = 'text/markdown',
+  getEntries,
+  render
+}: DocsResourceSettings) => (options = OPTIONS): McpResource => {
+  const variableNames = [...uriTemplate.matchAll(/\{(\w+)\}/g)].map(([, variable]) => variable as string);
+
+  const complete = Object.fromEntries(variableNames.map(variable => [
+    variable,
+    async (value: string, context?: { arguments?: Record<string, string> }) => {
+      const entries = (await getEntries(options)).filter(entry =>
+        Object.entries(context?.arguments || {}).every(([key, argValue]) =>
+          key === variable || entry.variables[key] === undefined ||
+          normalizeDocName(entry.variables[key]) === normalizeDocName(argValue)));
+
+      return [...new Set(entries.map(entry => entry.variables[variable] as string))]
+        .filter(option => normalizeDocName(option).startsWith(normalizeDocName(value)));
+    }
+  ]));
+
+  const template = new ResourceTemplate(uriTemplate, {
+    list: async () => ({
+      resources: (await getEntries(options)).map(entry => ({
+        uri: entry.uri,
+        name: entry.name,
+        title: entry.title,
+        ...(entry.description && { description: entry.description }),
+        mimeType
+      }))
+    }),
+    complete
+  });
+
+  const callback = async (uri: URL, variables: Record<string, string | string[]>) => {
+    const entry = (await getEntries(options)).find(({ variables: entryVariables }) =>
+      variableNames.every(variable =>
+        normalizeDocName(entryVariables[variable]) === normalizeDocName([variables[variable]].flat()[0])));
+
+    if (!entry) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri.href}`);
+    }
+
+    let text: string;
+
+    try {
+      const content = await loadDocFunction(entry.pathOrUrl, options);
+
+      text = (render && render(content, entry)) || content;
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, `Failed to load ${entry.pathOrUrl}: ${error}`);
+    }
+
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType,
+          text
+        }
+      ]
+    };
+  };
+
+  return [name, template, { title, description, mimeType }, callback];
+};
+
+/**
+ * Component design guidelines, accessibility and examples pages, e.g. `patternfly://components/Button/accessibility`
+ */
+const patternFlyComponentsResource = createDocsResource({
+  name: 'patternFlyComponentDocs',
+  title: 'PatternFly component documentation',
+  description: 'PatternFly component pages by component name and section (design-guidelines, accessibility, examples)',
+  uriTemplate: 'patternfly://components/{name}/{section}',
+  getEntries: () => getCatalogEntries(
+    COMPONENT_DOCS,
+    entry => ({ name: entry.displayName, section: entry.section }),
+    'patternfly://components'
+  )
+});
+
+/**
+ * Layout design guidelines pages, e.g. `patternfly://layouts/Flex`
+ */
+const patternFlyLayoutsResource = createDocsResource({
+  name: 'patternFlyLayoutDocs',
+  title: 'PatternFly layout documentation',
+  description: 'PatternFly layout design guidelines by layout name',
+  uriTemplate: 'patternfly://layouts/{name}',
+  getEntries: () => getCatalogEntries(LAYOUT_DOCS, entry => ({ name: entry.displayName }), 'patternfly://layouts')
+});
+
+/**
+ * Chart pages, e.g. `patternfly://charts/bar-chart`
+ */
+const patternFlyChartsResource = createDocsResource({
+  name: 'patternFlyChartDocs',
+  title: 'PatternFly chart documentation',
+  description: 'PatternFly chart guidelines and examples by chart name',
+  uriTemplate: 'patternfly://charts/{name}',
+  getEntries: () => getCatalogEntries(CHART_DOCS, entry => ({ name: entry.name }), 'patternfly://charts')
+});
+
+/**
+ * Bundled local documentation, e.g. `patternfly://docs/react-charts`
+ */
+const patternFlyLocalDocsResource = createDocsResource({
+  name: 'patternFlyLocalDocs',
+  title: 'PatternFly bundled documentation',
+  description: 'Bundled PatternFly development guides and rules by package name',
+  uriTemplate: 'patternfly://docs/{name}',
+  getEntries: () => getCatalogEntries(LOCAL_DOCS, entry => ({ name: entry.displayName }), 'patternfly://docs')
+});
+
+/**
+ * llms.txt catalogs, e.g. `patternfly://llms/react-core/6.0.0`
+ */
+const patternFlyLlmsFilesResource = createDocsResource({
+  name: 'patternFlyLlmsFiles',
+  title: 'PatternFly llms.txt catalogs',
+  description: 'PatternFly llms.txt documentation indexes by package and version',
+  uriTemplate: 'patternfly://llms/{package}/{version}',
+  mimeType: 'text/plain',
+  getEntries: getLlmsFilesEntries
+});
+
+/**
+ * llms.txt catalog sections, e.g. `patternfly://llms/patternfly/6.0.0/design-foundations`
+ */
+const patternFlyLlmsSectionsResource = createDocsResource({
+  name: 'patternFlyLlmsSections',
+  title: 'PatternFly llms.txt sections',
+  description: 'PatternFly llms.txt documentation index sections by package, version and section',
+  uriTemplate: 'patternfly://llms/{package}/{version}/{section}',
+  mimeType: 'text/plain',
+  getEntries: getLlmsSectionEntries,
+  render: (content, entry) => selectLlmsTxt(parseLlmsTxt(content), { sections: [entry.variables.section as string] })
+});
+
+export {
+  createDocsResource,
+  patternFlyComponentsResource,
+  patternFlyLayoutsResource,
+  patternFlyChartsResource,
+  patternFlyLocalDocsResource,
+  patternFlyLlmsFilesResource,
+  patternFlyLlmsSectionsResource,
+  type DocsResourceEntry,
+  type DocsResourceSettings
+};
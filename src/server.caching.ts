@@ -6,6 +6,7 @@ import { generateHash, isPromise } from './server.helpers';
  *
  * - `Zero-arg caching`: Zero-argument calls are memoized. To disable caching and perform a manual reset on every call, set cacheLimit <= 0.
  * - `Expiration`: Expiration expands until a pause in use happens. All results, regardless of type, will be expired.
+ *   The expire timer doesn't keep the process alive, so CLI commands exit once their work is done.
  * - `Promises`: Allows for promises and promise-like functions
  * - `Errors`: It's on the consumer to catch function errors and await or process a Promise resolve/reject/catch.
  *
@@ -48,6 +49,8 @@ const memo = <TArgs extends any[], TReturn>(
         timeout = setTimeout(() => {
           cache.length = 0;
         }, updatedExpire);
+
+        timeout.unref?.();
       }
 
       // Zero cacheLimit, reset and bypass memoization
@@ -1,7 +1,22 @@
 import { readFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
 import { OPTIONS } from './options';
 import { memo } from './server.caching';
+import { findCustomDoc } from './docs.custom';
+import { getDocSources } from './docs.fallback';
+import { DOCS_INDEX } from './docs.index';
+import { selectSections, type DocsSelection } from './docs.sections';
+import { isLlmsTxtPath, parseLlmsTxt, selectLlmsTxt } from './docs.llms';
+import { getVersionedPathOrUrl, resolvePfVersionFunction } from './docs.version';
+import { readMirrorUrlFunction } from './server.mirror';
+import { readHttpCacheFunction, writeHttpCacheFunction } from './server.httpCache';
+import { assertUrlAllowedFunction, getUrlDispatcher } from './server.urlPolicy';
+import { limitHostFunction, retryRequestFunction } from './server.requestPolicy';
+import { assertLocalPathAllowedFunction, isAccessDeniedError } from './server.sandbox';
+import { paginateResult } from './server.pagination';
 
 /**
  * Read a local file and return its contents as a string
@@ -16,31 +31,183 @@ const readLocalFileFunction = async (filePath: string) => await readFile(filePat
 readLocalFileFunction.memo = memo(readLocalFileFunction, OPTIONS.resourceMemoOptions.readFile);
 
 /**
- * Fetch content from a URL with timeout and error handling
+ * Max redirects followed for a request
+ */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Request a URL once, with timeout and error handling. Non-OK responses are returned, not thrown. Redirects are
+ * followed manually so every location is validated before it is requested, and connections are limited to public
+ * addresses, see `getUrlDispatcher`.
  *
  * @param url
+ * @param headers - Additional request headers, e.g. cache validators
+ * @param validateUrl - Called with every redirect location before requesting it, throws to reject it
+ * @param options
  */
-const fetchUrlFunction = async (url: string) => {
+const requestAttemptFunction = async (
+  url: string,
+  headers: Record<string, string> = {},
+  validateUrl: (requestUrl: string) => Promise<void> | void = () => {},
+  options = OPTIONS
+) => {
   const controller = new AbortController();
-  const timeoutMs = Number(process.env.DOC_MCP_FETCH_TIMEOUT_MS || 15_000);
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const timeout = setTimeout(() => controller.abort(), options.fetchTimeout);
 
   try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: { Accept: 'text/plain, text/markdown, */*' }
-    });
+    let requestUrl = url;
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
-    }
+    for (let redirects = 0; ; redirects++) {
+      const dispatcher = getUrlDispatcher(requestUrl, options);
+      const response = await fetch(requestUrl, {
+        signal: controller.signal,
+        redirect: 'manual',
+        headers: { Accept: 'text/plain, text/markdown, */*', ...headers },
+        ...(dispatcher && { dispatcher })
+      });
+      const location = response.status >= 300 && response.status < 400 && response.headers?.get('location');
+
+      if (location) {
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error(`Failed to fetch ${url}: more than ${MAX_REDIRECTS} redirects`);
+        }
+
+        requestUrl = new URL(location, requestUrl).href;
+        await validateUrl(requestUrl);
+        continue;
+      }
 
-    return await response.text();
+      return {
+        ok: response.ok,
+        status: response.status,
+        statusText: response.statusText,
+        etag: (response.ok && response.headers?.get('etag')) || undefined,
+        lastModified: (response.ok && response.headers?.get('last-modified')) || undefined,
+        retryAfter: (!response.ok && response.headers?.get('retry-after')) || undefined,
+        text: (response.ok && await response.text()) || ''
+      };
+    }
   } finally {
     clearTimeout(timeout);
   }
 };
 
+/**
+ * Request a URL, see `requestAttemptFunction`. Attempts wait for a free slot for the URL's host, and network errors,
+ * 429 and 5xx responses are retried with backoff, see `retryRequestFunction`.
+ *
+ * @param url
+ * @param headers - Additional request headers, e.g. cache validators
+ * @param validateUrl - Called with every redirect location before requesting it, throws to reject it
+ * @param options
+ */
+const requestFunction = async (
+  url: string,
+  headers: Record<string, string> = {},
+  validateUrl: (requestUrl: string) => Promise<void> | void = () => {},
+  options = OPTIONS
+) => retryRequestFunction(
+  () => limitHostFunction(url, () => requestAttemptFunction(url, headers, validateUrl, options), options),
+  options
+);
+
+/**
+ * Request content from a URL with timeout, retries and error handling.
+ *
+ * @param url
+ * @param validateUrl - Called with every redirect location, throws to reject it
+ * @param options
+ */
+const requestUrlFunction = async (
+  url: string,
+  validateUrl?: (requestUrl: string) => Promise<void> | void,
+  options = OPTIONS
+) => {
+  const { ok, status, statusText, text } = await requestFunction(url, {}, validateUrl, options);
+
+  if (!ok) {
+    throw new Error(`Failed to fetch ${url}: ${status} ${statusText}`);
+  }
+
+  return text;
+};
+
+/**
+ * Request content from a URL under the URL policy, the URL and every redirect location are checked against the URL
+ * allowlist and private address ranges, see `assertUrlAllowedFunction`.
+ *
+ * @param url
+ * @param options
+ */
+const requestAllowedUrlFunction = async (url: string, options = OPTIONS) => {
+  await assertUrlAllowedFunction(url, options);
+
+  return requestUrlFunction(url, requestUrl => assertUrlAllowedFunction(requestUrl, options), options);
+};
+
+/**
+ * Request content from a URL through the persistent HTTP cache. Cached responses are revalidated with
+ * `If-None-Match` and `If-Modified-Since`, and served stale when the network or server fails, or requests are rate
+ * limited.
+ *
+ * @param url
+ * @param options
+ */
+const requestCachedUrlFunction = async (url: string, options = OPTIONS) => {
+  const { cacheDir = '', httpCacheOptions } = options;
+  const cached = await readHttpCacheFunction(url, cacheDir);
+  const response = await requestFunction(url, {
+    ...(cached?.etag && { 'If-None-Match': cached.etag }),
+    ...(cached?.lastModified && { 'If-Modified-Since': cached.lastModified })
+  }, requestUrl => assertUrlAllowedFunction(requestUrl, options), options).catch(error => {
+    if (cached) {
+      return undefined;
+    }
+
+    throw error;
+  });
+
+  if (cached && (!response || response.status === 304 || response.status === 429 || response.status >= 500)) {
+    return cached.body;
+  }
+
+  if (!response?.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response?.status} ${response?.statusText}`);
+  }
+
+  await writeHttpCacheFunction({
+    url,
+    ...(response.etag && { etag: response.etag }),
+    ...(response.lastModified && { lastModified: response.lastModified }),
+    storedAt: new Date().toISOString(),
+    body: response.text
+  }, cacheDir, httpCacheOptions.maxSize);
+
+  return response.text;
+};
+
+/**
+ * Fetch content from a URL. URLs are read from the local mirror, without touching the network, when one is set,
+ * otherwise they are checked against the URL allowlist and private address ranges, then requested through the
+ * persistent HTTP cache. Fetched pages are added to the full-text index.
+ *
+ * @param url
+ * @param options
+ */
+const fetchUrlFunction = async (url: string, options = OPTIONS) => {
+  if (!options.mirror) {
+    await assertUrlAllowedFunction(url, options);
+  }
+
+  const text = await ((options.mirror && readMirrorUrlFunction(url, options.mirror)) ||
+    (options.cacheDir && requestCachedUrlFunction(url, options)) ||
+    requestUrlFunction(url, requestUrl => assertUrlAllowedFunction(requestUrl, options), options));
+
+  DOCS_INDEX.add(url, text);
+
+  return text;
+};
+
 /**
  * Memoized version of fetchUrlFunction
  */
@@ -56,15 +223,73 @@ const resolveLocalPathFunction = (relativeOrAbsolute: string, options = OPTIONS)
   (options.docsHost && join(options.llmsFilesPath, relativeOrAbsolute)) || relativeOrAbsolute;
 
 /**
- * Normalize inputs, load all in parallel, and return a joined string.
+ * Load a single, already resolved, path or URL through the memoized loaders. Paths and URLs are rewritten for the
+ * selected PatternFly version, URLs are served from the mirror when one is set.
+ *
+ * @param pathOrUrl
+ * @param options
+ */
+const loadDocFunction = async (pathOrUrl: string, options = OPTIONS) => {
+  const versionedPathOrUrl = getVersionedPathOrUrl(pathOrUrl, options);
+
+  return (options.urlRegex.test(versionedPathOrUrl) && fetchUrlFunction.memo(versionedPathOrUrl, options)) ||
+    readLocalFileFunction.memo(versionedPathOrUrl);
+};
+
+/**
+ * Loaded or failed document
+ *
+ * @property input - Path or URL as passed in
+ * @property source - Resolved, versioned, path or URL
+ * @property servedFrom - Fallback path or URL the document was loaded from, when `source` failed
+ * @property status - "loaded", "failed", or "denied" for local paths outside the documentation roots
+ * @property content - Document content, when loaded
+ * @property fetchedAt - ISO time the document was loaded
+ * @property error - Failure message, when not loaded
+ */
+interface DocsResult {
+  input: string;
+  source: string;
+  servedFrom?: string;
+  status: 'loaded' | 'failed' | 'denied';
+  content?: string;
+  fetchedAt?: string;
+  error?: string;
+}
+
+/**
+ * Structured tool output for document results, one `documents` entry per input
+ */
+const DOCS_OUTPUT_SCHEMA = {
+  documents: z.array(z.object({
+    source: z.string().describe('Path or URL as passed in'),
+    resolvedPath: z.string().describe('Resolved path or URL the document was loaded from'),
+    servedFrom: z.string().optional().describe('Fallback path or URL that served the document, when the resolved path or URL failed'),
+    status: z.enum(['loaded', 'failed', 'denied']),
+    contentType: z.string(),
+    bytes: z.number().describe('Content size in bytes, UTF-8'),
+    fetchedAt: z.string().optional(),
+    content: z.string().optional().describe('Document content, omitted for failures and paginated results'),
+    error: z.string().optional()
+  }))
+};
+
+/**
+ * Normalize inputs and load all in parallel, one result per unique input. Namespaced names of custom documentation,
+ * e.g. "@acme/ProductCard", resolve to their path or URL. Local paths are restricted to the approved documentation
+ * roots. Documents that fail to load fall through their fallback sources, see `getDocSources`. URLs past
+ * `maxUrlsPerCall` are skipped, and reported as failed. A selection narrows each document to matching heading
+ * subtrees, or its outline, llms.txt files to matching sections or links, see `selectLlmsTxt`.
  *
  * @param inputs
  * @param options
+ * @param selection
  */
-const processDocsFunction = async (
+const loadDocsFunction = async (
   inputs: string[],
-  options = OPTIONS
-) => {
+  options = OPTIONS,
+  selection: DocsSelection = {}
+): Promise<DocsResult[]> => {
   const seen = new Set<string>();
   const list = inputs
     .map(str => String(str).trim())
@@ -78,36 +303,266 @@ const processDocsFunction = async (
       return true;
     });
 
-  const loadOne = async (pathOrUrl: string) => {
-    const isUrl = options.urlRegex.test(pathOrUrl);
-    const updatedPathOrUrl = (isUrl && pathOrUrl) || resolveLocalPathFunction(pathOrUrl);
-    let content;
+  const sources = list.map(pathOrUrl => findCustomDoc(pathOrUrl)?.pathOrUrl ||
+    getVersionedPathOrUrl((options.urlRegex.test(pathOrUrl) && pathOrUrl) || resolveLocalPathFunction(pathOrUrl, options), options));
 
-    if (isUrl) {
-      content = await fetchUrlFunction.memo(updatedPathOrUrl);
-    } else {
-      content = await readLocalFileFunction.memo(updatedPathOrUrl);
+  const maxUrls = options.fetchOptions?.maxUrlsPerCall || Infinity;
+  let urlCount = 0;
+  const isOverUrlLimit = sources.map(source => options.urlRegex.test(source) && ++urlCount > maxUrls);
+
+  const loadSource = async (source: string) => {
+    if (!options.urlRegex.test(source)) {
+      await assertLocalPathAllowedFunction(source, options);
     }
 
-    return { header: `# Documentation from ${updatedPathOrUrl}`, content };
+    return loadDocFunction(source, options);
   };
 
-  const settled = await Promise.allSettled(list.map(item => loadOne(item)));
-  const parts: string[] = [];
+  const loadOne = async (source: string, index: number) => {
+    if (isOverUrlLimit[index]) {
+      throw new Error(`Skipped, at most ${maxUrls} URLs are loaded per call, request it in another call`);
+    }
+
+    const errors: unknown[] = [];
+
+    for (const fallbackSource of getDocSources(list[index] as string, source, options)) {
+      try {
+        const content = await loadSource(fallbackSource);
 
-  settled.forEach((res, index) => {
-    const original = list[index];
+        return {
+          content: (isLlmsTxtPath(fallbackSource) && selectLlmsTxt(parseLlmsTxt(content), selection)) ||
+            selectSections(content, selection),
+          fetchedAt: new Date().toISOString(),
+          ...(fallbackSource !== source && { servedFrom: fallbackSource })
+        };
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+
+    throw errors[0];
+  };
+
+  const settled = await Promise.allSettled(sources.map((source, index) => loadOne(source, index)));
+
+  return settled.map((res, index) => {
+    const input = list[index] as string;
+    const source = sources[index] as string;
 
     if (res.status === 'fulfilled') {
-      const { header, content } = res.value;
+      return { input, source, status: 'loaded', ...res.value };
+    }
 
-      parts.push(`${header}\n\n${content}`);
-    } else {
-      parts.push(`❌ Failed to load ${original}: ${res.reason}`);
+    if (isAccessDeniedError(res.reason)) {
+      return { input, source, status: 'denied', error: res.reason.message };
     }
+
+    return { input, source, status: 'failed', error: String(res.reason) };
   });
+};
 
-  return parts.join(options.separator);
+/**
+ * Render a document result as markdown, prefixed with its source and the fallback that served it, or as a failure
+ * line.
+ *
+ * @param result
+ */
+const renderDocsResult = ({ input, source, servedFrom, status, content, error }: DocsResult) =>
+  (status === 'loaded' && `# Documentation from ${source}${(servedFrom && ` (served from ${servedFrom})`) || ''}\n\n${content}`) ||
+  (status === 'denied' && `⛔ Access denied to ${input}: ${error}`) ||
+  `❌ Failed to load ${input}: ${error}`;
+
+/**
+ * Content type of a document, `text/plain` for `.txt` files, otherwise `text/markdown`.
+ *
+ * @param pathOrUrl
+ */
+const getDocsContentType = (pathOrUrl: string) =>
+  (extname(new URL(pathOrUrl, 'file:///').pathname).toLowerCase() === '.txt' && 'text/plain') || 'text/markdown';
+
+/**
+ * Tool content item for a document result. Loaded documents are embedded resources, with a `file:` URI for local
+ * paths, failures are text items.
+ *
+ * @param result
+ * @param options
+ */
+const toDocsResultContent = (result: DocsResult, options = OPTIONS) => {
+  if (result.status !== 'loaded') {
+    return { type: 'text' as const, text: renderDocsResult(result) };
+  }
+
+  const isUrl = options.urlRegex.test(result.source);
+
+  return {
+    type: 'resource' as const,
+    resource: {
+      uri: (isUrl && result.source) || pathToFileURL(resolve(options.contextPath, result.source)).href,
+      mimeType: getDocsContentType(result.source),
+      text: renderDocsResult(result)
+    }
+  };
 };
 
-export { readLocalFileFunction, fetchUrlFunction, resolveLocalPathFunction, processDocsFunction };
+/**
+ * Structured output entry for a document result, see `DOCS_OUTPUT_SCHEMA`.
+ *
+ * @param result
+ * @param settings
+ * @param settings.isContent - Include the document content, defaults to true
+ */
+const toDocsStructuredContent = ({ input, source, servedFrom, status, content, fetchedAt, error }: DocsResult, { isContent = true } = {}) => ({
+  source: input,
+  resolvedPath: source,
+  ...(servedFrom && { servedFrom }),
+  status,
+  contentType: getDocsContentType(source),
+  bytes: Buffer.byteLength(content || ''),
+  ...(fetchedAt && { fetchedAt }),
+  ...(isContent && content !== undefined && { content }),
+  ...(error && { error })
+});
+
+/**
+ * Create a documentation tool callback, shared by usePatternFlyDocs and fetchDocs. Validates arguments, resolves the
+ * PatternFly version, loads documents, and returns a content block per document, or a single page of the joined
+ * documents with `maxChars`, `maxTokens` or `cursor`. Failed documents are listed in `_meta.failed`, and the result
+ * is an error when every document failed.
+ *
+ * @param toolName - Tool name, used in the pagination hint
+ * @param load - Memoized `loadDocsFunction`
+ * @param options
+ */
+const createDocsToolCallback = (toolName: string, load: typeof loadDocsFunction, options = OPTIONS) =>
+  async (args: any = {}) => {
+    const { urlList, version, sections, outline, maxChars, maxTokens, cursor } = args;
+
+    if (!urlList || !Array.isArray(urlList)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required parameter: urlList (must be an array of strings): ${urlList}`
+      );
+    }
+
+    Object.entries({ maxChars, maxTokens }).forEach(([key, value]) => {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid parameter: ${key} (must be a positive integer): ${value}`
+        );
+      }
+    });
+
+    if (sections !== undefined && (!Array.isArray(sections) || sections.some(section => typeof section !== 'string'))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid parameter: sections (must be an array of strings): ${sections}`
+      );
+    }
+
+    if (outline !== undefined && typeof outline !== 'boolean') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid parameter: outline (must be a boolean): ${outline}`
+      );
+    }
+
+    if (cursor !== undefined && typeof cursor !== 'string') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid parameter: cursor (must be a string): ${cursor}`
+      );
+    }
+
+    let pfVersion: string | undefined;
+
+    if (version !== undefined) {
+      try {
+        pfVersion = await resolvePfVersionFunction(version, options);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+      }
+    }
+
+    let results: DocsResult[];
+
+    try {
+      const isSelection = sections?.length > 0 || outline === true;
+
+      results = await (((pfVersion || isSelection) &&
+        load(urlList, (pfVersion && { ...options, pfVersion }) || options, { sections, outline })) ||
+        load(urlList));
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to fetch documentation: ${error}`
+      );
+    }
+
+    const failed = results.filter(({ status }) => status !== 'loaded');
+    const isPaginated = maxChars !== undefined || maxTokens !== undefined || cursor !== undefined;
+    let content;
+
+    if (isPaginated) {
+      try {
+        content = [{
+          type: 'text' as const,
+          text: paginateResult(
+            results.map(renderDocsResult).join(options.separator),
+            { maxChars, maxTokens, cursor },
+            `call ${toolName} again with the same urlList, version and sections`
+          )
+        }];
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+      }
+    } else {
+      content = results.map(result => toDocsResultContent(result, options));
+    }
+
+    return {
+      content,
+      structuredContent: {
+        documents: results.map(result => toDocsStructuredContent(result, { isContent: !isPaginated }))
+      },
+      ...(failed.length > 0 && {
+        _meta: { failed: failed.map(({ input, status, error }) => ({ url: input, status, error })) }
+      }),
+      ...(failed.length > 0 && failed.length === results.length && { isError: true })
+    };
+  };
+
+/**
+ * Normalize inputs, load all in parallel, and return a joined string. Local paths are restricted to the approved
+ * documentation roots. A selection narrows each document to matching heading subtrees, or its outline.
+ *
+ * @param inputs
+ * @param options
+ * @param selection
+ */
+const processDocsFunction = async (
+  inputs: string[],
+  options = OPTIONS,
+  selection: DocsSelection = {}
+) => (await loadDocsFunction(inputs, options, selection)).map(renderDocsResult).join(options.separator);
+
+export {
+  DOCS_OUTPUT_SCHEMA,
+  createDocsToolCallback,
+  getDocsContentType,
+  readLocalFileFunction,
+  requestAttemptFunction,
+  requestFunction,
+  requestUrlFunction,
+  requestAllowedUrlFunction,
+  requestCachedUrlFunction,
+  fetchUrlFunction,
+  resolveLocalPathFunction,
+  loadDocFunction,
+  loadDocsFunction,
+  processDocsFunction,
+  renderDocsResult,
+  toDocsResultContent,
+  toDocsStructuredContent,
+  type DocsResult
+};
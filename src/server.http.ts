@@ -0,0 +1,206 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { OPTIONS } from './options';
+
+/**
+ * HTTP client session
+ *
+ * @property transport - Session transport
+ * @property server - MCP server instance created for the session
+ */
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+}
+
+/**
+ * Running HTTP transport handle
+ */
+interface HttpTransportHandle {
+  url: string;
+  httpServer: Server;
+  sessions: Map<string, HttpSession>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Read and JSON parse a request body.
+ *
+ * @param req
+ */
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  const body = Buffer.concat(chunks).toString('utf-8').trim();
+
+  return (body && JSON.parse(body)) || undefined;
+};
+
+/**
+ * Respond with a JSON-RPC error, used before a request reaches a session transport.
+ *
+ * @param res
+ * @param status
+ * @param message
+ * @param code
+ */
+const sendJsonRpcError = (res: ServerResponse, status: number, message: string, code = -32000) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+};
+
+/**
+ * Bind addresses only reachable from the local machine, or every interface
+ */
+const LOCAL_HOSTS = ['127.0.0.1', 'localhost', '::1', '0.0.0.0', '::'];
+
+/**
+ * `Host` header values accepted by the transport, based on the bind address. Loopback and wildcard addresses also
+ * accept the local host names, other addresses only themselves. Requests with any other `Host` header are rejected,
+ * which protects the server against DNS rebinding from web pages.
+ *
+ * @param host - Bind address
+ * @param port - Listening port
+ * @param additionalHosts - Additional `Host` header values, e.g. "mcp.example.com:3333"
+ */
+const getAllowedHosts = (host: string, port: number, additionalHosts: string[] = []) => {
+  const hostNames = [
+    ...((LOCAL_HOSTS.includes(host) && ['127.0.0.1', 'localhost', '[::1]']) || []),
+    (host.includes(':') && `[${host}]`) || host
+  ];
+
+  return [...new Set([...hostNames.map(hostName => `${hostName}:${port}`), ...additionalHosts])];
+};
+
+/**
+ * Start a Streamable HTTP transport. Every client session receives its own MCP server instance
+ * from `createMcpServer`, keyed by the `mcp-session-id` header. DNS rebinding protection is enabled, see
+ * `getAllowedHosts`.
+ *
+ * @param createMcpServer - Factory returning a new MCP server with tools registered
+ * @param options
+ */
+const startHttpTransport = async (
+  createMcpServer: () => McpServer,
+  options = OPTIONS
+): Promise<HttpTransportHandle> => {
+  const port = options.port ?? options.httpOptions.port;
+  const host = options.host || options.httpOptions.host;
+  const { path, allowedHosts: additionalHosts } = options.httpOptions;
+  const sessions = new Map<string, HttpSession>();
+  let allowedHosts: string[] = [];
+
+  const handlePost = async (req: IncomingMessage, res: ServerResponse, sessionId: string | undefined) => {
+    let body: unknown;
+
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      return sendJsonRpcError(res, 400, 'Parse error', -32700);
+    }
+
+    const existingTransport = (sessionId && sessions.get(sessionId)?.transport) || undefined;
+
+    if (existingTransport) {
+      return existingTransport.handleRequest(req, res, body);
+    }
+
+    if (sessionId || !isInitializeRequest(body)) {
+      return sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      onsessioninitialized: id => {
+        sessions.set(id, { transport, server });
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+
+    return transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url || '/', `http://${req.headers.host || host}`);
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = (Array.isArray(sessionIdHeader) && sessionIdHeader[0]) || (sessionIdHeader as string | undefined);
+
+    try {
+      if (pathname !== path) {
+        return sendJsonRpcError(res, 404, `Not Found: ${pathname}`);
+      }
+
+      switch (req.method) {
+        case 'POST':
+          return await handlePost(req, res, sessionId);
+        case 'GET':
+        case 'DELETE': {
+          const transport = (sessionId && sessions.get(sessionId)?.transport) || undefined;
+
+          if (!transport) {
+            return sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+          }
+
+          return await transport.handleRequest(req, res);
+        }
+        default:
+          res.setHeader('Allow', 'GET, POST, DELETE');
+
+          return sendJsonRpcError(res, 405, 'Method not allowed');
+      }
+    } catch (error) {
+      console.error('Error handling MCP HTTP request:', error);
+
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error', -32603);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const listeningPort = (address && typeof address !== 'string' && address.port) || port;
+
+  allowedHosts = getAllowedHosts(host, listeningPort, additionalHosts);
+
+  // Closing a session's server also closes its transport
+  const close = async () => {
+    await Promise.allSettled([...sessions.values()].map(({ server }) => server.close()));
+    sessions.clear();
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+  };
+
+  return {
+    url: `http://${host}:${listeningPort}${path}`,
+    httpServer,
+    sessions,
+    close
+  };
+};
+
+export { getAllowedHosts, startHttpTransport, type HttpSession, type HttpTransportHandle };
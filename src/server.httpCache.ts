@@ -0,0 +1,118 @@
+import { mkdir, readdir, readFile, stat, unlink, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { toContentHash } from './server.mirror';
+
+/**
+ * Cached HTTP response
+ *
+ * @property url - Requested URL
+ * @property etag - `ETag` response header, sent back as `If-None-Match`
+ * @property lastModified - `Last-Modified` response header, sent back as `If-Modified-Since`
+ * @property storedAt - ISO timestamp the response was stored
+ * @property body - Response body
+ */
+interface HttpCacheEntry {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  storedAt: string;
+  body: string;
+}
+
+/**
+ * Cache file names, the SHA-256 hash of the URL, see `getHttpCachePath`
+ */
+const HTTP_CACHE_FILE_REGEX = /^[0-9a-f]{64}\.json$/;
+
+/**
+ * Cache file path for a URL
+ *
+ * @param url
+ * @param cacheDir
+ */
+const getHttpCachePath = (url: string, cacheDir: string) => join(cacheDir, `${toContentHash(url)}.json`);
+
+/**
+ * Read a cached response. Missing and unreadable entries are cache misses. Hits are touched so eviction removes the
+ * least recently used entries first.
+ *
+ * @param url
+ * @param cacheDir
+ */
+const readHttpCacheFunction = async (url: string, cacheDir: string): Promise<HttpCacheEntry | undefined> => {
+  const path = getHttpCachePath(url, cacheDir);
+
+  try {
+    const entry: HttpCacheEntry = JSON.parse(await readFile(path, 'utf-8'));
+    const now = new Date();
+
+    if (entry?.url !== url || typeof entry.body !== 'string') {
+      return undefined;
+    }
+
+    await utimes(path, now, now).catch(() => undefined);
+
+    return entry;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Evict least recently used entries until the cache entries fit the max size. Only cache files, see
+ * `HTTP_CACHE_FILE_REGEX`, are counted and removed, other files in a shared cache directory are left alone.
+ *
+ * @param cacheDir
+ * @param maxSize - Max size in bytes
+ */
+const evictHttpCacheFunction = async (cacheDir: string, maxSize: number) => {
+  const files = await Promise.all((await readdir(cacheDir))
+    .filter(file => HTTP_CACHE_FILE_REGEX.test(file))
+    .map(async file => {
+      const { size, mtimeMs } = await stat(join(cacheDir, file));
+
+      return { file, size, mtimeMs };
+    }));
+  let totalSize = files.reduce((total, { size }) => total + size, 0);
+  const evicted: string[] = [];
+
+  for (const { file, size } of files.sort((first, second) => first.mtimeMs - second.mtimeMs)) {
+    if (totalSize <= maxSize) {
+      break;
+    }
+
+    await unlink(join(cacheDir, file)).catch(() => undefined);
+    totalSize -= size;
+    evicted.push(file);
+  }
+
+  return evicted;
+};
+
+/**
+ * Store a response, then evict entries over the max size. The cache is best effort, write failures are ignored.
+ *
+ * @param entry
+ * @param cacheDir
+ * @param maxSize - Max size in bytes
+ */
+const writeHttpCacheFunction = async (entry: HttpCacheEntry, cacheDir: string, maxSize: number) => {
+  try {
+    await mkdir(cacheDir, { recursive: true });
+    await writeFile(getHttpCachePath(entry.url, cacheDir), JSON.stringify(entry), 'utf-8');
+    await evictHttpCacheFunction(cacheDir, maxSize);
+
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export {
+  HTTP_CACHE_FILE_REGEX,
+  evictHttpCacheFunction,
+  getHttpCachePath,
+  readHttpCacheFunction,
+  writeHttpCacheFunction,
+  type HttpCacheEntry
+};
@@ -0,0 +1,123 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { memo } from './server.caching';
+
+/**
+ * Mirror manifest file name
+ */
+const MIRROR_MANIFEST = 'manifest.json';
+
+/**
+ * Mirror content directory, files are named by the SHA-256 hash of their content
+ */
+const MIRROR_CONTENT_DIR = 'content';
+
+/**
+ * Mirrored URL
+ *
+ * @property url - Source URL
+ * @property hash - SHA-256 hash of the content, also the content file name
+ * @property fetchedAt - ISO timestamp the content was downloaded
+ */
+interface MirrorEntry {
+  url: string;
+  hash: string;
+  fetchedAt: string;
+}
+
+/**
+ * Mirror manifest
+ *
+ * @property generatedAt - ISO timestamp the mirror was last synced
+ * @property entries - Mirrored URLs
+ */
+interface MirrorManifest {
+  generatedAt: string;
+  entries: MirrorEntry[];
+}
+
+/**
+ * SHA-256 content hash used to address mirrored files.
+ *
+ * @param content
+ */
+const toContentHash = (content: string) => createHash('sha256').update(content).digest('hex');
+
+/**
+ * Read a mirror manifest. A missing manifest is an empty mirror.
+ *
+ * @param mirrorDir
+ */
+const readMirrorManifestFunction = async (mirrorDir: string): Promise<MirrorManifest> => {
+  const content = await readFile(join(mirrorDir, MIRROR_MANIFEST), 'utf-8').catch(error => {
+    if (error?.code === 'ENOENT') {
+      return undefined;
+    }
+
+    throw error;
+  });
+
+  return (content && JSON.parse(content)) || { generatedAt: '', entries: [] };
+};
+
+/**
+ * Memoized version of readMirrorManifestFunction, used when serving from a mirror
+ */
+readMirrorManifestFunction.memo = memo(readMirrorManifestFunction, { cacheLimit: 5, cacheErrors: false });
+
+/**
+ * Write content to a mirror, returns its content hash.
+ *
+ * @param mirrorDir
+ * @param content
+ */
+const writeMirrorContentFunction = async (mirrorDir: string, content: string) => {
+  const hash = toContentHash(content);
+
+  await mkdir(join(mirrorDir, MIRROR_CONTENT_DIR), { recursive: true });
+  await writeFile(join(mirrorDir, MIRROR_CONTENT_DIR, hash), content, 'utf-8');
+
+  return hash;
+};
+
+/**
+ * Write a mirror manifest.
+ *
+ * @param mirrorDir
+ * @param manifest
+ */
+const writeMirrorManifestFunction = async (mirrorDir: string, manifest: MirrorManifest) => {
+  await mkdir(mirrorDir, { recursive: true });
+  await writeFile(join(mirrorDir, MIRROR_MANIFEST), `${JSON.stringify(manifest, null, 2)}\n`, 'utf-8');
+};
+
+/**
+ * Read a URL's content from a mirror, without touching the network.
+ *
+ * @param url
+ * @param mirrorDir
+ * @throws {Error} When the URL is not mirrored
+ */
+const readMirrorUrlFunction = async (url: string, mirrorDir: string) => {
+  const { entries } = await readMirrorManifestFunction.memo(mirrorDir);
+  const entry = entries.find(mirrorEntry => mirrorEntry.url === url);
+
+  if (!entry) {
+    throw new Error(`Failed to fetch ${url}: not found in mirror ${mirrorDir}`);
+  }
+
+  return readFile(join(mirrorDir, MIRROR_CONTENT_DIR, entry.hash), 'utf-8');
+};
+
+export {
+  MIRROR_CONTENT_DIR,
+  MIRROR_MANIFEST,
+  readMirrorManifestFunction,
+  readMirrorUrlFunction,
+  toContentHash,
+  writeMirrorContentFunction,
+  writeMirrorManifestFunction,
+  type MirrorEntry,
+  type MirrorManifest
+};
@@ -0,0 +1,213 @@
+import { generateHash } from './server.helpers';
+
+/**
+ * Approximate characters per token, used to convert `maxTokens` to characters
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Smallest page size in characters
+ */
+const MIN_PAGE_CHARS = 1000;
+
+/**
+ * Page size and position
+ *
+ * @property maxChars - Max characters per part
+ * @property maxTokens - Max approximate tokens per part, converted with `CHARS_PER_TOKEN`
+ * @property cursor - Cursor returned by a previous part
+ */
+interface PaginationArgs {
+  maxChars?: number;
+  maxTokens?: number;
+  cursor?: string;
+}
+
+/**
+ * Cursor contents
+ *
+ * @property part - Zero-based index of the part
+ * @property maxChars - Page size the parts were split with
+ * @property hash - Hash of the full content the parts were split from
+ */
+interface PaginationCursor {
+  part: number;
+  maxChars: number;
+  hash: string;
+}
+
+/**
+ * Split markdown into blocks starting at heading lines, headings inside code fences are ignored.
+ *
+ * @param content
+ */
+const splitHeadingBlocks = (content: string) => {
+  const blocks: string[] = [];
+  let lines: string[] = [];
+  let isFenced = false;
+
+  content.split('\n').forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      isFenced = !isFenced;
+    }
+
+    if (!isFenced && /^#{1,6}\s/.test(line) && lines.length) {
+      blocks.push(`${lines.join('\n')}\n`);
+      lines = [];
+    }
+
+    lines.push(line);
+  });
+
+  blocks.push(lines.join('\n'));
+
+  return blocks.filter(Boolean);
+};
+
+/**
+ * Pack blocks into pages of at most `maxChars`, in order.
+ *
+ * @param blocks
+ * @param maxChars
+ */
+const packBlocks = (blocks: string[], maxChars: number) => {
+  const pages: string[] = [];
+  let page = '';
+
+  blocks.forEach(block => {
+    if (page && page.length + block.length > maxChars) {
+      pages.push(page);
+      page = '';
+    }
+
+    page += block;
+  });
+
+  if (page) {
+    pages.push(page);
+  }
+
+  return pages;
+};
+
+/**
+ * Split a block larger than a page, on paragraph boundaries first, then on line and character boundaries.
+ *
+ * @param block
+ * @param maxChars
+ */
+const splitLargeBlock = (block: string, maxChars: number): string[] => {
+  if (block.length <= maxChars) {
+    return [block];
+  }
+
+  const body = block.trimEnd();
+  const separator = (body.includes('\n\n') && '\n\n') || (body.includes('\n') && '\n') || '';
+
+  if (!separator) {
+    return Array.from({ length: Math.ceil(block.length / maxChars) }, (_value, index) =>
+      block.slice(index * maxChars, (index + 1) * maxChars));
+  }
+
+  const pieces = block.split(separator).map((piece, index, all) => (index < all.length - 1 && `${piece}${separator}`) || piece);
+
+  return packBlocks(pieces.flatMap(piece => ((piece.length > maxChars && splitLargeBlock(piece, maxChars)) || [piece])), maxChars);
+};
+
+/**
+ * Split content into parts of at most `maxChars`, on heading boundaries when possible.
+ *
+ * @param content
+ * @param maxChars
+ */
+const paginateContent = (content: string, maxChars: number) =>
+  packBlocks(splitHeadingBlocks(content).flatMap(block => splitLargeBlock(block, maxChars)), maxChars)
+    .map(page => page.trim())
+    .filter(Boolean);
+
+/**
+ * Encode a cursor
+ *
+ * @param cursor
+ */
+const encodeCursor = (cursor: PaginationCursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+/**
+ * Decode a cursor
+ *
+ * @param cursor
+ * @throws {Error} When the cursor is malformed
+ */
+const decodeCursor = (cursor: string): PaginationCursor => {
+  try {
+    const { part, maxChars, hash } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+
+    if (Number.isInteger(part) && part >= 0 && Number.isInteger(maxChars) && maxChars > 0 && typeof hash === 'string') {
+      return { part, maxChars, hash };
+    }
+  } catch {}
+
+  throw new Error(`Invalid cursor: ${cursor}`);
+};
+
+/**
+ * Page size in characters from pagination arguments, at least `MIN_PAGE_CHARS`.
+ *
+ * @param args
+ */
+const getPageSize = ({ maxChars, maxTokens }: PaginationArgs) =>
+  Math.max(MIN_PAGE_CHARS, Math.min(maxChars ?? Infinity, (maxTokens ?? Infinity) * CHARS_PER_TOKEN));
+
+/**
+ * Return one part of paginated content, followed by the parts remaining and a cursor for the next part. Content is
+ * returned unchanged when no page size or cursor is set. Cursors are tied to the content they were created from,
+ * re-requesting the same content through the memo layer keeps them valid.
+ *
+ * @param content - Full content
+ * @param args - Page size and cursor
+ * @param continueHint - How to request the next part, e.g. "call fetchDocs again with the same urlList"
+ * @throws {Error} When the cursor is malformed, or the content changed since it was created
+ */
+const paginateResult = (content: string, args: PaginationArgs, continueHint = 'call this tool again with the same arguments') => {
+  if (args.maxChars === undefined && args.maxTokens === undefined && args.cursor === undefined) {
+    return content;
+  }
+
+  const hash = generateHash(content);
+  const cursor = (args.cursor && decodeCursor(args.cursor)) || { part: 0, maxChars: getPageSize(args), hash };
+
+  if (cursor.hash !== hash) {
+    throw new Error('Invalid cursor: the content changed since the cursor was created, request the first part again');
+  }
+
+  const parts = paginateContent(content, cursor.maxChars);
+  const part = parts[cursor.part];
+
+  if (part === undefined) {
+    throw new Error(`Invalid cursor: part ${cursor.part + 1} of ${parts.length} does not exist`);
+  }
+
+  if (parts.length === 1) {
+    return part;
+  }
+
+  const remaining = parts.length - cursor.part - 1;
+  const footer = (remaining &&
+    `Part ${cursor.part + 1} of ${parts.length}, ${remaining} remaining. To continue, ${continueHint} and cursor: "${encodeCursor({ ...cursor, part: cursor.part + 1 })}"`) ||
+    `Part ${cursor.part + 1} of ${parts.length}, none remaining.`;
+
+  return `${part}\n\n---\n\n${footer}`;
+};
+
+export {
+  CHARS_PER_TOKEN,
+  MIN_PAGE_CHARS,
+  decodeCursor,
+  encodeCursor,
+  getPageSize,
+  paginateContent,
+  paginateResult,
+  splitHeadingBlocks,
+  type PaginationArgs,
+  type PaginationCursor
+};
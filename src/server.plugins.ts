@@ -0,0 +1,191 @@
+import { isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { OPTIONS, type GlobalOptions } from './options';
+import { fetchUrlFunction, readLocalFileFunction } from './server.getResources';
+import { type McpPrompt, type McpResource, type McpTool } from './server';
+
+/**
+ * Plugin logger, messages are prefixed with the plugin name
+ */
+interface McpPluginLogger {
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+/**
+ * Shared, memoized, loaders. URLs go through the URL allowlist, mirror and persistent HTTP cache.
+ *
+ * @property fetchUrl - Fetch a URL, see `fetchUrlFunction`
+ * @property readLocalFile - Read a local file, see `readLocalFileFunction`
+ */
+interface McpPluginLoaders {
+  fetchUrl: typeof fetchUrlFunction.memo;
+  readLocalFile: typeof readLocalFileFunction.memo;
+}
+
+/**
+ * Context passed to a plugin's `register` function
+ *
+ * @property options - Frozen global options
+ * @property loaders - Shared loaders
+ * @property logger - Plugin logger
+ * @property registerTool - Register a tool tuple, `[name, schema, callback]`
+ * @property registerResource - Register a resource tuple, `[name, template, metadata, callback]`
+ * @property registerPrompt - Register a prompt tuple, `[name, schema, callback]`
+ */
+interface McpPluginContext {
+  options: Readonly<GlobalOptions>;
+  loaders: McpPluginLoaders;
+  logger: McpPluginLogger;
+  registerTool: (tool: McpTool) => void;
+  registerResource: (resource: McpResource) => void;
+  registerPrompt: (prompt: McpPrompt) => void;
+}
+
+/**
+ * Plugin, a name and a `register` function. Plugin modules export one as `default` or `plugin`.
+ *
+ * @example
+ * const plugin: McpPlugin = {
+ *   name: 'acme-tools',
+ *   register: ({ registerTool, loaders }) => registerTool(['acmeTokens', schema, callback])
+ * };
+ */
+interface McpPlugin {
+  name: string;
+  register: (context: McpPluginContext) => void | Promise<void>;
+}
+
+/**
+ * Tools, resources and prompts registered by plugins
+ */
+interface McpPluginRegistrations {
+  tools: McpTool[];
+  resources: McpResource[];
+  prompts: McpPrompt[];
+}
+
+/**
+ * Check if a value is a plugin.
+ *
+ * @param value
+ */
+const isMcpPlugin = (value: unknown): value is McpPlugin =>
+  typeof (value as McpPlugin)?.name === 'string' &&
+  (value as McpPlugin).name.length > 0 &&
+  typeof (value as McpPlugin)?.register === 'function';
+
+/**
+ * Create a plugin logger, writing to stderr so stdio transport output isn't affected.
+ *
+ * @param name
+ */
+const createPluginLogger = (name: string): McpPluginLogger => ({
+  info: (...args) => console.error(`[${name}]`, ...args),
+  warn: (...args) => console.error(`[${name}] warning:`, ...args),
+  error: (...args) => console.error(`[${name}] error:`, ...args)
+});
+
+/**
+ * Load plugins. Module paths, relative to the working directory or absolute, and package names are imported, their
+ * `default` or `plugin` export is used. Plugin objects are used as is. Every loaded plugin is logged to stderr.
+ *
+ * @param plugins
+ * @param options
+ * @throws {Error} When a module can't be imported or doesn't export a plugin
+ */
+const loadPluginsFunction = async (plugins: Array<McpPlugin | string> = [], options = OPTIONS): Promise<McpPlugin[]> =>
+  Promise.all(plugins.map(async plugin => {
+    if (typeof plugin !== 'string') {
+      if (!isMcpPlugin(plugin)) {
+        throw new Error('Invalid plugin: expected an object with a name and a register function');
+      }
+
+      console.error(`Loaded plugin ${plugin.name}`);
+
+      return plugin;
+    }
+
+    const isPath = plugin.startsWith('.') || isAbsolute(plugin);
+    const specifier = (isPath && pathToFileURL(resolve(options.contextPath, plugin)).href) || plugin;
+    let module: { default?: unknown; plugin?: unknown };
+
+    try {
+      module = await import(specifier);
+    } catch (error) {
+      throw new Error(`Failed to load plugin ${plugin}: ${(error as Error).message}`);
+    }
+
+    const loaded = (isMcpPlugin(module.default) && module.default) || module.plugin;
+
+    if (!isMcpPlugin(loaded)) {
+      throw new Error(`Invalid plugin ${plugin}: expected a default or "plugin" export with a name and a register function`);
+    }
+
+    console.error(`Loaded plugin ${loaded.name} from ${specifier}`);
+
+    return loaded;
+  }));
+
+/**
+ * Register plugins in order, collecting their tools, resources and prompts. Names must be unique per kind, built-in
+ * names included.
+ *
+ * @param plugins
+ * @param options
+ * @param reservedNames - Built-in tool, resource and prompt names
+ * @throws {Error} When a plugin fails to register or registers a duplicate name
+ */
+const registerPluginsFunction = async (
+  plugins: McpPlugin[] = [],
+  options = OPTIONS,
+  reservedNames: Partial<Record<keyof McpPluginRegistrations, string[]>> = {}
+): Promise<McpPluginRegistrations> => {
+  const registrations: McpPluginRegistrations = { tools: [], resources: [], prompts: [] };
+  const names = {
+    tools: new Set(reservedNames.tools),
+    resources: new Set(reservedNames.resources),
+    prompts: new Set(reservedNames.prompts)
+  };
+
+  const register = <T extends McpTool | McpResource | McpPrompt>(kind: keyof McpPluginRegistrations) => (item: T) => {
+    const [name] = item;
+
+    if (names[kind].has(name)) {
+      throw new Error(`${kind.slice(0, -1)} "${name}" is already registered`);
+    }
+
+    names[kind].add(name);
+    (registrations[kind] as T[]).push(item);
+  };
+
+  for (const plugin of plugins) {
+    try {
+      await plugin.register({
+        options,
+        loaders: { fetchUrl: fetchUrlFunction.memo, readLocalFile: readLocalFileFunction.memo },
+        logger: createPluginLogger(plugin.name),
+        registerTool: register<McpTool>('tools'),
+        registerResource: register<McpResource>('resources'),
+        registerPrompt: register<McpPrompt>('prompts')
+      });
+    } catch (error) {
+      throw new Error(`Failed to register plugin ${plugin.name}: ${(error as Error).message}`);
+    }
+  }
+
+  return registrations;
+};
+
+export {
+  createPluginLogger,
+  isMcpPlugin,
+  loadPluginsFunction,
+  registerPluginsFunction,
+  type McpPlugin,
+  type McpPluginContext,
+  type McpPluginLoaders,
+  type McpPluginLogger,
+  type McpPluginRegistrations
+};
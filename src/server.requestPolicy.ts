@@ -0,0 +1,176 @@
+import { setTimeout as delay } from 'node:timers/promises';
+import { OPTIONS } from './options';
+
+/**
+ * Response statuses retried, rate limits and transient server errors
+ */
+const RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Response statuses a `Retry-After` header is honoured for
+ */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Network error codes that aren't retried, a host that doesn't exist won't resolve on a retry
+ */
+const NON_RETRYABLE_ERROR_CODES = ['ENOTFOUND'];
+
+/**
+ * Active request count and queued requests, per host
+ */
+const HOST_QUEUES = new Map<string, { active: number; queue: Array<() => void> }>();
+
+/**
+ * Parse a `Retry-After` header, seconds or an HTTP date, as milliseconds.
+ *
+ * @param value
+ * @param now
+ */
+const parseRetryAfter = (value?: string | null, now = Date.now()) => {
+  const trimmed = value?.trim();
+
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(date - now, 0);
+};
+
+/**
+ * Milliseconds to wait before a retry, exponential backoff with full jitter capped at `maxDelay`.
+ *
+ * @param attempt - Zero-based attempt that failed
+ * @param options
+ * @param random
+ */
+const getRetryDelay = (attempt: number, options = OPTIONS, random = Math.random) => {
+  const { baseDelay, maxDelay } = options.fetchOptions;
+
+  return Math.round(random() * Math.min(baseDelay * 2 ** attempt, maxDelay));
+};
+
+/**
+ * Check if a request error is worth retrying. Network failures reject `fetch` with a `TypeError`, timeouts with an
+ * `AbortError`. Rejected URLs, redirect limits and unknown hosts, see `NON_RETRYABLE_ERROR_CODES`, aren't retried.
+ *
+ * @param error
+ */
+const isRetryableError = (error: unknown) =>
+  (error instanceof TypeError &&
+    !NON_RETRYABLE_ERROR_CODES.includes((error.cause as NodeJS.ErrnoException | undefined)?.code as string)) ||
+  ['AbortError', 'TimeoutError'].includes((error as Error)?.name);
+
+/**
+ * Run a request with retries. Network errors and retryable statuses are retried with exponential backoff and jitter,
+ * a `Retry-After` header on 429 and 503 responses is waited for instead, unless it exceeds `maxDelay`. The last
+ * response is returned, and the last error thrown, when retries run out.
+ *
+ * @param request - Request attempt, resolves with a response status and its `Retry-After` header
+ * @param options
+ * @param wait - Wait between attempts, milliseconds
+ */
+const retryRequestFunction = async <TResponse extends { status: number; retryAfter?: string | undefined }>(
+  request: () => Promise<TResponse>,
+  options = OPTIONS,
+  wait: (ms: number) => Promise<unknown> = delay
+): Promise<TResponse> => {
+  const { retries, maxDelay } = options.fetchOptions;
+
+  for (let attempt = 0; ; attempt++) {
+    let waitFor: number | undefined;
+
+    try {
+      const response = await request();
+
+      if (attempt >= retries || !RETRY_STATUSES.includes(response.status)) {
+        return response;
+      }
+
+      waitFor = parseRetryAfter((RETRY_AFTER_STATUSES.includes(response.status) && response.retryAfter) || undefined) ??
+        getRetryDelay(attempt, options);
+
+      if (waitFor > maxDelay) {
+        return response;
+      }
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      waitFor = getRetryDelay(attempt, options);
+    }
+
+    await wait(waitFor);
+  }
+};
+
+/**
+ * Run a request once a slot for its host is free, at most `maxConcurrencyPerHost` requests run per host. Queued
+ * requests run in order.
+ *
+ * @param url
+ * @param request
+ * @param options
+ */
+const limitHostFunction = async <TResponse>(url: string, request: () => Promise<TResponse>, options = OPTIONS) => {
+  const { host } = new URL(url);
+  const hostQueue = HOST_QUEUES.get(host) || { active: 0, queue: [] };
+
+  HOST_QUEUES.set(host, hostQueue);
+
+  if (hostQueue.active >= options.fetchOptions.maxConcurrencyPerHost) {
+    await new Promise<void>(resolve => hostQueue.queue.push(resolve));
+  } else {
+    hostQueue.active += 1;
+  }
+
+  try {
+    return await request();
+  } finally {
+    const next = hostQueue.queue.shift();
+
+    if (next) {
+      next();
+    } else {
+      hostQueue.active -= 1;
+
+      if (hostQueue.active === 0) {
+        HOST_QUEUES.delete(host);
+      }
+    }
+  }
+};
+
+/**
+ * Hosts with active or queued requests
+ */
+const getActiveHosts = () => [...HOST_QUEUES.keys()];
+
+/**
+ * Reset per-host request slots and drop queued requests, e.g. between tests.
+ */
+const resetHostQueues = () => HOST_QUEUES.clear();
+
+export {
+  NON_RETRYABLE_ERROR_CODES,
+  RETRY_AFTER_STATUSES,
+  RETRY_STATUSES,
+  getActiveHosts,
+  getRetryDelay,
+  isRetryableError,
+  limitHostFunction,
+  parseRetryAfter,
+  resetHostQueues,
+  retryRequestFunction
+};
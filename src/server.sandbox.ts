@@ -0,0 +1,95 @@
+import { realpath } from 'node:fs/promises';
+import { dirname, extname, isAbsolute, relative, resolve } from 'node:path';
+import { OPTIONS } from './options';
+
+/**
+ * Error code for local reads outside the approved documentation roots
+ */
+const ACCESS_DENIED = 'ERR_ACCESS_DENIED';
+
+/**
+ * Create an access denied error, identified by its `code`.
+ *
+ * @param message
+ */
+const createAccessDeniedError = (message: string) => Object.assign(new Error(message), { code: ACCESS_DENIED });
+
+/**
+ * Check if an error is an access denied error.
+ *
+ * @param error
+ */
+const isAccessDeniedError = (error: unknown) => (error as { code?: string })?.code === ACCESS_DENIED;
+
+/**
+ * Resolve symlinks in a path. Paths that don't exist are returned resolved but unchanged, reading them fails later.
+ *
+ * @param path
+ */
+const toRealPath = async (path: string) => (await realpath(path).catch(() => undefined)) || resolve(path);
+
+/**
+ * Check if a path is inside a root directory.
+ *
+ * @param root
+ * @param path
+ */
+const isPathInRoot = (root: string, path: string) => {
+  const relativePath = relative(root, path);
+
+  return relativePath === '' || (!relativePath.startsWith('..') && !isAbsolute(relativePath));
+};
+
+/**
+ * Approved documentation roots, `docsPath`, `llmsFilesPath`, paths added with `--allow-path`, and local custom
+ * documentation sources, the directory itself or the directory of an llms.txt or catalog file.
+ *
+ * @param options
+ */
+const getSandboxRoots = (options = OPTIONS) =>
+  [
+    options.docsPath,
+    options.llmsFilesPath,
+    ...(options.allowPaths || []),
+    ...(options.docsSources || [])
+      .filter(({ pathOrUrl }) => !options.urlRegex.test(pathOrUrl))
+      .map(({ type, pathOrUrl }) => (type === 'directory' && pathOrUrl) || dirname(pathOrUrl))
+  ].map(root => resolve(options.contextPath, root));
+
+/**
+ * Check a local path before it is read. The path must have an allowed extension and, with symlinks resolved, be
+ * inside an approved documentation root.
+ *
+ * @param path
+ * @param options
+ * @throws {Error} Access denied error, see `isAccessDeniedError`
+ */
+const assertLocalPathAllowedFunction = async (path: string, options = OPTIONS) => {
+  const resolvedPath = resolve(options.contextPath, path);
+  const roots = getSandboxRoots(options);
+
+  if (!options.localFileExtensions.includes(extname(resolvedPath).toLowerCase())) {
+    throw createAccessDeniedError(`only ${options.localFileExtensions.join(', ')} files can be read`);
+  }
+
+  if (!roots.some(root => isPathInRoot(root, resolvedPath))) {
+    throw createAccessDeniedError('path is outside the documentation roots, allow it with --allow-path');
+  }
+
+  const realPath = await toRealPath(resolvedPath);
+  const realRoots = await Promise.all(roots.map(toRealPath));
+
+  if (!options.localFileExtensions.includes(extname(realPath).toLowerCase()) ||
+    !realRoots.some(root => isPathInRoot(root, realPath))) {
+    throw createAccessDeniedError('path links outside the documentation roots');
+  }
+};
+
+export {
+  ACCESS_DENIED,
+  assertLocalPathAllowedFunction,
+  createAccessDeniedError,
+  getSandboxRoots,
+  isAccessDeniedError,
+  isPathInRoot
+};
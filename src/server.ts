@@ -1,46 +1,182 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, type ResourceMetadata, type ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { usePatternFlyDocsTool } from './tool.patternFlyDocs';
 import { fetchDocsTool } from './tool.fetchDocs';
+import { searchPatternFlyDocsTool } from './tool.searchPatternFlyDocs';
+import { searchDocsContentTool } from './tool.searchDocsContent';
+import { getComponentPropsTool } from './tool.getComponentProps';
+import {
+  patternFlyChartsResource,
+  patternFlyComponentsResource,
+  patternFlyLayoutsResource,
+  patternFlyLlmsFilesResource,
+  patternFlyLlmsSectionsResource,
+  patternFlyLocalDocsResource
+} from './resource.patternFlyDocs';
+import {
+  auditComponentAccessibilityPrompt,
+  buildPatternFlyViewPrompt,
+  migrateToV6Prompt
+} from './prompt.patternFlyDocs';
+import { startHttpTransport } from './server.http';
+import { registerPluginsFunction, type McpPlugin } from './server.plugins';
 import { OPTIONS } from './options';
 
-type McpTool = [string, { description: string; inputSchema: any }, (args: any) => Promise<any>];
+type McpTool = [string, { description: string; inputSchema: any; outputSchema?: any }, (args: any) => Promise<any>];
 
 type McpToolCreator = () => McpTool;
 
+type McpResource = [
+  string,
+  ResourceTemplate,
+  ResourceMetadata,
+  (uri: URL, variables: Record<string, string | string[]>) => Promise<any>
+];
+
+type McpResourceCreator = () => McpResource;
+
+type McpPrompt = [string, { title?: string; description: string; argsSchema: any }, (args: any) => Promise<any>];
+
+type McpPromptCreator = () => McpPrompt;
+
 /**
- * Create, register tool and errors, then run the server.
+ * Create an MCP server instance, register tools, resources and prompts.
+ *
+ * @param options
+ * @param registered - Tool, resource and prompt tuples, created once and shared across server instances
+ * @param registered.tools
+ * @param registered.resources
+ * @param registered.prompts
+ */
+const createMcpServer = (options = OPTIONS, {
+  tools: registeredTools = [],
+  resources: registeredResources = [],
+  prompts: registeredPrompts = []
+}: { tools?: McpTool[]; resources?: McpResource[]; prompts?: McpPrompt[] } = {}) => {
+  const server = new McpServer(
+    {
+      name: options.name,
+      version: options.version
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {}
+      }
+    }
+  );
+
+  registeredTools.forEach(([name, schema, callback]) => {
+    server.registerTool(name, schema, callback);
+  });
+
+  registeredResources.forEach(([name, template, metadata, callback]) => {
+    server.registerResource(name, template, metadata, callback);
+  });
+
+  registeredPrompts.forEach(([name, schema, callback]) => {
+    server.registerPrompt(name, schema, callback);
+  });
+
+  return server;
+};
+
+/**
+ * Create, register tool and errors, then run the server. Plugins register their tools, resources and prompts after
+ * the built-in ones.
  *
  * @param options
  * @param settings
  * @param settings.tools
+ * @param settings.resources
+ * @param settings.prompts
+ * @param settings.plugins - Loaded plugins, see `loadPluginsFunction`
  */
 const runServer = async (options = OPTIONS, {
   tools = [
     usePatternFlyDocsTool,
-    fetchDocsTool
-  ]
-}: { tools?: McpToolCreator[] } = {}): Promise<void> => {
+    fetchDocsTool,
+    searchPatternFlyDocsTool,
+    searchDocsContentTool,
+    getComponentPropsTool
+  ],
+  resources = [
+    patternFlyComponentsResource,
+    patternFlyLayoutsResource,
+    patternFlyChartsResource,
+    patternFlyLocalDocsResource,
+    patternFlyLlmsFilesResource,
+    patternFlyLlmsSectionsResource
+  ],
+  prompts = [
+    buildPatternFlyViewPrompt,
+    auditComponentAccessibilityPrompt,
+    migrateToV6Prompt
+  ],
+  plugins = []
+}: {
+  tools?: McpToolCreator[];
+  resources?: McpResourceCreator[];
+  prompts?: McpPromptCreator[];
+  plugins?: McpPlugin[];
+} = {}): Promise<void> => {
   try {
-    const server = new McpServer(
-      {
-        name: options.name,
-        version: options.version
-      },
-      {
-        capabilities: {
-          tools: {}
-        }
-      }
-    );
+    const registeredTools = tools.map(toolCreator => {
+      const tool = toolCreator();
 
-    tools.forEach(toolCreator => {
-      const [name, schema, callback] = toolCreator();
+      console.info(`Registered tool: ${tool[0]}`);
 
-      console.info(`Registered tool: ${name}`);
-      server.registerTool(name, schema, callback);
+      return tool;
     });
 
+    const registeredResources = resources.map(resourceCreator => {
+      const resource = resourceCreator();
+
+      console.info(`Registered resource: ${resource[0]}`);
+
+      return resource;
+    });
+
+    const registeredPrompts = prompts.map(promptCreator => {
+      const prompt = promptCreator();
+
+      console.info(`Registered prompt: ${prompt[0]}`);
+
+      return prompt;
+    });
+
+    const pluginRegistrations = await registerPluginsFunction(plugins, options, {
+      tools: registeredTools.map(([name]) => name),
+      resources: registeredResources.map(([name]) => name),
+      prompts: registeredPrompts.map(([name]) => name)
+    });
+
+    pluginRegistrations.tools.forEach(([name]) => console.info(`Registered plugin tool: ${name}`));
+    pluginRegistrations.resources.forEach(([name]) => console.info(`Registered plugin resource: ${name}`));
+    pluginRegistrations.prompts.forEach(([name]) => console.info(`Registered plugin prompt: ${name}`));
+
+    const registered = {
+      tools: [...registeredTools, ...pluginRegistrations.tools],
+      resources: [...registeredResources, ...pluginRegistrations.resources],
+      prompts: [...registeredPrompts, ...pluginRegistrations.prompts]
+    };
+
+    if (options.http) {
+      const { url, close } = await startHttpTransport(() => createMcpServer(options, registered), options);
+
+      process.on('SIGINT', async () => {
+        await close();
+        process.exit(0);
+      });
+
+      console.log(`PatternFly MCP server running on ${url}`);
+
+      return;
+    }
+
+    const server = createMcpServer(options, registered);
+
     process.on('SIGINT', async () => {
       await server?.close();
       process.exit(0);
@@ -57,7 +193,12 @@ const runServer = async (options = OPTIONS, {
 };
 
 export {
+  createMcpServer,
   runServer,
+  type McpPrompt,
+  type McpPromptCreator,
+  type McpResource,
+  type McpResourceCreator,
   type McpTool,
   type McpToolCreator
 };
@@ -0,0 +1,166 @@
+import { lookup as lookupCallback } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { Agent } from 'undici';
+import { OPTIONS } from './options';
+
+/**
+ * Private, loopback, link-local and other non-public address ranges
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv4'));
+
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+/**
+ * Check if an IP address is in a private, loopback, link-local or other non-public range. IPv4-mapped IPv6
+ * addresses, dotted or hex, e.g. "::ffff:127.0.0.1" or "::ffff:7f00:1", are checked as IPv4.
+ *
+ * @param address
+ */
+const isBlockedAddress = (address: string) => {
+  if (isIP(address) !== 6) {
+    return BLOCKED_ADDRESSES.check(address, 'ipv4');
+  }
+
+  const normalized = new URL(`http://[${address}]/`).hostname.slice(1, -1);
+  const [, high, low] = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(normalized) || [];
+
+  if (high && low) {
+    const mappedIpv4 = [parseInt(high, 16) >> 8, parseInt(high, 16) & 255, parseInt(low, 16) >> 8, parseInt(low, 16) & 255];
+
+    return BLOCKED_ADDRESSES.check(mappedIpv4.join('.'), 'ipv4');
+  }
+
+  return BLOCKED_ADDRESSES.check(normalized, 'ipv6');
+};
+
+/**
+ * DNS lookup for outgoing connections that fails when a host resolves to a blocked address, see `isBlockedAddress`.
+ * Connections use the addresses checked here, so a host can't pass `assertUrlAllowedFunction` and then resolve to
+ * a private address when connecting, e.g. with DNS rebinding.
+ *
+ * @param hostname
+ * @param options
+ * @param callback
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    const blocked = addresses?.find(({ address }) => isBlockedAddress(address));
+    const [first] = addresses || [];
+
+    if (error || blocked || !first) {
+      callback(error || new Error(`URL not allowed: ${hostname} resolves to the private address ${blocked?.address}`), '');
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+/**
+ * Dispatcher for requests under the URL policy, connections are limited to public addresses, see
+ * `lookupPublicAddress`.
+ */
+const PUBLIC_ADDRESS_DISPATCHER = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * Find the allowlist entry a URL matches. Entries are URL prefixes, e.g. "https://raw.githubusercontent.com/patternfly/",
+ * hosts, e.g. "docs.example.com" or "localhost:3000", or wildcard hosts, e.g. "*.example.com".
+ *
+ * @param url
+ * @param allowlist
+ */
+const matchUrlAllowlist = (url: string, allowlist: string[] = []) => {
+  const { host, hostname, href } = new URL(url);
+
+  return allowlist.find(entry => {
+    const value = entry.trim().toLowerCase();
+
+    if (/^https?:\/\//.test(value)) {
+      return href.toLowerCase().startsWith(value);
+    }
+
+    if (value.startsWith('*.')) {
+      return hostname.endsWith(value.slice(1));
+    }
+
+    return value === host || value === hostname;
+  });
+};
+
+/**
+ * Check a URL against the allowlist, and the docs fallback URL, then resolve its host and block private, loopback and
+ * link-local addresses. URLs matching an entry from `--allow-url` are explicitly allowed and skip the address check.
+ *
+ * @param url
+ * @param options
+ * @throws {Error} When the URL is not allowed
+ */
+const assertUrlAllowedFunction = async (url: string, options = OPTIONS) => {
+  let parsedUrl: URL;
+
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    throw new Error(`URL not allowed: ${url} is not a valid URL`);
+  }
+
+  if (!/^https?:$/.test(parsedUrl.protocol)) {
+    throw new Error(`URL not allowed: ${url} uses an unsupported protocol`);
+  }
+
+  if (matchUrlAllowlist(url, options.allowUrls)) {
+    return;
+  }
+
+  if (!matchUrlAllowlist(url, [...options.urlAllowlist, ...((options.docsFallbackUrl && [options.docsFallbackUrl]) || [])])) {
+    throw new Error(`URL not allowed: ${parsedUrl.host} is not in the allowlist, allow it with --allow-url`);
+  }
+
+  const hostname = parsedUrl.hostname.replace(/^\[|\]$/g, '');
+  const addresses = (isIP(hostname) && [{ address: hostname }]) || await lookup(hostname, { all: true });
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+
+  if (blocked) {
+    throw new Error(`URL not allowed: ${parsedUrl.host} resolves to the private address ${blocked.address}`);
+  }
+};
+
+/**
+ * Dispatcher for a request, `PUBLIC_ADDRESS_DISPATCHER` unless the URL matches an entry from `--allow-url`, which
+ * can resolve to private addresses.
+ *
+ * @param url
+ * @param options
+ */
+const getUrlDispatcher = (url: string, options = OPTIONS) =>
+  (!matchUrlAllowlist(url, options.allowUrls) && PUBLIC_ADDRESS_DISPATCHER) || undefined;
+
+export {
+  assertUrlAllowedFunction,
+  getUrlDispatcher,
+  isBlockedAddress,
+  lookupPublicAddress,
+  matchUrlAllowlist,
+  PUBLIC_ADDRESS_DISPATCHER
+};
@@ -1,9 +1,9 @@
 import { z } from 'zod';
-import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { type McpTool } from './server';
-import { processDocsFunction } from './server.getResources';
+import { DOCS_OUTPUT_SCHEMA, createDocsToolCallback, loadDocsFunction } from './server.getResources';
 import { OPTIONS } from './options';
 import { memo } from './server.caching';
+import { MIN_PAGE_CHARS } from './server.pagination';
 
 /**
  * fetchDocs tool function (tuple pattern)
@@ -11,46 +11,28 @@ import { memo } from './server.caching';
  * @param options
  */
 const fetchDocsTool = (options = OPTIONS): McpTool => {
-  const memoProcess = memo(processDocsFunction, options.toolMemoOptions.fetchDocs);
-
-  const callback = async (args: any = {}) => {
-    const { urlList } = args;
-
-    if (!urlList || !Array.isArray(urlList)) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        `Missing required parameter: urlList (must be an array of strings): ${urlList}`
-      );
-    }
-
-    let result: string;
-
-    try {
-      result = await memoProcess(urlList);
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to fetch documentation: ${error}`
-      );
-    }
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: result
-        }
-      ]
-    };
-  };
+  const callback = createDocsToolCallback('fetchDocs', memo(loadDocsFunction, options.toolMemoOptions.fetchDocs), options);
 
   return [
     'fetchDocs',
     {
       description: 'Fetch documentation for one or more URLs extracted from previous tool calls responses. The URLs should be passed as an array in the "urlList" argument.',
       inputSchema: {
-        urlList: z.array(z.string()).describe('The list of URLs to fetch documentation from')
-      }
+        urlList: z.array(z.string()).describe('The list of URLs to fetch documentation from'),
+        version: z.string().optional()
+          .describe('PatternFly version to fetch the documentation for, e.g. "6" or "6.0.0". Defaults to the server version'),
+        sections: z.array(z.string()).optional()
+          .describe('Heading titles or slugs, e.g. "Accessibility" or "usage". Returns only the matching sections of each document'),
+        outline: z.boolean().optional()
+          .describe('Return only the heading outline of each document, with slugs to pass as "sections"'),
+        maxChars: z.number().int().min(1).optional()
+          .describe(`Split long results into parts of at most this many characters, on heading boundaries. Minimum ${MIN_PAGE_CHARS}`),
+        maxTokens: z.number().int().min(1).optional()
+          .describe('Split long results into parts of about this many tokens, on heading boundaries'),
+        cursor: z.string().optional()
+          .describe('Cursor from a previous part, returns the next part. Pass the same urlList, version and sections')
+      },
+      outputSchema: DOCS_OUTPUT_SCHEMA
     },
     callback
   ];
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type McpTool } from './server';
+import { getComponentPropsFunction, type ComponentProps } from './docs.props';
+import { OPTIONS } from './options';
+import { memo } from './server.caching';
+
+/**
+ * Escape a value for a markdown table cell.
+ *
+ * @param value
+ */
+const toTableCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/**
+ * Render component props as markdown tables, one per prop interface.
+ *
+ * @param componentProps
+ */
+const renderComponentProps = ({ component, examplesUrl, interfaces, missing }: ComponentProps) =>
+  [
+    `# ${component} props`,
+    `Prop components listed in ${examplesUrl}`,
+    ...interfaces.map(({ name, interfaceName, source, defaultsSource, props }) => [
+      `## ${name} (${interfaceName})\n\nSource: ${source}${(defaultsSource && `, defaults from ${defaultsSource}`) || ''}\n`,
+      '| Name | Type | Default | Required | Deprecated | Description |',
+      '| --- | --- | --- | --- | --- | --- |',
+      ...props.map(prop => `| ${[
+        prop.name,
+        `\`${prop.type}\``,
+        (prop.defaultValue && `\`${prop.defaultValue}\``) || '',
+        (prop.required && 'yes') || 'no',
+        (prop.deprecated && 'yes') || 'no',
+        prop.description
+      ].map(toTableCell).join(' | ')} |`)
+    ].join('\n')),
+    ...((missing.length && [`Props could not be found for: ${missing.join(', ')}`]) || [])
+  ].join('\n\n');
+
+/**
+ * getComponentProps tool function (tuple pattern)
+ *
+ * @param options
+ */
+const getComponentPropsTool = (options = OPTIONS): McpTool => {
+  const memoGetProps = memo(
+    (name: string) => getComponentPropsFunction(name, options),
+    options.toolMemoOptions.getComponentProps
+  );
+
+  const callback = async (args: any = {}) => {
+    const { componentName } = args;
+
+    if (!componentName || typeof componentName !== 'string') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required parameter: componentName (must be a string): ${componentName}`
+      );
+    }
+
+    let result: ComponentProps | undefined;
+
+    try {
+      result = await memoGetProps(componentName);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to load component props: ${error}`
+      );
+    }
+
+    if (!result) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No examples documentation found for component: ${componentName}`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: renderComponentProps(result)
+        }
+      ]
+    };
+  };
+
+  return [
+    'getComponentProps',
+    {
+      description: `Get the props of a PatternFly React component, e.g. "Button" or "Dropdown".
+
+        Returns every prop interface listed in the component's examples page, with each prop's name, type, default, required and deprecated flags and description.
+        Use it before writing code with a component so only real props are used.`,
+      inputSchema: {
+        componentName: z.string().describe('PatternFly component name, e.g. "Button", "DualListSelector" or "about-modal"')
+      }
+    },
+    callback
+  ];
+};
+
+export { getComponentPropsTool };
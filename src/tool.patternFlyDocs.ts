@@ -1,14 +1,17 @@
 import { join } from 'node:path';
 import { z } from 'zod';
-import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { type McpTool } from './server';
 import { COMPONENT_DOCS } from './docs.component';
 import { LAYOUT_DOCS } from './docs.layout';
 import { CHART_DOCS } from './docs.chart';
 import { LOCAL_DOCS } from './docs.local';
+import { CUSTOM_DOCS } from './docs.custom';
+import { renderDocLinks } from './docs.catalog';
 import { OPTIONS } from './options';
-import { processDocsFunction } from './server.getResources';
+import { getPfVersion, getVersionedDocs } from './docs.version';
+import { DOCS_OUTPUT_SCHEMA, createDocsToolCallback, loadDocsFunction } from './server.getResources';
 import { memo } from './server.caching';
+import { MIN_PAGE_CHARS } from './server.pagination';
 
 /**
  * usePatternFlyDocs tool function (tuple pattern)
@@ -16,38 +19,7 @@ import { memo } from './server.caching';
  * @param options
  */
 const usePatternFlyDocsTool = (options = OPTIONS): McpTool => {
-  const memoProcess = memo(processDocsFunction, options.toolMemoOptions.usePatternFlyDocs);
-
-  const callback = async (args: any = {}) => {
-    const { urlList } = args;
-
-    if (!urlList || !Array.isArray(urlList)) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        `Missing required parameter: urlList (must be an array of strings): ${urlList}`
-      );
-    }
-
-    let result: string;
-
-    try {
-      result = await memoProcess(urlList);
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to fetch documentation: ${error}`
-      );
-    }
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: result
-        }
-      ]
-    };
-  };
+  const callback = createDocsToolCallback('usePatternFlyDocs', memo(loadDocsFunction, options.toolMemoOptions.usePatternFlyDocs), options);
 
   return [
     'usePatternFlyDocs',
@@ -57,12 +29,12 @@ const usePatternFlyDocsTool = (options = OPTIONS): McpTool => {
         The description of the tool contains links to ${options.docsHost ? 'llms.txt' : '.md'} files or local file paths that the user has made available.
 
         ${options.docsHost
-            ? `[@patternfly/react-core@6.0.0^](${join('react-core', '6.0.0', 'llms.txt')})`
+            ? `[@patternfly/react-core@${getPfVersion(options)}^](${join('react-core', getPfVersion(options), 'llms.txt')})${(CUSTOM_DOCS.length && `\n${renderDocLinks(CUSTOM_DOCS)}`) || ''}`
             : `
-            ${COMPONENT_DOCS.join('\n')}
-            ${LAYOUT_DOCS.join('\n')}
-            ${CHART_DOCS.join('\n')}
-            ${LOCAL_DOCS.join('\n')}
+            ${renderDocLinks(getVersionedDocs(COMPONENT_DOCS, options).filter(({ section }) => section !== 'examples'))}
+            ${renderDocLinks(getVersionedDocs(LAYOUT_DOCS, options))}
+            ${renderDocLinks(getVersionedDocs(CHART_DOCS, options))}
+            ${renderDocLinks([...LOCAL_DOCS, ...CUSTOM_DOCS])}
           `
         }
 
@@ -70,8 +42,21 @@ const usePatternFlyDocsTool = (options = OPTIONS): McpTool => {
         2. Analyze the URLs listed in the ${options.docsHost ? 'llms.txt' : '.md'} file
         3. Then fetch specific documentation pages relevant to the user's question with the subsequent tool call.`,
       inputSchema: {
-        urlList: z.array(z.string()).describe('The list of urls to fetch the documentation from')
-      }
+        urlList: z.array(z.string()).describe('The list of urls to fetch the documentation from'),
+        version: z.string().optional()
+          .describe('PatternFly version to fetch the documentation for, e.g. "6" or "6.0.0". Defaults to the server version'),
+        sections: z.array(z.string()).optional()
+          .describe('Heading titles or slugs, e.g. "Accessibility" or "usage". Returns only the matching sections of each document. For llms.txt files, section or link titles, e.g. "Components" or "AboutModal"'),
+        outline: z.boolean().optional()
+          .describe('Return only the heading outline of each document, with slugs to pass as "sections"'),
+        maxChars: z.number().int().min(1).optional()
+          .describe(`Split long results into parts of at most this many characters, on heading boundaries. Minimum ${MIN_PAGE_CHARS}`),
+        maxTokens: z.number().int().min(1).optional()
+          .describe('Split long results into parts of about this many tokens, on heading boundaries'),
+        cursor: z.string().optional()
+          .describe('Cursor from a previous part, returns the next part. Pass the same urlList, version and sections')
+      },
+      outputSchema: DOCS_OUTPUT_SCHEMA
     },
     callback
   ];
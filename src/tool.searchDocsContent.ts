@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type McpTool } from './server';
+import { DOCS_INDEX, indexLocalDocsFunction, type DocsIndexResult } from './docs.index';
+import { OPTIONS } from './options';
+
+/**
+ * Default and maximum number of passages
+ */
+const SEARCH_CONTENT_LIMITS = {
+  default: 5,
+  max: 25
+};
+
+/**
+ * Render passages as markdown, each linked to its source and heading anchor.
+ *
+ * @param query
+ * @param results
+ */
+const renderPassages = (query: string, results: DocsIndexResult[]) =>
+  (results.length &&
+    [
+      `# Passages matching "${query}"`,
+      ...results.map(({ source, heading, anchor, score, snippet }, index) =>
+        `## ${index + 1}. ${heading}\nSource: ${source}${(anchor && `#${anchor}`) || ''} (score: ${score})\n\n${snippet}`)
+    ].join('\n\n')) ||
+  `No documentation passages found for "${query}". Try different keywords, or fetch more pages with the fetchDocs tool to add them to the index.`;
+
+/**
+ * searchDocsContent tool function (tuple pattern). Local documentation is indexed when the tool is created, pages
+ * loaded by fetchDocs and usePatternFlyDocs are added as they are fetched.
+ *
+ * @param options
+ */
+const searchDocsContentTool = (options = OPTIONS): McpTool => {
+  const indexed = indexLocalDocsFunction(DOCS_INDEX, options);
+
+  const callback = async (args: any = {}) => {
+    const { query, limit = SEARCH_CONTENT_LIMITS.default } = args;
+
+    if (!query || typeof query !== 'string') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required parameter: query (must be a string): ${query}`
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > SEARCH_CONTENT_LIMITS.max) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid parameter: limit (must be an integer between 1 and ${SEARCH_CONTENT_LIMITS.max}): ${limit}`
+      );
+    }
+
+    await indexed;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: renderPassages(query, DOCS_INDEX.search(query, { limit }))
+        }
+      ]
+    };
+  };
+
+  return [
+    'searchDocsContent',
+    {
+      description: `Full-text search inside PatternFly documentation content, the bundled local documentation plus every page already fetched by fetchDocs or usePatternFlyDocs.
+
+        Returns the best matching passages with their source path or URL, heading anchor and an excerpt. Use it to find specific rules, props or patterns inside pages, and searchPatternFlyDocs to find pages by name.`,
+      inputSchema: {
+        query: z.string().describe('Free-text search query, e.g. "focus management in modals"'),
+        limit: z.number().int().min(1).max(SEARCH_CONTENT_LIMITS.max).optional()
+          .describe(`Maximum number of passages, defaults to ${SEARCH_CONTENT_LIMITS.default}`)
+      }
+    },
+    callback
+  ];
+};
+
+export { searchDocsContentTool };
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type McpTool } from './server';
+import { getSearchEntriesFunction, searchDocs, type DocSearchResult } from './docs.search';
+import { OPTIONS } from './options';
+import { memo } from './server.caching';
+
+/**
+ * Default and maximum number of search results
+ */
+const SEARCH_LIMITS = {
+  default: 10,
+  max: 50
+};
+
+/**
+ * Render search results as a markdown list.
+ *
+ * @param query
+ * @param results
+ */
+const renderSearchResults = (query: string, results: DocSearchResult[]) =>
+  (results.length &&
+    [
+      `# Search results for "${query}"`,
+      ...results.map(({ label, url, section, score, snippet }, index) =>
+        `${index + 1}. [${label}](${url})\n   Section: ${section}, score: ${score}${(snippet && `\n   ${snippet}`) || ''}`)
+    ].join('\n\n')) ||
+  `No PatternFly documentation found for "${query}". Try fewer or different keywords.`;
+
+/**
+ * searchPatternFlyDocs tool function (tuple pattern)
+ *
+ * @param options
+ */
+const searchPatternFlyDocsTool = (options = OPTIONS): McpTool => {
+  const memoSearch = memo(
+    async (query: string, limit: number) => searchDocs(await getSearchEntriesFunction(options), query, { limit }),
+    options.toolMemoOptions.searchPatternFlyDocs
+  );
+
+  const callback = async (args: any = {}) => {
+    const { query, limit = SEARCH_LIMITS.default } = args;
+
+    if (!query || typeof query !== 'string') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required parameter: query (must be a string): ${query}`
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > SEARCH_LIMITS.max) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid parameter: limit (must be an integer between 1 and ${SEARCH_LIMITS.max}): ${limit}`
+      );
+    }
+
+    let results: DocSearchResult[];
+
+    try {
+      results = await memoSearch(query, limit);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to search documentation: ${error}`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: renderSearchResults(query, results)
+        }
+      ]
+    };
+  };
+
+  return [
+    'searchPatternFlyDocs',
+    {
+      description: `Search the PatternFly documentation catalog by keyword, e.g. "dropdown with typeahead" or "empty table state".
+
+        Returns ranked documentation pages with a label, URL, section kind (design-guidelines, accessibility, examples, guide), relevance score and a short description.
+        Use the fetchDocs tool with the returned URLs to read the pages.`,
+      inputSchema: {
+        query: z.string().describe('Free-text search query, e.g. a component name, feature or use case'),
+        limit: z.number().int().min(1).max(SEARCH_LIMITS.max).optional()
+          .describe(`Maximum number of results, defaults to ${SEARCH_LIMITS.default}`)
+      }
+    },
+    callback
+  ];
+};
+
+export { searchPatternFlyDocsTool };
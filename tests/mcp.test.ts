@@ -1,15 +1,43 @@
 /**
  *  Requires: npm run build prior to running Jest.
  */
-
-import { startServer, type StdioClient } from './utils/stdioClient';
+import { execFile } from 'node:child_process';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { startServer, type RpcResponse, type StdioClient } from './utils/stdioClient';
+import { initializeHttpSession, startHttpServer, type HttpClient } from './utils/httpClient';
 import { loadFixture, startHttpFixture } from './utils/httpFixtureServer';
 
+/**
+ * Text of a tool result, embedded resource and text items joined with the default separator.
+ *
+ * @param resp
+ */
+const getToolText = (resp?: RpcResponse) =>
+  (resp?.result?.content || [])
+    .map(item => (item.resource as { text?: string } | undefined)?.text ?? item.text ?? '')
+    .join('\n\n---\n\n');
+
+/**
+ * Temporary HTTP cache directory passed to every server, runs never read or write the user cache, e.g.
+ * `~/.cache/patternfly-mcp`, so stale entries can't leak between runs.
+ */
+const CACHE_DIR = join(tmpdir(), `patternfly-mcp-test-cache-${process.pid}`);
+
+/**
+ * Server arguments using the temporary HTTP cache directory
+ */
+const CACHE_ARGS = ['--cache-dir', CACHE_DIR];
+
+afterAll(async () => rm(CACHE_DIR, { recursive: true, force: true }));
+
 describe('PatternFly MCP', () => {
   let client: StdioClient;
 
   beforeEach(async () => {
-    client = await startServer();
+    client = await startServer({ args: CACHE_ARGS });
   });
 
   afterEach(async () => client.stop());
@@ -29,27 +57,249 @@ describe('PatternFly MCP', () => {
     };
 
     const resp = await client.send(req);
-    const text = resp?.result?.content?.[0]?.text || '';
+    const text = getToolText(resp);
 
     expect(text.startsWith('# Documentation from')).toBe(true);
     expect(text).toMatchSnapshot();
   });
 
+  it('should deny local reads outside the documentation roots', async () => {
+    const resp = await client.send({
+      method: 'tools/call',
+      params: {
+        name: 'usePatternFlyDocs',
+        arguments: {
+          urlList: ['/etc/passwd', 'documentation/../README.md', 'documentation/guidelines/README.md']
+        }
+      }
+    });
+    const text = getToolText(resp);
+
+    expect(text).toContain('⛔ Access denied to /etc/passwd: only .md, .mdx, .txt files can be read');
+    expect(text).toContain('⛔ Access denied to documentation/../README.md: path is outside the documentation roots');
+    expect(text).toContain('# Documentation from documentation/guidelines/README.md');
+  });
+
+  it('should return one content item per document, and report failed documents', async () => {
+    const partial = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList: ['documentation/guidelines/README.md', 'documentation/missing.md'] } }
+    });
+    const failed = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList: ['documentation/missing.md'] } }
+    });
+    const [resource, failure] = partial?.result?.content || [];
+
+    expect(resource?.type).toBe('resource');
+    expect(resource?.resource).toEqual(expect.objectContaining({
+      uri: expect.stringMatching(/^file:\/\/.+\/documentation\/guidelines\/README\.md$/),
+      mimeType: 'text/markdown'
+    }));
+    expect(failure?.text).toMatch(/^❌ Failed to load documentation\/missing\.md/);
+    expect(partial?.result?._meta).toEqual({
+      failed: [{ url: 'documentation/missing.md', status: 'failed', error: expect.stringMatching(/ENOENT/) }]
+    });
+    expect(partial?.result?.isError).toBeUndefined();
+    expect(failed?.result?.isError).toBe(true);
+  });
+
+  it('should return structured content for each document', async () => {
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList: ['documentation/guidelines/README.md', 'documentation/missing.md'] } }
+    });
+    const { documents = [] } = resp?.result?.structuredContent as { documents?: Array<Record<string, unknown>> } || {};
+    const tools = (await client.send({ method: 'tools/list' }))?.result?.tools || [];
+
+    expect(tools.find(({ name }) => name === 'fetchDocs')?.outputSchema).toEqual(expect.objectContaining({ type: 'object' }));
+    expect(documents).toEqual([
+      expect.objectContaining({
+        source: 'documentation/guidelines/README.md',
+        resolvedPath: 'documentation/guidelines/README.md',
+        status: 'loaded',
+        contentType: 'text/markdown',
+        bytes: expect.any(Number),
+        fetchedAt: expect.any(String),
+        content: expect.stringMatching(/^# PatternFly Guidelines/)
+      }),
+      expect.objectContaining({
+        source: 'documentation/missing.md',
+        status: 'failed',
+        bytes: 0,
+        error: expect.stringMatching(/ENOENT/)
+      })
+    ]);
+  });
+
+  it('should paginate long results with a continuation cursor', async () => {
+    const urlList = ['documentation/guidelines/README.md', 'documentation/components/README.md'];
+    const first = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList, maxChars: 1000 } }
+    });
+    const firstText = getToolText(first);
+    const cursor = /cursor: "([^"]+)"/.exec(firstText)?.[1] || '';
+
+    const second = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList, cursor } }
+    });
+    const secondText = getToolText(second);
+
+    expect(firstText).toMatch(/Part 1 of \d+, \d+ remaining\. To continue, call fetchDocs again/);
+    expect(secondText).toMatch(/Part 2 of \d+/);
+    expect(secondText).not.toBe(firstText);
+  });
+
+  it('should return a document outline and selected sections', async () => {
+    const urlList = ['documentation/guidelines/README.md'];
+    const outline = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList, outline: true } }
+    });
+    const sections = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList, sections: ['icon-usage'] } }
+    });
+    const outlineText = getToolText(outline);
+    const sectionsText = getToolText(sections);
+
+    expect(outlineText).toContain('  - Essential Rules (#essential-rules)\n    - Version Requirements (#version-requirements)');
+    expect(sectionsText.startsWith('# Documentation from')).toBe(true);
+    expect(sectionsText).toContain('### Icon Usage');
+    expect(sectionsText).not.toContain('### Styling Rules');
+  });
+
   it('should expose expected tools and stable shape', async () => {
     const resp = await client.send({ method: 'tools/list' });
     const tools = resp?.result?.tools || [];
     const toolNames = tools.map(tool => tool.name).sort();
 
-    expect(toolNames).toEqual(expect.arrayContaining(['usePatternFlyDocs', 'fetchDocs']));
+    expect(toolNames).toEqual(expect.arrayContaining(['usePatternFlyDocs', 'fetchDocs', 'searchPatternFlyDocs', 'searchDocsContent', 'getComponentProps']));
     expect({ toolNames }).toMatchSnapshot();
   });
+
+  it('should search documentation by keyword', async () => {
+    const resp = await client.send({
+      method: 'tools/call',
+      params: {
+        name: 'searchPatternFlyDocs',
+        arguments: { query: 'dropdown with typeahead', limit: 6 }
+      }
+    });
+    const text = resp?.result?.content?.[0]?.text || '';
+
+    expect(text.startsWith('# Search results for "dropdown with typeahead"')).toBe(true);
+    expect(text).toContain('[@patternfly/Dropdown - Examples]');
+    expect(text).toContain('[@patternfly/Select - Examples]');
+  });
+
+  it('should search inside bundled documentation content', async () => {
+    const resp = await client.send({
+      method: 'tools/call',
+      params: {
+        name: 'searchDocsContent',
+        arguments: { query: 'install dependencies', limit: 3 }
+      }
+    });
+    const text = resp?.result?.content?.[0]?.text || '';
+
+    expect(text.startsWith('# Passages matching "install dependencies"')).toBe(true);
+    expect(text).toMatch(/documentation\/setup\/quick-start\.md#step-3-install-dependencies/);
+  });
+
+  it('should reject component props requests for unknown components', async () => {
+    const resp = await client.send({
+      method: 'tools/call',
+      params: {
+        name: 'getComponentProps',
+        arguments: { componentName: 'LoremIpsum' }
+      }
+    });
+
+    expect(JSON.stringify(resp)).toMatch(/No examples documentation found for component: LoremIpsum/);
+  });
+});
+
+describe('Resources', () => {
+  let client: StdioClient;
+
+  beforeEach(async () => {
+    client = await startServer({ args: CACHE_ARGS });
+  });
+
+  afterEach(async () => client.stop());
+
+  it('should expose resource templates', async () => {
+    const resp = await client.send({ method: 'resources/templates/list' });
+    const uriTemplates = (resp?.result?.resourceTemplates as Array<{ uriTemplate: string }> || [])
+      .map(({ uriTemplate }) => uriTemplate)
+      .sort();
+
+    expect(uriTemplates).toEqual(expect.arrayContaining(['patternfly://components/{name}/{section}']));
+    expect({ uriTemplates }).toMatchSnapshot();
+  });
+
+  it('should list catalog resources', async () => {
+    const resp = await client.send({ method: 'resources/list' });
+    const uris = (resp?.result?.resources as Array<{ uri: string }> || []).map(({ uri }) => uri);
+
+    expect(uris).toEqual(expect.arrayContaining([
+      'patternfly://components/Button/accessibility',
+      'patternfly://components/Button/examples',
+      'patternfly://llms/react-core/6.0.0'
+    ]));
+  });
+
+  it('should read a bundled documentation resource', async () => {
+    const resp = await client.send({
+      method: 'resources/read',
+      params: { uri: 'patternfly://docs/react-setup' }
+    });
+    const [content] = resp?.result?.contents as Array<{ uri: string; mimeType: string; text: string }> || [];
+
+    expect(content?.uri).toBe('patternfly://docs/react-setup');
+    expect(content?.mimeType).toBe('text/markdown');
+    expect(content?.text).toMatch(/setup/i);
+  });
+});
+
+describe('Prompts', () => {
+  let client: StdioClient;
+
+  beforeEach(async () => {
+    client = await startServer({ args: CACHE_ARGS });
+  });
+
+  afterEach(async () => client.stop());
+
+  it('should expose expected prompts', async () => {
+    const resp = await client.send({ method: 'prompts/list' });
+    const promptNames = (resp?.result?.prompts as Array<{ name: string }> || []).map(({ name }) => name).sort();
+
+    expect({ promptNames }).toMatchSnapshot();
+  });
+
+  it('should embed catalog links in a prompt', async () => {
+    const resp = await client.send({
+      method: 'prompts/get',
+      params: {
+        name: 'build-patternfly-view',
+        arguments: { description: 'a user list', components: 'Button' }
+      }
+    });
+    const [message] = resp?.result?.messages as Array<{ content: { text: string } }> || [];
+
+    expect(message?.content?.text).toMatch(/@patternfly\/Button - Accessibility/);
+  });
 });
 
 describe('Hosted mode, --docs-host', () => {
   let client: StdioClient;
 
   beforeEach(async () => {
-    client = await startServer({ args: ['--docs-host'] });
+    client = await startServer({ args: [...CACHE_ARGS, '--docs-host'] });
   });
 
   afterEach(async () => client.stop());
@@ -63,12 +313,171 @@ describe('Hosted mode, --docs-host', () => {
       }
     };
     const resp = await client.send(req);
-    const text = resp?.result?.content?.[0]?.text || '';
+    const text = getToolText(resp);
 
     expect(text.startsWith('# Documentation from')).toBe(true);
     expect(text.includes('react-core')).toBe(true);
     expect(text.split(/\n/g).filter(Boolean).splice(1)).toMatchSnapshot();
   });
+
+  it('should return only the selected llms.txt sections and links', async () => {
+    const resp = await client.send({
+      method: 'tools/call',
+      params: {
+        name: 'usePatternFlyDocs',
+        arguments: { urlList: ['patternfly/6.0.0/llms.txt', 'react-core/6.0.0/llms.txt'], sections: ['Design Foundations', 'AboutModal'] }
+      }
+    });
+    const text = getToolText(resp);
+
+    expect(text).toContain('## Design Foundations\n[Colors](');
+    expect(text).not.toContain('[Motion]()');
+    expect(text).not.toContain('## Migration');
+    expect(text).toContain('[@patternfly/AboutModal - Examples](');
+    expect(text).not.toContain('[@patternfly/Accordion - Examples](');
+  });
+
+  it('should reject a PatternFly version without a catalog', async () => {
+    const resp = await client.send({
+      method: 'tools/call',
+      params: {
+        name: 'usePatternFlyDocs',
+        arguments: { urlList: ['react-core/6.0.0/llms.txt'], version: '4' }
+      }
+    });
+
+    expect(JSON.stringify(resp)).toMatch(/No documentation catalog for PatternFly version \\"4\\"/);
+  });
+});
+
+describe('CLI arguments', () => {
+  it('should print the usage message with --help', async () => {
+    const { stdout } = await promisify(execFile)('node', ['dist/index.js', '--help']);
+
+    expect(stdout).toMatch(/^Usage: patternfly-mcp \[command\] \[options\]/);
+    expect(stdout).toContain('--fetch-timeout <ms>');
+  });
+
+  it('should exit non-zero with a usage message on unknown flags', async () => {
+    await expect(promisify(execFile)('node', ['dist/index.js', '--docs-hots']))
+      .rejects.toEqual(expect.objectContaining({
+        code: 1,
+        stderr: expect.stringMatching(/^Unknown option: --docs-hots\n\nUsage: patternfly-mcp/)
+      }));
+  });
+});
+
+describe('Docs directory, --docs-path', () => {
+  let docsDir: string;
+  let client: StdioClient;
+
+  beforeAll(async () => {
+    docsDir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-docs-'));
+    await mkdir(join(docsDir, 'setup'));
+    await writeFile(join(docsDir, 'setup', 'README.md'), '# Custom setup\n\nSetup guide from the custom docs directory.');
+    client = await startServer({ args: [...CACHE_ARGS, '--docs-path', docsDir] });
+  });
+
+  afterAll(async () => {
+    await client.stop();
+    await rm(docsDir, { recursive: true, force: true });
+  });
+
+  it('should list and read local guides from the docs directory', async () => {
+    const tools = await client.send({ method: 'tools/list' });
+    const description = tools.result?.tools?.find(({ name }) => name === 'usePatternFlyDocs')?.description;
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'usePatternFlyDocs', arguments: { urlList: [join(docsDir, 'setup', 'README.md')] } }
+    });
+
+    expect(description).toContain(`[@patternfly/react-setup](${join(docsDir, 'setup', 'README.md')})`);
+    expect(description).not.toContain('documentation/setup/README.md');
+    expect(getToolText(resp)).toContain('Setup guide from the custom docs directory.');
+  });
+});
+
+describe('Config file, --config', () => {
+  let configDir: string;
+
+  beforeAll(async () => {
+    configDir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-config-'));
+    await writeFile(join(configDir, 'valid.json'), JSON.stringify({ docsHost: true }));
+    await writeFile(join(configDir, 'invalid.json'), JSON.stringify({ docsHots: true, fetchTimeout: 'soon' }));
+    await writeFile(join(configDir, 'sources.json'), JSON.stringify({
+      docsSources: [{ namespace: '@acme', type: 'directory', pathOrUrl: 'acme-docs' }]
+    }));
+    await mkdir(join(configDir, 'acme-docs'));
+    await writeFile(join(configDir, 'plugins.json'), JSON.stringify({ plugins: ['./acme-plugin.mjs'] }));
+    await writeFile(join(configDir, 'acme-plugin.mjs'), `export default {
+  name: 'acme',
+  register: ({ options, loaders, logger, registerTool }) => {
+    logger.info('registering');
+    registerTool(['acmeReadme', { description: 'Read the README title', inputSchema: {} }, async () => {
+      const readme = await loaders.readLocalFile('README.md');
+
+      return { content: [{ type: 'text', text: options.name + ': ' + readme.split('\\n')[0] }] };
+    }]);
+  }
+};
+`);
+    await writeFile(join(configDir, 'acme-docs', 'ProductCard.md'), '# Product card\n\nCards for products in the Acme storefront.');
+  });
+
+  afterAll(async () => {
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  it('should apply options from a config file', async () => {
+    const client = await startServer({ args: [...CACHE_ARGS, '--config', join(configDir, 'valid.json')] });
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'usePatternFlyDocs', arguments: { urlList: ['react-core/6.0.0/llms.txt'] } }
+    });
+
+    await client.stop();
+
+    expect(getToolText(resp)).toMatch(/^# Documentation from .*llms-files\/react-core\/6\.0\.0\/llms\.txt/);
+  });
+
+  it('should list and load custom documentation sources', async () => {
+    const client = await startServer({ args: [...CACHE_ARGS, '--config', join(configDir, 'sources.json')] });
+    const tools = (await client.send({ method: 'tools/list' }))?.result?.tools || [];
+    const search = await client.send({
+      method: 'tools/call',
+      params: { name: 'searchPatternFlyDocs', arguments: { query: 'acme product card', limit: 1 } }
+    });
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'usePatternFlyDocs', arguments: { urlList: ['@acme/ProductCard'] } }
+    });
+
+    await client.stop();
+
+    expect(tools.find(({ name }) => name === 'usePatternFlyDocs')?.description)
+      .toContain(`[@acme/ProductCard](${join(configDir, 'acme-docs', 'ProductCard.md')})`);
+    expect(search?.result?.content?.[0]?.text).toContain('[@acme/ProductCard]');
+    expect(getToolText(resp)).toContain('Cards for products in the Acme storefront.');
+  });
+
+  it('should register plugin tools from a config file', async () => {
+    const client = await startServer({ args: [...CACHE_ARGS, '--config', join(configDir, 'plugins.json')] });
+    const tools = (await client.send({ method: 'tools/list' }))?.result?.tools || [];
+    const resp = await client.send({ method: 'tools/call', params: { name: 'acmeReadme', arguments: {} } });
+
+    await client.stop();
+
+    expect(tools.map(({ name }) => name)).toEqual(expect.arrayContaining(['usePatternFlyDocs', 'acmeReadme']));
+    expect(resp?.result?.content?.[0]?.text).toBe('@patternfly/patternfly-mcp: # PatternFly MCP Server');
+  });
+
+  it('should fail to start with unknown or invalid options', async () => {
+    await expect(promisify(execFile)('node', ['dist/index.js', '--config', join(configDir, 'invalid.json')]))
+      .rejects.toEqual(expect.objectContaining({
+        code: 1,
+        stderr: expect.stringMatching(/- fetchTimeout: Expected number, received string\n\s+- docsHots: unknown option/)
+      }));
+  });
 });
 
 describe('External URLs', () => {
@@ -77,7 +486,7 @@ describe('External URLs', () => {
   let client: StdioClient;
 
   beforeEach(async () => {
-    client = await startServer();
+    client = await startServer({ args: [...CACHE_ARGS, '--allow-url', '127.0.0.1'] });
   });
 
   afterEach(async () => client.stop());
@@ -107,10 +516,453 @@ describe('External URLs', () => {
       params: { name: 'fetchDocs', arguments: { urlList: [url] } }
     };
     const resp = await client.send(req, { timeoutMs: 10000 });
-    const text = resp?.result?.content?.[0]?.text || '';
+    const text = getToolText(resp);
 
     expect(text.startsWith('# Documentation from')).toBe(true);
     expect(/patternfly/i.test(text)).toBe(true);
     expect(text.split(/\n/g).filter(Boolean).splice(1)).toMatchSnapshot();
   });
+
+  it('should index fetched documents for full-text search', async () => {
+    await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList: [url] } }
+    }, { timeoutMs: 10000 });
+
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'searchDocsContent', arguments: { query: 'offline fixture' } }
+    });
+    const text = resp?.result?.content?.[0]?.text || '';
+
+    expect(text).toContain(`Source: ${url}#example-fixture`);
+  });
+});
+
+describe('Retries and rate limits', () => {
+  let fixture: { baseUrl: string; close: () => Promise<void>; };
+  let client: StdioClient;
+  const requests: Record<string, number> = {};
+  const body = '# Fixture page\n\nRetried content.';
+  const pages = Array.from({ length: 16 }, (_value, index) => `/page-${index}`);
+
+  beforeEach(async () => {
+    client = await startServer({ args: [...CACHE_ARGS, '--allow-url', '127.0.0.1'] });
+  });
+
+  afterEach(async () => client.stop());
+
+  beforeAll(async () => {
+    const count = (path: string) => {
+      requests[path] = (requests[path] || 0) + 1;
+
+      return requests[path];
+    };
+
+    fixture = await startHttpFixture({
+      routes: {
+        '/flaky': {
+          body: (_req, res) => {
+            if (count('/flaky') < 3) {
+              res.statusCode = 503;
+              res.setHeader('Retry-After', '0');
+
+              return res.end('Service Unavailable');
+            }
+
+            return res.end(body);
+          }
+        },
+        '/rate-limited': {
+          body: (_req, res) => {
+            count('/rate-limited');
+            res.statusCode = 429;
+            res.setHeader('Retry-After', '120');
+
+            return res.end('Too Many Requests');
+          }
+        },
+        ...Object.fromEntries(pages.map(page => [page, { body }]))
+      }
+    });
+  });
+
+  afterAll(async () => {
+    await fixture.close();
+  });
+
+  it('should retry transient server errors', async () => {
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList: [`${fixture.baseUrl}/flaky`] } }
+    }, { timeoutMs: 10000 });
+
+    expect(getToolText(resp)).toContain('Retried content.');
+    expect(requests['/flaky']).toBe(3);
+  });
+
+  it('should not wait for a Retry-After longer than the max delay', async () => {
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList: [`${fixture.baseUrl}/rate-limited`] } }
+    }, { timeoutMs: 10000 });
+
+    expect(getToolText(resp)).toContain(`❌ Failed to load ${fixture.baseUrl}/rate-limited: Error: Failed to fetch ${fixture.baseUrl}/rate-limited: 429 Too Many Requests`);
+    expect(requests['/rate-limited']).toBe(1);
+  });
+
+  it('should skip URLs past the max URLs per call', async () => {
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList: pages.map(page => `${fixture.baseUrl}${page}`) } }
+    }, { timeoutMs: 10000 });
+
+    const { documents = [] } = resp?.result?.structuredContent as { documents?: Array<Record<string, unknown>> } || {};
+
+    expect(documents.map(({ status }) => status)).toEqual([
+      ...Array(15).fill('loaded'),
+      'failed'
+    ]);
+    expect(getToolText(resp)).toContain('Skipped, at most 15 URLs are loaded per call, request it in another call');
+    expect(requests['/page-15']).toBeUndefined();
+  });
+});
+
+describe('Fallback sources', () => {
+  let fixture: { baseUrl: string; close: () => Promise<void>; };
+  let configDir: string;
+
+  beforeAll(async () => {
+    fixture = await startHttpFixture({
+      routes: {
+        '/backup.md': { body: '# Backup\n\nServed by the backup host.' }
+      }
+    });
+    configDir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-fallback-'));
+    await writeFile(join(configDir, 'fallback.json'), JSON.stringify({
+      allowUrls: ['127.0.0.1'],
+      docsSources: [{ namespace: '@acme', type: 'catalog', pathOrUrl: 'catalog.json' }]
+    }));
+    await writeFile(join(configDir, 'catalog.json'), JSON.stringify([
+      {
+        displayName: 'ProductCard',
+        pathOrUrl: `${fixture.baseUrl}/product-card.md`,
+        fallbacks: [`${fixture.baseUrl}/missing.md`, './product-card.md']
+      },
+      {
+        displayName: 'OrderTable',
+        pathOrUrl: `${fixture.baseUrl}/order-table.md`,
+        fallbacks: [`${fixture.baseUrl}/backup.md`]
+      }
+    ]));
+    await writeFile(join(configDir, 'product-card.md'), '# Product card\n\nBundled copy of the product card docs.');
+  });
+
+  afterAll(async () => {
+    await fixture.close();
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  it('should fall through fallback sources, and annotate the source that served the content', async () => {
+    const client = await startServer({ args: [...CACHE_ARGS, '--config', join(configDir, 'fallback.json')] });
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList: ['@acme/ProductCard', '@acme/OrderTable'] } }
+    }, { timeoutMs: 10000 });
+    const { documents = [] } = resp?.result?.structuredContent as { documents?: Array<Record<string, unknown>> } || {};
+
+    await client.stop();
+
+    expect(getToolText(resp)).toContain(
+      `# Documentation from ${fixture.baseUrl}/product-card.md (served from ${join(configDir, 'product-card.md')})\n\n# Product card`
+    );
+    expect(getToolText(resp)).toContain('Served by the backup host.');
+    expect(documents.map(({ status, servedFrom }) => [status, servedFrom])).toEqual([
+      ['loaded', join(configDir, 'product-card.md')],
+      ['loaded', `${fixture.baseUrl}/backup.md`]
+    ]);
+  });
+});
+
+describe('URL allowlist, --allow-url', () => {
+  let fixture: { baseUrl: string; close: () => Promise<void>; };
+  let client: StdioClient;
+
+  beforeAll(async () => {
+    fixture = await startHttpFixture({
+      routes: {
+        '/redirect': {
+          status: 302,
+          headers: { Location: 'http://169.254.169.254/latest/meta-data' }
+        }
+      }
+    });
+  });
+
+  afterAll(async () => {
+    await fixture.close();
+  });
+
+  afterEach(async () => client.stop());
+
+  it('should reject private and unlisted URLs with a per-URL message', async () => {
+    client = await startServer({ args: CACHE_ARGS });
+
+    const resp = await client.send({
+      method: 'tools/call',
+      params: {
+        name: 'fetchDocs',
+        arguments: { urlList: ['http://169.254.169.254/latest/meta-data', `${fixture.baseUrl}/redirect`] }
+      }
+    });
+    const text = getToolText(resp);
+
+    expect(text).toContain('❌ Failed to load http://169.254.169.254/latest/meta-data: Error: URL not allowed: 169.254.169.254 is not in the allowlist');
+    expect(text).toContain(`❌ Failed to load ${fixture.baseUrl}/redirect: Error: URL not allowed: ${fixture.baseUrl.replace('http://', '')} is not in the allowlist`);
+  });
+
+  it('should re-validate redirect locations', async () => {
+    client = await startServer({ args: [...CACHE_ARGS, '--allow-url', fixture.baseUrl] });
+
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList: [`${fixture.baseUrl}/redirect`] } }
+    });
+    const text = getToolText(resp);
+
+    expect(text).toContain(`❌ Failed to load ${fixture.baseUrl}/redirect: Error: URL not allowed: 169.254.169.254 is not in the allowlist`);
+  });
+});
+
+describe('Offline mirror, sync and --mirror', () => {
+  let fixture: { baseUrl: string; close: () => Promise<void>; };
+  let url: string;
+  let mirrorDir: string;
+  let client: StdioClient;
+
+  beforeAll(async () => {
+    fixture = await startHttpFixture({
+      routes: {
+        '/readme': {
+          status: 200,
+          headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+          body: loadFixture('README.md')
+        }
+      }
+    });
+    url = `${fixture.baseUrl}/readme`;
+    mirrorDir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-mirror-'));
+
+    await expect(promisify(execFile)('node', ['dist/index.js', 'sync', ...CACHE_ARGS, '--out', mirrorDir, url]))
+      .rejects
+      .toThrow(`Failed to sync ${url}: URL not allowed`);
+    await promisify(execFile)('node', ['dist/index.js', 'sync', ...CACHE_ARGS, '--allow-url', '127.0.0.1', '--out', mirrorDir, url]);
+    await fixture.close();
+
+    client = await startServer({ args: [...CACHE_ARGS, '--mirror', mirrorDir] });
+  });
+
+  afterAll(async () => {
+    await client.stop();
+    await rm(mirrorDir, { recursive: true, force: true });
+  });
+
+  it('should write a manifest for synced URLs', async () => {
+    const manifest = JSON.parse(await readFile(join(mirrorDir, 'manifest.json'), 'utf-8'));
+
+    expect(manifest.entries).toEqual([{ url, hash: expect.stringMatching(/^[a-f0-9]{64}$/), fetchedAt: expect.any(String) }]);
+  });
+
+  it('should serve mirrored URLs without the network', async () => {
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList: [url, `${fixture.baseUrl}/missing`] } }
+    });
+    const text = getToolText(resp);
+
+    expect(text.startsWith(`# Documentation from ${url}`)).toBe(true);
+    expect(/patternfly/i.test(text)).toBe(true);
+    expect(text).toContain(`Failed to fetch ${fixture.baseUrl}/missing: not found in mirror`);
+  });
+});
+
+describe('Link checker, check-links', () => {
+  let fixture: { baseUrl: string; close: () => Promise<void>; };
+
+  beforeAll(async () => {
+    fixture = await startHttpFixture({
+      routes: {
+        '/ok': { status: 200, body: '# OK' },
+        '/moved': { status: 301, headers: { Location: '/ok' } }
+      }
+    });
+  });
+
+  afterAll(async () => fixture.close());
+
+  it('should report link statuses and exit with a non-zero code for broken links', async () => {
+    const urls = ['/ok', '/moved', '/missing'].map(path => `${fixture.baseUrl}${path}`);
+    const error = await promisify(execFile)('node', [
+      'dist/index.js', 'check-links', '--allow-url', '127.0.0.1', '--format', 'json', ...urls
+    ]).catch(err => err);
+    const { summary, results } = JSON.parse(error.stdout);
+
+    expect(error.code).toBe(1);
+    expect(summary).toEqual({ total: 3, ok: 1, redirected: 1, duplicate: 0, malformed: 0, empty: 0, broken: 1 });
+    expect(results.map(({ status, httpStatus, redirectedTo }: Record<string, unknown>) =>
+      ({ status, httpStatus, redirectedTo }))).toEqual([
+      { status: 'ok', httpStatus: 200 },
+      { status: 'redirected', httpStatus: 301, redirectedTo: `${fixture.baseUrl}/ok` },
+      { status: 'broken', httpStatus: 404 }
+    ]);
+  });
+});
+
+describe('Catalog generation, generate-catalog', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-generate-'));
+
+    await mkdir(join(dir, 'patternfly-react', 'packages', 'react-table', 'src', 'components', 'Table', 'examples'), { recursive: true });
+    await writeFile(join(dir, 'patternfly-react', 'packages', 'react-table', 'package.json'), JSON.stringify({ name: '@patternfly/react-table' }));
+    await writeFile(
+      join(dir, 'patternfly-react', 'packages', 'react-table', 'src', 'components', 'Table', 'examples', 'Table.md'),
+      '---\nid: Table\nsection: components\n---\n\nTables display data.'
+    );
+  });
+
+  afterAll(async () => rm(dir, { recursive: true, force: true }));
+
+  it('should write llms.txt files for a source checkout', async () => {
+    const { stdout } = await promisify(execFile)('node', [
+      'dist/index.js', 'generate-catalog', '--source', join(dir, 'patternfly-react'), '--version', '6.x', '--out', join(dir, 'llms-files')
+    ]);
+    const llmsTxt = await readFile(join(dir, 'llms-files', 'react-table', '6.0.0', 'llms.txt'), 'utf-8');
+
+    expect(stdout).toContain('Generated 1 entries for @patternfly/react-table 6.0.0');
+    expect(llmsTxt).toBe([
+      '# @patternfly/react-table 6.0.0',
+      '',
+      '## Components',
+      '[@patternfly/Table - Examples](https://raw.githubusercontent.com/patternfly/patternfly-react/refs/heads/main/packages/react-table/src/components/Table/examples/Table.md): <classification>Tables display data.</classification>',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('Persistent HTTP cache, --cache-dir', () => {
+  let fixture: { baseUrl: string; close: () => Promise<void>; };
+  let url: string;
+  let cacheDir: string;
+  const requests: Array<string | undefined> = [];
+
+  const fetchWithNewServer = async () => {
+    const client = await startServer({ args: ['--cache-dir', cacheDir, '--allow-url', '127.0.0.1'] });
+    const resp = await client.send({
+      method: 'tools/call',
+      params: { name: 'fetchDocs', arguments: { urlList: [url] } }
+    }, { timeoutMs: 10000 });
+
+    await client.stop();
+
+    return getToolText(resp);
+  };
+
+  beforeAll(async () => {
+    const body = loadFixture('README.md');
+
+    fixture = await startHttpFixture({
+      routes: {
+        '/readme': {
+          body: (req, res) => {
+            requests.push(req.headers['if-none-match'] as string | undefined);
+
+            if (req.headers['if-none-match'] === '"fixture-v1"') {
+              res.statusCode = 304;
+
+              return res.end();
+            }
+
+            res.setHeader('ETag', '"fixture-v1"');
+            res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+
+            return res.end(body);
+          }
+        }
+      }
+    });
+    url = `${fixture.baseUrl}/readme`;
+    cacheDir = await mkdtemp(join(tmpdir(), 'patternfly-mcp-cache-'));
+  });
+
+  afterAll(async () => {
+    await fixture.close();
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should revalidate cached responses across sessions, and serve them stale offline', async () => {
+    const first = await fetchWithNewServer();
+    const revalidated = await fetchWithNewServer();
+
+    await fixture.close();
+
+    const offline = await fetchWithNewServer();
+
+    expect(requests).toEqual([undefined, '"fixture-v1"']);
+    expect(/patternfly/i.test(first)).toBe(true);
+    expect(revalidated).toBe(first);
+    expect(offline).toBe(first);
+  });
+});
+
+describe('HTTP transport, --http', () => {
+  let client: HttpClient;
+
+  beforeEach(async () => {
+    client = await startHttpServer({ args: CACHE_ARGS });
+  });
+
+  afterEach(async () => client.stop());
+
+  it('should assign a session id', () => {
+    expect(client.sessionId).toEqual(expect.any(String));
+  });
+
+  it('should concatenate headers and separator with two local files', async () => {
+    const req = {
+      method: 'tools/call',
+      params: {
+        name: 'usePatternFlyDocs',
+        arguments: {
+          urlList: [
+            'documentation/guidelines/README.md',
+            'documentation/components/README.md'
+          ]
+        }
+      }
+    };
+
+    const resp = await client.send(req);
+    const text = getToolText(resp);
+
+    expect(text.startsWith('# Documentation from')).toBe(true);
+    expect(text).toMatchSnapshot();
+  });
+
+  it('should expose expected tools and stable shape', async () => {
+    const resp = await client.send({ method: 'tools/list' });
+    const tools = resp?.result?.tools || [];
+    const toolNames = tools.map(tool => tool.name).sort();
+
+    expect(toolNames).toEqual(expect.arrayContaining(['usePatternFlyDocs', 'fetchDocs']));
+    expect({ toolNames }).toMatchSnapshot();
+  });
+
+  it('should serve multiple client sessions from one server', async () => {
+    const secondSessionId = await initializeHttpSession(client.url);
+
+    expect(secondSessionId).toEqual(expect.any(String));
+    expect(secondSessionId).not.toBe(client.sessionId);
+  });
 });
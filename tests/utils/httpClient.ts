@@ -0,0 +1,223 @@
+// Lightweight JSON-RPC over Streamable HTTP client for the built MCP server (dist/index.js)
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
+import net from 'node:net';
+import { type RpcRequest, type RpcResponse, type StartOptions } from './stdioClient';
+
+export interface StartHttpOptions extends StartOptions {
+  host?: string;
+  port?: number;
+  startTimeoutMs?: number;
+}
+
+export interface HttpClient {
+  proc: ChildProcessWithoutNullStreams;
+  url: string;
+  sessionId: string | undefined;
+  send: (request: RpcRequest, opts?: { timeoutMs?: number }) => Promise<RpcResponse>;
+  stop: (signal?: NodeJS.Signals) => Promise<void>;
+}
+
+/**
+ * Find an available port by briefly binding to port 0.
+ *
+ * @param {string} host
+ * @returns {Promise<number>} Available port.
+ */
+export const getAvailablePort = (host = '127.0.0.1'): Promise<number> => new Promise((resolve, reject) => {
+  const server = net.createServer();
+
+  server.once('error', reject);
+  server.listen(0, host, () => {
+    const addr = server.address();
+    const port = (addr && typeof addr !== 'string' && addr.port) || 0;
+
+    server.close(() => resolve(port));
+  });
+});
+
+/**
+ * Parse a JSON-RPC response from either a JSON body or an SSE stream body.
+ *
+ * @param {string} contentType
+ * @param {string} text
+ * @returns {RpcResponse|undefined} Parsed response.
+ */
+export const parseHttpResponse = (contentType: string, text: string): RpcResponse | undefined => {
+  if (!text.trim()) {
+    return undefined;
+  }
+
+  if (/text\/event-stream/i.test(contentType)) {
+    const data = text
+      .split(/\n/g)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.replace(/^data:\s*/, ''))
+      .pop();
+
+    return (data && JSON.parse(data)) || undefined;
+  }
+
+  return JSON.parse(text);
+};
+
+/**
+ * Initialize a new MCP session against a running HTTP server.
+ *
+ * @param {string} url
+ * @returns {Promise<string|undefined>} Session ID assigned by the server.
+ */
+export const initializeHttpSession = async (url: string): Promise<string | undefined> => {
+  const headers = {
+    'Content-Type': 'application/json',
+    Accept: 'application/json, text/event-stream'
+  };
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-06-18',
+        capabilities: {},
+        clientInfo: { name: 'patternfly-mcp-tests', version: '0.0.0' }
+      }
+    })
+  });
+  const sessionId = response.headers.get('mcp-session-id') || undefined;
+
+  await response.text();
+
+  if (sessionId) {
+    await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'mcp-session-id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' })
+    }).then(res => res.text());
+  }
+
+  return sessionId;
+};
+
+/**
+ * Start the MCP server process in HTTP mode, initialize a session, and return a client with send/stop APIs.
+ * Mirrors `startServer` from `stdioClient` so the same requests can be exercised over both transports.
+ *
+ * Options:
+ * - command: node command to run (default: 'node')
+ * - serverPath: path to built server (default: process.env.SERVER_PATH || 'dist/index.js')
+ * - args: additional args to pass to server (e.g., ['--docs-host'])
+ * - env: env vars to pass to child
+ * - host: host to bind (default: '127.0.0.1')
+ * - port: port to bind (default: an available port)
+ *
+ * @param params
+ * @param params.command
+ * @param params.serverPath
+ * @param params.args
+ * @param params.env
+ * @param params.host
+ * @param params.port
+ * @param params.startTimeoutMs
+ */
+export const startHttpServer = async ({
+  command = 'node',
+  serverPath = process.env.SERVER_PATH || 'dist/index.js',
+  args = [],
+  env = {},
+  host = '127.0.0.1',
+  port,
+  startTimeoutMs = 10000
+}: StartHttpOptions = {}): Promise<HttpClient> => {
+  const updatedPort = port || await getAvailablePort(host);
+  const proc: ChildProcessWithoutNullStreams = spawn(
+    command,
+    [serverPath, '--http', '--port', String(updatedPort), '--host', host, ...args],
+    {
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env: { ...process.env, ...env }
+    }
+  );
+
+  let output = '';
+  let isClosed = false;
+
+  const url = await new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      proc.kill();
+      reject(new Error(`Timeout waiting for HTTP server. output: ${output}`));
+    }, startTimeoutMs);
+    const onData = (data: Buffer) => {
+      output += data.toString();
+
+      const match = output.match(/running on (http:\/\/\S+)/);
+
+      if (match?.[1]) {
+        clearTimeout(timer);
+        resolve(match[1]);
+      }
+    };
+
+    proc.stdout.on('data', onData);
+    proc.stderr.on('data', onData);
+    proc.on('close', () => {
+      clearTimeout(timer);
+      reject(new Error(`Server closed before listening. output: ${output}`));
+    });
+  });
+
+  const client: HttpClient = {
+    proc,
+    url,
+    sessionId: undefined,
+    send: async (request, { timeoutMs = 20000 } = {}) => {
+      if (!request || typeof request !== 'object') {
+        throw new Error('Invalid request');
+      }
+
+      const id: number | string = request.id || Math.floor(Math.random() * 1e9);
+      const rpc: RpcRequest = { jsonrpc: '2.0', ...request, id };
+      const ms = Number(process.env.TEST_TIMEOUT_MS || timeoutMs);
+      const response = await fetch(url, {
+        method: 'POST',
+        signal: AbortSignal.timeout(ms),
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          ...(client.sessionId && { 'mcp-session-id': client.sessionId })
+        },
+        body: JSON.stringify(rpc)
+      });
+
+      client.sessionId = response.headers.get('mcp-session-id') || client.sessionId;
+
+      const parsed = parseHttpResponse(response.headers.get('content-type') || '', await response.text());
+
+      if (!parsed) {
+        throw new Error(`Empty response for id=${String(id)}, status ${response.status}. output: ${output}`);
+      }
+
+      return parsed;
+    },
+    stop: (signal: NodeJS.Signals = 'SIGINT'): Promise<void> => new Promise(resolve => {
+      if (isClosed || proc.exitCode !== null) {
+        return resolve();
+      }
+
+      isClosed = true;
+      proc.on('close', () => resolve());
+
+      try {
+        proc.kill(signal);
+      } catch {
+        // ignore
+      }
+    })
+  };
+
+  // Streamable HTTP requires an initialized session before other requests
+  client.sessionId = await initializeHttpSession(url);
+
+  return client;
+};